@@ -0,0 +1,13 @@
+/**
+ * Room protocol field limits, enforced by the room (worker/validate.ts) and by listeners (src/room/protocol.ts)
+ */
+
+export const PROTOCOL_LIMITS = {
+  MAX_TEXT_LENGTH: 2000,
+  MAX_STATUS_LENGTH: 500,
+  MAX_LANG_NAME_LENGTH: 64,
+  MAX_TARGETS: 8,
+  /** Base64 PCM/Opus payload inside a legacy JSON out_audio event */
+  MAX_B64_LENGTH: 400_000,
+  SAMPLE_RATES: [24000],
+} as const;
@@ -0,0 +1,25 @@
+/**
+ * Streaming transcript fragments: how providers deliver text and how phrases are built from it
+ *
+ * Providers declare their mode instead of it being guessed from the text: "delta" fragments
+ * (Gemini Live, the offline provider) continue the open phrase, "cumulative" fragments
+ * (browser speech recognition) repeat the whole phrase so far and replace it. Shared by the
+ * speaker page and the room's transcript segmenter (worker/transcript.ts).
+ */
+
+export type TranscriptMode = "delta" | "cumulative";
+
+const SENTENCE_END_RE = /[.!?。！？]["'”’)\]]*$/;
+const MIN_SENTENCE_CHARS = 12;
+
+/** Open phrase text after one more fragment */
+export function mergeFragment(phrase: string, text: string, cumulative: boolean): string {
+  return cumulative ? text.trim() : (phrase + text).trim();
+}
+
+/** The provider finished the phrase, or (deltas only) it ends a sentence */
+export function phraseEnded(phrase: string, finished: boolean | undefined, cumulative: boolean): boolean {
+  if (finished) return true;
+  // Cumulative text can still be revised, so only the provider ends those phrases
+  return !cumulative && phrase.length >= MIN_SENTENCE_CHARS && SENTENCE_END_RE.test(phrase);
+}
@@ -0,0 +1,129 @@
+/**
+ * Pre-recorded audio/video file -> PCM16 chunks at 16kHz, paced like the microphone
+ *
+ * The whole file is decoded (and resampled by the browser) up front, then handed out in
+ * the same 4096-sample chunks as AudioRecorder, at real time or a multiple of it.
+ * A little silence follows the end so the last sentence is detected as finished.
+ */
+import { CONFIG } from "../config";
+
+const SAMPLE_RATE = CONFIG.INPUT_SAMPLE_RATE;
+const CHUNK_SAMPLES = CONFIG.CHUNK_SIZE;
+const TICK_MS = 50;
+/** Catch-up limit per tick (background tabs throttle timers) */
+const MAX_CHUNKS_PER_TICK = 64;
+const TRAILING_SILENCE_MS = 2000;
+
+function toPcm16Mono(buffer: AudioBuffer): Int16Array<ArrayBuffer> {
+  const out = new Int16Array(buffer.length);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (const channel of channels) sum += channel[i];
+    const sample = sum / channels.length;
+    out[i] = Math.max(-32768, Math.min(32767, Math.round(sample * 32767)));
+  }
+  return out;
+}
+
+export class FileAudioSource {
+  /** Next sample to send; runs past the end while the trailing silence goes out */
+  private position = 0;
+  private timer: number | null = null;
+  /** Pacing anchor: sample `anchorSample` was due at `anchorAt` (performance.now) */
+  private anchorAt = 0;
+  private anchorSample = 0;
+  private speed = 1;
+  onChunk?: (pcm16: ArrayBuffer) => void;
+  onProgress?: (positionMs: number) => void;
+  /** All audio (and the trailing silence) has been sent */
+  onEnd?: () => void;
+
+  private constructor(readonly name: string, private samples: Int16Array<ArrayBuffer>) {}
+
+  /** Decode any format the browser can play (audio or the audio track of a video) */
+  static async fromFile(file: File): Promise<FileAudioSource> {
+    const data = await file.arrayBuffer();
+    const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+    let buffer: AudioBuffer;
+    try {
+      buffer = await context.decodeAudioData(data);
+    } catch {
+      throw new Error("Could not decode this file — try another format (MP3, M4A, WAV, MP4, WebM)");
+    }
+    if (!buffer.length) throw new Error("The file has no audio");
+    return new FileAudioSource(file.name, toPcm16Mono(buffer));
+  }
+
+  get durationMs(): number {
+    return (this.samples.length / SAMPLE_RATE) * 1000;
+  }
+
+  get positionMs(): number {
+    return (Math.min(this.position, this.samples.length) / SAMPLE_RATE) * 1000;
+  }
+
+  get playing(): boolean {
+    return this.timer !== null;
+  }
+
+  private get endSample(): number {
+    return this.samples.length + Math.round((TRAILING_SILENCE_MS / 1000) * SAMPLE_RATE);
+  }
+
+  /** Start sending at `speed` × real time (from the beginning if the end was reached) */
+  start(speed: number): void {
+    this.speed = speed;
+    if (this.position >= this.samples.length) this.position = 0;
+    this.resume();
+  }
+
+  pause(): void {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  resume(): void {
+    if (this.timer !== null) return;
+    this.anchor();
+    this.timer = window.setInterval(() => this.tick(), TICK_MS);
+  }
+
+  seek(ms: number): void {
+    const target = Math.round((ms / 1000) * SAMPLE_RATE);
+    this.position = Math.max(0, Math.min(this.samples.length, target - (target % CHUNK_SAMPLES)));
+    this.anchor();
+    this.onProgress?.(this.positionMs);
+  }
+
+  stop(): void {
+    this.pause();
+    this.onChunk = undefined;
+    this.onEnd = undefined;
+  }
+
+  private anchor(): void {
+    this.anchorAt = performance.now();
+    this.anchorSample = this.position;
+  }
+
+  private tick(): void {
+    const due = this.anchorSample + ((performance.now() - this.anchorAt) / 1000) * SAMPLE_RATE * this.speed;
+    let sent = 0;
+    while (this.position + CHUNK_SAMPLES <= due && this.position < this.endSample) {
+      if (sent++ === MAX_CHUNKS_PER_TICK) {
+        this.anchor(); // fell behind: carry on from here rather than flooding
+        break;
+      }
+      const chunk = new Int16Array(CHUNK_SAMPLES);
+      chunk.set(this.samples.subarray(this.position, this.position + CHUNK_SAMPLES));
+      this.position += CHUNK_SAMPLES;
+      this.onChunk?.(chunk.buffer);
+    }
+    this.onProgress?.(this.positionMs);
+    if (this.position >= this.endSample) {
+      this.pause();
+      this.onEnd?.();
+    }
+  }
+}
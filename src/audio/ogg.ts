@@ -0,0 +1,115 @@
+/**
+ * Minimal Ogg Opus muxer (RFC 7845) for downloadable recordings
+ */
+
+export interface OggOpusPacket {
+  data: Uint8Array;
+  /** Duration at 48 kHz (Ogg Opus granule units) */
+  samples48k: number;
+}
+
+export interface OggOpusOptions {
+  inputSampleRate: number;
+  /** Encoder delay at 48 kHz */
+  preSkip: number;
+  /** Vorbis comments, e.g. ["TITLE=...", "CHAPTER001=00:00:00.000"] */
+  comments: string[];
+}
+
+/** Audio packets per page (~1 s at 20 ms frames) */
+const PACKETS_PER_PAGE = 50;
+const VENDOR = "sermon-translator";
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+}
+
+const HEADER_BOS = 0x02;
+const HEADER_EOS = 0x04;
+
+function oggPage(packets: Uint8Array[], granule: number, serial: number, sequence: number, headerType: number): Uint8Array<ArrayBuffer> {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    for (let left = packet.length; ; left -= 255) {
+      lacing.push(Math.min(left, 255));
+      if (left < 255) break;
+    }
+  }
+  const bodySize = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodySize);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  page[5] = headerType;
+  view.setBigUint64(6, BigInt(granule), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, crc32(page), true);
+  return page;
+}
+
+function opusHead(options: OggOpusOptions): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode("OpusHead"));
+  head[8] = 1; // version
+  head[9] = 1; // channels
+  view.setUint16(10, options.preSkip, true);
+  view.setUint32(12, options.inputSampleRate, true);
+  // output gain 0, channel mapping family 0
+  return head;
+}
+
+function opusTags(comments: string[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const fields = [VENDOR, ...comments].map((text) => encoder.encode(text));
+  const tags = new Uint8Array(8 + 4 + fields.reduce((sum, field) => sum + 4 + field.length, 0));
+  const view = new DataView(tags.buffer);
+  tags.set(encoder.encode("OpusTags"));
+  let offset = 8;
+  fields.forEach((field, i) => {
+    if (i === 1) {
+      view.setUint32(offset, comments.length, true);
+      offset += 4;
+    }
+    view.setUint32(offset, field.length, true);
+    tags.set(field, offset + 4);
+    offset += 4 + field.length;
+  });
+  if (!comments.length) view.setUint32(offset, 0, true);
+  return tags;
+}
+
+export function encodeOggOpus(packets: OggOpusPacket[], options: OggOpusOptions): Blob {
+  const serial = (Math.random() * 0xffffffff) >>> 0;
+  const pages: Uint8Array<ArrayBuffer>[] = [
+    oggPage([opusHead(options)], 0, serial, 0, HEADER_BOS),
+    oggPage([opusTags(options.comments)], 0, serial, 1, 0),
+  ];
+  let granule = options.preSkip;
+  for (let i = 0; i < packets.length || pages.length === 2; i += PACKETS_PER_PAGE) {
+    const group = packets.slice(i, i + PACKETS_PER_PAGE);
+    granule += group.reduce((sum, packet) => sum + packet.samples48k, 0);
+    const last = i + PACKETS_PER_PAGE >= packets.length;
+    pages.push(oggPage(group.map((packet) => packet.data), granule, serial, pages.length, last ? HEADER_EOS : 0));
+  }
+  return new Blob(pages, { type: "audio/ogg" });
+}
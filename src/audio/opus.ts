@@ -0,0 +1,234 @@
+/**
+ * Opus encode/decode via WebCodecs for audience audio distribution
+ *
+ * Payload layout for one room audio frame: repeated [u16 LE length][Opus packet].
+ */
+import { CONFIG } from "../config";
+
+export type AudioCodec = "pcm16" | "opus";
+
+const OPUS_CONFIG = {
+  codec: "opus",
+  sampleRate: CONFIG.OUTPUT_SAMPLE_RATE,
+  numberOfChannels: 1,
+} as const;
+
+const OPUS_BITRATE = 32_000;
+/** Downloadable recordings get a little more headroom than live distribution */
+const OPUS_FILE_BITRATE = 48_000;
+/** Opus always runs at 48 kHz internally; libopus adds this much delay at the start */
+const DEFAULT_PRE_SKIP = 312;
+/** Opus packets are grouped into one room frame until this much audio is pending */
+const FLUSH_AFTER_US = 100_000;
+/** ...or this long after the last packet arrived */
+const FLUSH_IDLE_MS = 150;
+
+export async function isOpusEncodeSupported(): Promise<boolean> {
+  if (typeof AudioEncoder === "undefined") return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({ ...OPUS_CONFIG, bitrate: OPUS_BITRATE });
+    return !!supported;
+  } catch {
+    return false;
+  }
+}
+
+export async function isOpusDecodeSupported(): Promise<boolean> {
+  if (typeof AudioDecoder === "undefined") return false;
+  try {
+    const { supported } = await AudioDecoder.isConfigSupported(OPUS_CONFIG);
+    return !!supported;
+  } catch {
+    return false;
+  }
+}
+
+export function packOpusPackets(packets: Uint8Array[]): ArrayBuffer {
+  const total = packets.reduce((sum, p) => sum + 2 + p.byteLength, 0);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  for (const packet of packets) {
+    view.setUint16(offset, packet.byteLength, true);
+    out.set(packet, offset + 2);
+    offset += 2 + packet.byteLength;
+  }
+  return out.buffer;
+}
+
+export function unpackOpusPackets(payload: ArrayBuffer): Uint8Array[] {
+  const view = new DataView(payload);
+  const packets: Uint8Array[] = [];
+  let offset = 0;
+  while (offset + 2 <= payload.byteLength) {
+    const length = view.getUint16(offset, true);
+    if (offset + 2 + length > payload.byteLength) break; // truncated frame
+    packets.push(new Uint8Array(payload, offset + 2, length));
+    offset += 2 + length;
+  }
+  return packets;
+}
+
+/** PCM16 @ 24kHz in, grouped Opus packets out (via onFrame) */
+export class OpusEncoderStream {
+  private encoder: AudioEncoder;
+  private timestampUs = 0;
+  /** Packets stamped before this were still in the encoder at an interrupt and are dropped */
+  private discardBeforeUs = 0;
+  private pending: Uint8Array[] = [];
+  private pendingUs = 0;
+  private flushTimer: number | null = null;
+  onFrame?: (payload: ArrayBuffer) => void;
+
+  constructor() {
+    this.encoder = new AudioEncoder({
+      output: (chunk) => this.handleChunk(chunk),
+      error: (err) => console.error("Opus encoder error", err),
+    });
+    this.encoder.configure({ ...OPUS_CONFIG, bitrate: OPUS_BITRATE });
+  }
+
+  encode(pcm16: ArrayBuffer): void {
+    const frames = pcm16.byteLength >> 1;
+    if (!frames || this.encoder.state !== "configured") return;
+    const data = new AudioData({
+      format: "s16",
+      sampleRate: CONFIG.OUTPUT_SAMPLE_RATE,
+      numberOfChannels: 1,
+      numberOfFrames: frames,
+      timestamp: this.timestampUs,
+      data: pcm16.slice(0, frames * 2),
+    });
+    this.timestampUs += (frames / CONFIG.OUTPUT_SAMPLE_RATE) * 1_000_000;
+    this.encoder.encode(data);
+    data.close();
+  }
+
+  private handleChunk(chunk: EncodedAudioChunk): void {
+    if (chunk.timestamp < this.discardBeforeUs) return;
+    const packet = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(packet);
+    this.pending.push(packet);
+    this.pendingUs += chunk.duration ?? 20_000;
+    if (this.pendingUs >= FLUSH_AFTER_US) {
+      this.flush();
+      return;
+    }
+    if (this.flushTimer != null) window.clearTimeout(this.flushTimer);
+    this.flushTimer = window.setTimeout(() => this.flush(), FLUSH_IDLE_MS);
+  }
+
+  private flush(): void {
+    if (this.flushTimer != null) window.clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    if (!this.pending.length) return;
+    const payload = packOpusPackets(this.pending);
+    this.pending = [];
+    this.pendingUs = 0;
+    this.onFrame?.(payload);
+  }
+
+  /** Drop packets not yet sent, including audio still in the encoder queue (on interrupt) */
+  discardPending(): void {
+    this.discardBeforeUs = this.timestampUs;
+    if (this.flushTimer != null) window.clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    this.pending = [];
+    this.pendingUs = 0;
+  }
+
+  close(): void {
+    this.discardPending();
+    if (this.encoder.state !== "closed") this.encoder.close();
+  }
+}
+
+/** Raw Opus packets for a whole recording (file export), with durations in 48 kHz samples */
+export async function encodeOpusFile(chunks: Int16Array<ArrayBuffer>[]): Promise<{ packets: { data: Uint8Array; samples48k: number }[]; preSkip: number }> {
+  const packets: { data: Uint8Array; samples48k: number }[] = [];
+  let preSkip = DEFAULT_PRE_SKIP;
+  let failure: unknown = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const description = metadata?.decoderConfig?.description;
+      if (description) {
+        // OpusHead from the encoder carries its actual pre-skip
+        const head = ArrayBuffer.isView(description)
+          ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+          : new Uint8Array(description);
+        if (head.length >= 12) preSkip = head[10] | (head[11] << 8);
+      }
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, samples48k: Math.round(((chunk.duration ?? 20_000) * 48) / 1000) });
+    },
+    error: (err) => { failure = err; },
+  });
+  encoder.configure({ ...OPUS_CONFIG, bitrate: OPUS_FILE_BITRATE });
+
+  let timestampUs = 0;
+  for (const chunk of chunks) {
+    if (failure) break;
+    if (!chunk.length) continue;
+    const data = new AudioData({
+      format: "s16",
+      sampleRate: CONFIG.OUTPUT_SAMPLE_RATE,
+      numberOfChannels: 1,
+      numberOfFrames: chunk.length,
+      timestamp: timestampUs,
+      data: chunk,
+    });
+    timestampUs += (chunk.length / CONFIG.OUTPUT_SAMPLE_RATE) * 1_000_000;
+    encoder.encode(data);
+    data.close();
+    // Keep the queue short so an hour-long recording isn't copied into the encoder at once
+    while (encoder.encodeQueueSize > 16) await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  if (!failure) await encoder.flush().catch((err) => { failure = err; });
+  if (encoder.state !== "closed") encoder.close();
+  if (failure) throw failure;
+  return { packets, preSkip };
+}
+
+/** Grouped Opus packets in, Float32 PCM out (via onSamples) */
+export class OpusDecoderStream {
+  private decoder: AudioDecoder;
+  private timestampUs = 0;
+  /** Outputs stamped before this were queued ahead of an interrupt and are dropped */
+  private discardBeforeUs = 0;
+  onSamples?: (samples: Float32Array<ArrayBuffer>) => void;
+
+  constructor() {
+    this.decoder = new AudioDecoder({
+      output: (data) => this.handleData(data),
+      error: (err) => console.error("Opus decoder error", err),
+    });
+    this.decoder.configure(OPUS_CONFIG);
+  }
+
+  decode(payload: ArrayBuffer): void {
+    if (this.decoder.state !== "configured") return;
+    for (const packet of unpackOpusPackets(payload)) {
+      this.decoder.decode(new EncodedAudioChunk({ type: "key", timestamp: this.timestampUs, data: packet }));
+      this.timestampUs += 20_000; // nominal; only used for ordering/discard
+    }
+  }
+
+  private handleData(data: AudioData): void {
+    if (data.timestamp >= this.discardBeforeUs) {
+      const samples = new Float32Array(data.numberOfFrames);
+      data.copyTo(samples, { planeIndex: 0, format: "f32-planar" });
+      this.onSamples?.(samples);
+    }
+    data.close();
+  }
+
+  /** Ignore anything still in the decoder queue */
+  discardPending(): void {
+    this.discardBeforeUs = this.timestampUs;
+  }
+
+  close(): void {
+    if (this.decoder.state !== "closed") this.decoder.close();
+  }
+}
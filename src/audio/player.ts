@@ -1,62 +1,271 @@
 /**
- * PCM16@24kHz playback with queue management
+ * PCM16 (or Opus) @24kHz playback with an adaptive jitter buffer
+ *
+ * Incoming audio is queued and handed to Web Audio only a little ahead of the play head, so
+ * the delay can be managed: playback (re)starts once the target latency is buffered, the
+ * target grows after underruns and shrinks again while playback is smooth, and a backlog is
+ * worked off by playing slightly faster and then by shortening pauses. Underruns and cuts
+ * fade instead of clicking.
  */
 import { CONFIG } from "../config";
+import { AudioCodec, OpusDecoderStream } from "./opus";
+
+const SAMPLE_RATE = CONFIG.OUTPUT_SAMPLE_RATE;
+/** Jitter buffer target latency range and adaptation */
+const MIN_TARGET_S = 0.25;
+const MAX_TARGET_S = 1.5;
+const TARGET_STEP_UP_S = 0.15;
+const TARGET_STEP_DOWN_S = 0.05;
+const TARGET_RELAX_AFTER_S = 30;
+/** Audio arriving this soon after playback ran dry means it was an underrun, not a pause */
+const UNDERRUN_WINDOW_S = 1;
+/** How far ahead of the play head audio is handed to Web Audio */
+const SCHEDULE_AHEAD_S = 0.5;
+const TICK_MS = 100;
+/** Backlog beyond the target at which playback speeds up, and at which pauses are shortened */
+const CATCHUP_EXCESS_S = 1.5;
+/** playbackRate also raises the pitch; 2% (about a third of a semitone) keeps voices natural */
+const CATCHUP_RATE = 1.02;
+const TRIM_EXCESS_S = 3;
+const TRIM_WINDOW = SAMPLE_RATE / 50; // 20ms
+const TRIM_SILENCE_RMS = 0.01;
+const KEEP_PAUSE_SAMPLES = SAMPLE_RATE / 4;
+const FADE_S = 0.012;
+
+/** Delay at which listeners are told they are behind live */
+export const BEHIND_LIVE_S = 3;
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  start: number;
+  end: number;
+  /** Where its fade-out begins */
+  fadeFrom: number;
+}
 
 export class AudioPlayer {
   private context: AudioContext | null = null;
-  private queue: AudioBuffer[] = [];
+  private queue: Float32Array<ArrayBuffer>[] = [];
+  private queuedSamples = 0;
+  private scheduled: ScheduledChunk[] = [];
   private nextStartTime = 0;
   private playing = false;
+  private opusDecoder: OpusDecoderStream | null = null;
+  private timer: number | null = null;
+  /** Waiting for the target latency before (re)starting playback */
+  private buffering = true;
+  private bufferingSince: number | null = null;
+  /** When playback last ran out of audio (null = interrupted or never played) */
+  private ranDryAt: number | null = null;
+  private target = MIN_TARGET_S;
+  private targetChangedAt = 0;
+  /** Consecutive silent samples seen while shortening pauses */
+  private silentRun = 0;
+  /** Called about every 100ms with the current delay (seconds of audio not yet heard) */
+  onDelay?: (seconds: number) => void;
 
   start(): void {
-    this.context = new AudioContext({ sampleRate: CONFIG.OUTPUT_SAMPLE_RATE });
+    if (this.timer !== null) clearInterval(this.timer);
+    this.context = new AudioContext({ sampleRate: SAMPLE_RATE });
     this.nextStartTime = 0;
     this.playing = true;
+    this.target = MIN_TARGET_S;
+    this.targetChangedAt = 0;
+    this.resetBuffering();
+    this.timer = window.setInterval(() => {
+      this.pump();
+      this.onDelay?.(this.delay);
+    }, TICK_MS);
   }
 
-  /** Queue PCM16 base64 chunk for playback */
-  enqueue(b64: string): void {
+  /** Seconds between what is heard now and the newest audio received */
+  get delay(): number {
+    if (!this.context) return 0;
+    return this.queuedSamples / SAMPLE_RATE + Math.max(0, this.nextStartTime - this.context.currentTime);
+  }
+
+  /** Queue an audio chunk (PCM16 or grouped Opus packets) for playback */
+  enqueue(data: ArrayBuffer, codec: AudioCodec = "pcm16"): void {
     if (!this.context || !this.playing) return;
 
-    const binary = atob(b64);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    if (codec === "opus") {
+      if (!this.opusDecoder) {
+        this.opusDecoder = new OpusDecoderStream();
+        this.opusDecoder.onSamples = (samples) => this.enqueueSamples(samples);
+      }
+      this.opusDecoder.decode(data);
+      return;
+    }
 
-    const pcm16 = new Int16Array(bytes.buffer);
+    const pcm16 = new Int16Array(data, 0, data.byteLength >> 1);
     const float32 = new Float32Array(pcm16.length);
     for (let i = 0; i < pcm16.length; i++) float32[i] = pcm16[i] / 32768;
+    this.enqueueSamples(float32);
+  }
+
+  private enqueueSamples(float32: Float32Array<ArrayBuffer>): void {
+    if (!this.context || !this.playing || !float32.length) return;
+    const now = this.context.currentTime;
+    if (this.buffering && this.bufferingSince === null) {
+      this.bufferingSince = now;
+      // Ran dry mid-speech: buffer more from now on
+      if (this.ranDryAt !== null && now - this.ranDryAt < UNDERRUN_WINDOW_S) this.adjustTarget(TARGET_STEP_UP_S, now);
+      this.ranDryAt = null;
+    }
+    this.queue.push(float32);
+    this.queuedSamples += float32.length;
+    this.pump();
+  }
+
+  private adjustTarget(step: number, now: number): void {
+    this.target = Math.max(MIN_TARGET_S, Math.min(MAX_TARGET_S, this.target + step));
+    this.targetChangedAt = now;
+  }
+
+  private pump(): void {
+    const context = this.context;
+    if (!context) return;
+    const now = context.currentTime;
+    this.scheduled = this.scheduled.filter((chunk) => chunk.end > now);
+
+    if (this.buffering) {
+      const waited = this.bufferingSince !== null && now - this.bufferingSince >= this.target;
+      if (this.queuedSamples / SAMPLE_RATE < this.target && !waited) return;
+      if (!this.queue.length) return;
+      this.buffering = false;
+    }
+
+    while (this.queue.length && this.nextStartTime - now < SCHEDULE_AHEAD_S) {
+      const samples = this.queue.shift()!;
+      this.queuedSamples -= samples.length;
+      this.schedule(samples, now);
+    }
 
-    const buffer = this.context.createBuffer(1, float32.length, CONFIG.OUTPUT_SAMPLE_RATE);
-    buffer.copyToChannel(float32, 0);
-    this.queue.push(buffer);
-    this.scheduleNext();
+    if (!this.queue.length && this.nextStartTime <= now) {
+      // Played out everything: rebuffer before the next audio
+      this.ranDryAt = this.nextStartTime;
+      this.buffering = true;
+      this.bufferingSince = null;
+    } else if (now - this.targetChangedAt > TARGET_RELAX_AFTER_S) {
+      this.adjustTarget(-TARGET_STEP_DOWN_S, now);
+    }
   }
 
-  private scheduleNext(): void {
-    if (!this.context || this.queue.length === 0) return;
-    const buffer = this.queue.shift()!;
-    const source = this.context.createBufferSource();
+  private schedule(input: Float32Array<ArrayBuffer>, now: number): void {
+    const context = this.context!;
+    const excess = this.delay - this.target;
+    const samples = excess > TRIM_EXCESS_S ? this.trimPauses(input) : input;
+    if (excess <= TRIM_EXCESS_S) this.silentRun = 0;
+    if (!samples.length) return;
+    const rate = excess > CATCHUP_EXCESS_S ? CATCHUP_RATE : 1;
+
+    const buffer = context.createBuffer(1, samples.length, SAMPLE_RATE);
+    buffer.copyToChannel(samples, 0);
+    const source = context.createBufferSource();
     source.buffer = buffer;
-    source.connect(this.context.destination);
+    source.playbackRate.value = rate;
+    const gain = context.createGain();
+    source.connect(gain).connect(context.destination);
 
-    const now = this.context.currentTime;
-    const startTime = Math.max(now, this.nextStartTime);
-    source.start(startTime);
-    this.nextStartTime = startTime + buffer.duration;
+    const previous = this.scheduled[this.scheduled.length - 1];
+    // Joins on seamlessly if the previous chunk has not started fading out
+    const joined = previous !== undefined && previous.end === this.nextStartTime && previous.fadeFrom > now;
+    const start = joined ? this.nextStartTime : Math.max(now, this.nextStartTime);
+    const end = start + buffer.duration / rate;
+    // Short chunks: keep the fade-in clear of the fade-out so cancelling one leaves the other
+    const fade = Math.min(FADE_S, (end - start) / 3);
+    if (joined) {
+      previous.gain.gain.cancelScheduledValues(previous.fadeFrom);
+    } else {
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(1, start + fade);
+    }
+    // Fade out in case nothing follows in time (cancelled when the next chunk joins on)
+    gain.gain.setValueAtTime(1, end - fade);
+    gain.gain.linearRampToValueAtTime(0, end);
+
+    source.onended = () => this.pump();
+    source.start(start);
+    this.scheduled.push({ source, gain, start, end, fadeFrom: end - fade });
+    this.nextStartTime = end;
+  }
+
+  /** Shorten pauses to KEEP_PAUSE_SAMPLES, 20ms at a time */
+  private trimPauses(samples: Float32Array<ArrayBuffer>): Float32Array<ArrayBuffer> {
+    const kept: Float32Array[] = [];
+    let keptSamples = 0;
+    for (let offset = 0; offset < samples.length; offset += TRIM_WINDOW) {
+      const window = samples.subarray(offset, offset + TRIM_WINDOW);
+      let sum = 0;
+      for (const sample of window) sum += sample * sample;
+      if (Math.sqrt(sum / window.length) < TRIM_SILENCE_RMS) {
+        this.silentRun += window.length;
+        if (this.silentRun > KEEP_PAUSE_SAMPLES) continue;
+      } else {
+        this.silentRun = 0;
+      }
+      kept.push(window);
+      keptSamples += window.length;
+    }
+    if (keptSamples === samples.length) return samples;
+    const out = new Float32Array(keptSamples);
+    let offset = 0;
+    for (const window of kept) {
+      out.set(window, offset);
+      offset += window.length;
+    }
+    return out;
+  }
+
+  /** Fade out and drop everything not heard yet */
+  private cut(): void {
+    this.queue = [];
+    this.queuedSamples = 0;
+    if (this.context) {
+      const now = this.context.currentTime;
+      for (const { source, gain } of this.scheduled) {
+        gain.gain.cancelScheduledValues(now);
+        gain.gain.setValueAtTime(gain.gain.value, now);
+        gain.gain.linearRampToValueAtTime(0, now + FADE_S);
+        source.onended = null;
+        source.stop(now + FADE_S);
+      }
+      this.nextStartTime = now;
+    }
+    this.scheduled = [];
+    this.resetBuffering();
+  }
+
+  private resetBuffering(): void {
+    this.buffering = true;
+    this.bufferingSince = null;
+    this.ranDryAt = null;
+    this.silentRun = 0;
   }
 
   /** Clear queue (on interrupt) */
   clear(): void {
-    this.queue = [];
-    this.nextStartTime = this.context?.currentTime ?? 0;
+    this.opusDecoder?.discardPending();
+    this.cut();
+  }
+
+  /** Skip the backlog, including Opus still being decoded: continue with the next audio that arrives */
+  jumpToLive(): void {
+    this.clear();
+    this.onDelay?.(0);
   }
 
   stop(): void {
     this.playing = false;
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
     this.queue = [];
+    this.queuedSamples = 0;
+    this.scheduled = [];
+    this.opusDecoder?.close();
+    this.opusDecoder = null;
     this.context?.close();
     this.context = null;
   }
 }
-
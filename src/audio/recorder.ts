@@ -1,5 +1,9 @@
 /**
  * Mic capture -> PCM16 chunks at 16kHz using AudioWorklet
+ *
+ * The input device, browser processing (noise suppression / AGC) and gain can be changed while
+ * recording. If the device disappears (e.g. a USB interface is unplugged) capture falls back to
+ * the default input and returns to the chosen device once it is back.
  */
 import { CONFIG } from "../config";
 
@@ -8,12 +12,25 @@ class RecorderProcessor extends AudioWorkletProcessor {
   constructor() {
     super();
     this.buffer = [];
+    this.levelSamples = 0;
+    this.levelSum = 0;
+    this.levelPeak = 0;
   }
   process(inputs) {
     const input = inputs[0]?.[0];
     if (!input) return true;
     for (const sample of input) {
       this.buffer.push(sample);
+      this.levelSum += sample * sample;
+      this.levelPeak = Math.max(this.levelPeak, Math.abs(sample));
+    }
+    // Level report every ~50ms
+    this.levelSamples += input.length;
+    if (this.levelSamples >= 800) {
+      this.port.postMessage({ rms: Math.sqrt(this.levelSum / this.levelSamples), peak: this.levelPeak });
+      this.levelSamples = 0;
+      this.levelSum = 0;
+      this.levelPeak = 0;
     }
     // Send chunks of ~4096 samples
     while (this.buffer.length >= 4096) {
@@ -30,16 +47,57 @@ class RecorderProcessor extends AudioWorkletProcessor {
 registerProcessor("recorder-processor", RecorderProcessor);
 `;
 
+export interface RecorderOptions {
+  /** Preferred input device ("" = browser default) */
+  deviceId: string;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  /** Linear gain applied before capture */
+  gain: number;
+}
+
+export const DEFAULT_RECORDER_OPTIONS: RecorderOptions = {
+  deviceId: "",
+  noiseSuppression: true,
+  autoGainControl: true,
+  gain: 1,
+};
+
+/** Input level after gain, full scale = 1 */
+export interface InputLevel {
+  rms: number;
+  peak: number;
+}
+
 export class AudioRecorder {
   private context: AudioContext | null = null;
   private stream: MediaStream | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private gainNode: GainNode | null = null;
   private worklet: AudioWorkletNode | null = null;
+  private options: RecorderOptions = DEFAULT_RECORDER_OPTIONS;
+  /** Capturing from the default input because the chosen device is missing */
+  private usingFallback = false;
+  private reopening = false;
   onChunk?: (pcm16: ArrayBuffer) => void;
+  onLevel?: (level: InputLevel) => void;
+  /**
+   * The capture device changed by itself: `label` is the input now in use (null = none
+   * available, with the reason in `error`), `fallback` is true while the chosen device is missing
+   */
+  onDeviceChange?: (label: string | null, fallback: boolean, error?: Error) => void;
 
-  async start(): Promise<void> {
-    this.stream = await navigator.mediaDevices.getUserMedia({
-      audio: { sampleRate: CONFIG.INPUT_SAMPLE_RATE, channelCount: 1, echoCancellation: true },
-    });
+  get recording(): boolean {
+    return this.context !== null;
+  }
+
+  /** Label of the input being captured */
+  get deviceLabel(): string {
+    return this.stream?.getAudioTracks()[0]?.label ?? "";
+  }
+
+  async start(options: RecorderOptions = DEFAULT_RECORDER_OPTIONS): Promise<void> {
+    this.options = { ...options };
     this.context = new AudioContext({ sampleRate: CONFIG.INPUT_SAMPLE_RATE });
 
     // Load worklet from blob
@@ -48,19 +106,109 @@ export class AudioRecorder {
     await this.context.audioWorklet.addModule(url);
     URL.revokeObjectURL(url);
 
-    const source = this.context.createMediaStreamSource(this.stream);
+    this.gainNode = this.context.createGain();
+    this.gainNode.gain.value = this.options.gain;
     this.worklet = new AudioWorkletNode(this.context, "recorder-processor");
-    this.worklet.port.onmessage = (e) => this.onChunk?.(e.data);
-    source.connect(this.worklet);
+    this.worklet.port.onmessage = (e) => {
+      if (e.data instanceof ArrayBuffer) this.onChunk?.(e.data);
+      else this.onLevel?.(e.data);
+    };
+    this.gainNode.connect(this.worklet);
+    await this.openInput();
+    navigator.mediaDevices.addEventListener("devicechange", this.handleDeviceChange);
   }
 
+  /** Apply new settings while recording: gain at once, device and processing by reopening the input */
+  async update(options: RecorderOptions): Promise<void> {
+    const reopen = options.deviceId !== this.options.deviceId
+      || options.noiseSuppression !== this.options.noiseSuppression
+      || options.autoGainControl !== this.options.autoGainControl;
+    this.options = { ...options };
+    if (this.gainNode) this.gainNode.gain.value = options.gain;
+    if (reopen && this.context) await this.openInput();
+  }
+
+  private async openInput(): Promise<void> {
+    const { deviceId, noiseSuppression, autoGainControl } = this.options;
+    const constraints = (exactId?: string): MediaStreamConstraints => ({
+      audio: {
+        ...(exactId ? { deviceId: { exact: exactId } } : {}),
+        sampleRate: CONFIG.INPUT_SAMPLE_RATE,
+        channelCount: 1,
+        echoCancellation: true,
+        noiseSuppression,
+        autoGainControl,
+      },
+    });
+    let stream: MediaStream;
+    let fallback = false;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia(constraints(deviceId || undefined));
+    } catch (err) {
+      const missing = ["NotFoundError", "OverconstrainedError"].includes((err as DOMException).name);
+      if (!deviceId || !missing) throw err;
+      stream = await navigator.mediaDevices.getUserMedia(constraints());
+      fallback = true;
+    }
+    // Stopped meanwhile
+    if (!this.context || !this.gainNode) {
+      stream.getTracks().forEach((t) => t.stop());
+      return;
+    }
+    this.closeInput();
+    this.stream = stream;
+    this.usingFallback = fallback;
+    this.source = this.context.createMediaStreamSource(stream);
+    this.source.connect(this.gainNode);
+    const track = stream.getAudioTracks()[0];
+    if (track) track.onended = () => this.reopen();
+  }
+
+  private closeInput(): void {
+    this.source?.disconnect();
+    this.stream?.getTracks().forEach((t) => {
+      t.onended = null;
+      t.stop();
+    });
+    this.source = null;
+    this.stream = null;
+  }
+
+  /** The input went away (or came back): capture from whatever is available now */
+  private async reopen(): Promise<void> {
+    if (this.reopening || !this.context) return;
+    this.reopening = true;
+    try {
+      await this.openInput();
+      if (this.context) this.onDeviceChange?.(this.deviceLabel, this.usingFallback);
+    } catch (err) {
+      this.closeInput();
+      this.onDeviceChange?.(null, true, err as Error); // retried on the next devicechange
+    } finally {
+      this.reopening = false;
+    }
+  }
+
+  private handleDeviceChange = async (): Promise<void> => {
+    if (!this.context) return;
+    const live = this.stream?.getAudioTracks()[0]?.readyState === "live";
+    if (live && !this.usingFallback) return;
+    if (live) {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      if (!devices.some((d) => d.kind === "audioinput" && d.deviceId === this.options.deviceId)) return;
+    }
+    await this.reopen();
+  };
+
   stop(): void {
+    navigator.mediaDevices?.removeEventListener("devicechange", this.handleDeviceChange);
+    this.closeInput();
     this.worklet?.disconnect();
-    this.stream?.getTracks().forEach((t) => t.stop());
+    this.gainNode?.disconnect();
     this.context?.close();
     this.worklet = null;
-    this.stream = null;
+    this.gainNode = null;
     this.context = null;
+    this.usingFallback = false;
   }
 }
-
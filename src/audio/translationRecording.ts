@@ -0,0 +1,177 @@
+/**
+ * Translated-voice recording for one target language, downloadable as WAV or Ogg Opus
+ *
+ * Audio is laid out the way listeners hear it: chunks play back to back, and an interrupt
+ * cuts whatever was still queued. Pauses are shortened so the file doesn't carry minutes
+ * of silence while the speaker talks. Chapters start at transcript phrases, segmented
+ * like the room's transcript (sentence end, `finished`, or a long pause).
+ */
+import { CONFIG } from "../config";
+import { encodeOggOpus } from "./ogg";
+import { encodeOpusFile } from "./opus";
+import { encodeWav } from "./wav";
+import { mergeFragment, phraseEnded } from "../../shared/transcriptText";
+
+export interface Chapter {
+  /** Offset into the recording */
+  startMs: number;
+  title: string;
+}
+
+const SAMPLE_RATE = CONFIG.OUTPUT_SAMPLE_RATE;
+const MAX_PAUSE_MS = 1500;
+/** Fade where an interrupt cuts the voice, to avoid a click */
+const CUT_FADE_MS = 30;
+const PAUSE_SPLIT_MS = 3000;
+const MAX_CHAPTER_TITLE = 80;
+const MAX_CHAPTERS = 200;
+
+function chapterTitle(text: string): string {
+  if (text.length <= MAX_CHAPTER_TITLE) return text;
+  const cut = text.lastIndexOf(" ", MAX_CHAPTER_TITLE - 1);
+  return `${text.slice(0, cut > MAX_CHAPTER_TITLE / 2 ? cut : MAX_CHAPTER_TITLE - 1)}…`;
+}
+
+/** HH:MM:SS.mmm */
+function chapterTime(ms: number): string {
+  const total = Math.round(ms);
+  const pad = (n: number, w = 2) => String(n).padStart(w, "0");
+  return `${pad(Math.floor(total / 3_600_000))}:${pad(Math.floor(total / 60_000) % 60)}:${pad(Math.floor(total / 1000) % 60)}.${pad(total % 1000, 3)}`;
+}
+
+export class TranslationRecording {
+  private chunks: Int16Array<ArrayBuffer>[] = [];
+  private samples = 0;
+  /** Wall-clock time at which listeners finish hearing what has been recorded */
+  private playEndAt = 0;
+  private phrase: { text: string; last: number; chapter: Chapter | null } | null = null;
+  readonly chapters: Chapter[] = [];
+  readonly startedAt = Date.now();
+  endedAt: number | null = null;
+
+  /** `chapterIntervalMs`: minimum chapter length (null = no chapters) */
+  constructor(readonly lang: string, readonly langName: string, private chapterIntervalMs: number | null) {}
+
+  get durationMs(): number {
+    return (this.samples / SAMPLE_RATE) * 1000;
+  }
+
+  get isEmpty(): boolean {
+    return this.samples === 0;
+  }
+
+  append(pcm16: ArrayBuffer, now = Date.now()): void {
+    if (this.endedAt !== null) return;
+    const samples = new Int16Array(pcm16.slice(0, pcm16.byteLength & ~1));
+    if (!samples.length) return;
+    if (now > this.playEndAt) {
+      // Playback ran dry: keep a (shortened) pause
+      if (this.samples) this.push(new Int16Array(Math.round((Math.min(now - this.playEndAt, MAX_PAUSE_MS) / 1000) * SAMPLE_RATE)));
+      this.playEndAt = now;
+    }
+    this.push(samples);
+    this.playEndAt += (samples.length / SAMPLE_RATE) * 1000;
+  }
+
+  /** Drop the audio listeners never heard because it was still queued at the interrupt */
+  interrupt(now = Date.now()): void {
+    const unplayedMs = this.playEndAt - now;
+    if (unplayedMs <= 0) return;
+    this.truncate(Math.round((unplayedMs / 1000) * SAMPLE_RATE));
+    this.playEndAt = now;
+    this.fadeOutEnd();
+  }
+
+  /** Feed out_text fragments to place chapters */
+  updateText(text: string, finished: boolean | undefined, cumulative = false, now = Date.now()): void {
+    if (this.chapterIntervalMs === null || this.endedAt !== null) return;
+    const trimmed = text.trim();
+    let phrase = this.phrase;
+    if (phrase && now - phrase.last > PAUSE_SPLIT_MS) phrase = null;
+    if (trimmed) {
+      if (!phrase) {
+        phrase = { text: trimmed, last: now, chapter: this.startChapter(now) };
+      } else {
+        phrase.text = mergeFragment(phrase.text, text, cumulative);
+      }
+      phrase.last = now;
+      if (phrase.chapter) phrase.chapter.title = chapterTitle(phrase.text);
+    }
+    const ended = phrase && phraseEnded(phrase.text, finished, cumulative);
+    this.phrase = ended ? null : phrase;
+  }
+
+  finish(): void {
+    this.endedAt ??= Date.now();
+    this.phrase = null;
+  }
+
+  toWav(): Blob {
+    const cues = this.chapters.map((chapter) => ({
+      position: Math.round((chapter.startMs / 1000) * SAMPLE_RATE),
+      label: chapter.title,
+    }));
+    return encodeWav(this.chunks, SAMPLE_RATE, cues);
+  }
+
+  /** Ogg Opus with Vorbis-comment chapters (CHAPTERxxx / CHAPTERxxxNAME) */
+  async toOpus(title: string): Promise<Blob> {
+    const { packets, preSkip } = await encodeOpusFile(this.chunks);
+    const comments = [`TITLE=${title}`, `LANGUAGE=${this.lang}`, `DATE=${new Date(this.startedAt).toISOString().slice(0, 10)}`];
+    this.chapters.forEach((chapter, i) => {
+      const n = String(i + 1).padStart(3, "0");
+      comments.push(`CHAPTER${n}=${chapterTime(chapter.startMs)}`, `CHAPTER${n}NAME=${chapter.title}`);
+    });
+    return encodeOggOpus(packets, { inputSampleRate: SAMPLE_RATE, preSkip, comments });
+  }
+
+  /** Podcasting 2.0 chapters file (podcast:chapters) */
+  toChaptersJson(): Blob {
+    const chapters = this.chapters.map((chapter) => ({ startTime: Math.round(chapter.startMs) / 1000, title: chapter.title }));
+    return new Blob([JSON.stringify({ version: "1.2.0", chapters }, null, 2)], { type: "application/json+chapters" });
+  }
+
+  /** New phrase: open a chapter there if the previous one is long enough */
+  private startChapter(now: number): Chapter | null {
+    // Audio for the phrase starts at the end of the recording, after the pause if playback is idle
+    const pauseMs = this.samples && now > this.playEndAt ? Math.min(now - this.playEndAt, MAX_PAUSE_MS) : 0;
+    const startMs = this.chapters.length ? this.durationMs + pauseMs : 0;
+    const previous = this.chapters[this.chapters.length - 1];
+    if (previous && (startMs - previous.startMs < this.chapterIntervalMs! || this.chapters.length >= MAX_CHAPTERS)) return null;
+    const chapter = { startMs, title: "" };
+    this.chapters.push(chapter);
+    return chapter;
+  }
+
+  private push(samples: Int16Array<ArrayBuffer>): void {
+    this.chunks.push(samples);
+    this.samples += samples.length;
+  }
+
+  private truncate(count: number): void {
+    while (count > 0 && this.chunks.length) {
+      const last = this.chunks[this.chunks.length - 1];
+      const cut = Math.min(count, last.length);
+      if (cut === last.length) this.chunks.pop();
+      else this.chunks[this.chunks.length - 1] = last.subarray(0, last.length - cut);
+      this.samples -= cut;
+      count -= cut;
+    }
+    // Chapters whose audio was cut (the first chapter always starts at 0)
+    while (this.chapters.length > 1 && this.chapters[this.chapters.length - 1].startMs > this.durationMs) {
+      const removed = this.chapters.pop();
+      if (this.phrase && this.phrase.chapter === removed) this.phrase.chapter = null;
+    }
+  }
+
+  private fadeOutEnd(): void {
+    const fade = Math.min(this.samples, Math.round((CUT_FADE_MS / 1000) * SAMPLE_RATE));
+    let fromEnd = 0;
+    for (let c = this.chunks.length - 1; c >= 0 && fromEnd < fade; c--) {
+      const chunk = this.chunks[c];
+      for (let i = chunk.length - 1; i >= 0 && fromEnd < fade; i--, fromEnd++) {
+        chunk[i] = Math.round(chunk[i] * (fromEnd / fade));
+      }
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * WAV (RIFF) export for PCM16 mono recordings, with chapters as cue points + labels
+ */
+
+export interface CuePoint {
+  /** Offset in samples */
+  position: number;
+  label: string;
+}
+
+function chunkHeader(id: string, size: number): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(8);
+  for (let i = 0; i < 4; i++) header[i] = id.charCodeAt(i);
+  new DataView(header.buffer).setUint32(4, size, true);
+  return header;
+}
+
+/** `cue ` chunk plus a LIST/adtl chunk holding one `labl` per cue point */
+function cueChunks(cues: CuePoint[]): Uint8Array<ArrayBuffer>[] {
+  if (!cues.length) return [];
+  const cue = new DataView(new ArrayBuffer(4 + cues.length * 24));
+  cue.setUint32(0, cues.length, true);
+  cues.forEach((point, i) => {
+    const offset = 4 + i * 24;
+    cue.setUint32(offset, i + 1, true); // cue id
+    cue.setUint32(offset + 4, point.position, true);
+    for (let c = 0; c < 4; c++) cue.setUint8(offset + 8 + c, "data".charCodeAt(c));
+    cue.setUint32(offset + 20, point.position, true); // sample offset (chunk/block start stay 0)
+  });
+
+  const encoder = new TextEncoder();
+  const labels = cues.map((point, i) => {
+    const text = encoder.encode(point.label);
+    const size = 4 + text.length + 1; // cue id + NUL-terminated text
+    const label = new Uint8Array(8 + size + (size & 1));
+    label.set(chunkHeader("labl", size));
+    new DataView(label.buffer).setUint32(8, i + 1, true);
+    label.set(text, 12);
+    return label;
+  });
+  const adtlSize = 4 + labels.reduce((sum, label) => sum + label.length, 0);
+  const adtl = new Uint8Array(4);
+  for (let i = 0; i < 4; i++) adtl[i] = "adtl".charCodeAt(i);
+
+  return [chunkHeader("cue ", cue.byteLength), new Uint8Array(cue.buffer), chunkHeader("LIST", adtlSize), adtl, ...labels];
+}
+
+export function encodeWav(chunks: Int16Array<ArrayBuffer>[], sampleRate: number, cues: CuePoint[] = []): Blob {
+  const dataBytes = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  const fmt = new DataView(new ArrayBuffer(16));
+  fmt.setUint16(0, 1, true); // PCM
+  fmt.setUint16(2, 1, true); // mono
+  fmt.setUint32(4, sampleRate, true);
+  fmt.setUint32(8, sampleRate * 2, true); // byte rate
+  fmt.setUint16(12, 2, true); // block align
+  fmt.setUint16(14, 16, true); // bits per sample
+
+  const extra = cueChunks(cues);
+  const extraBytes = extra.reduce((sum, part) => sum + part.byteLength, 0);
+  const wave = new Uint8Array(4);
+  for (let i = 0; i < 4; i++) wave[i] = "WAVE".charCodeAt(i);
+  const riffSize = 4 + (8 + 16) + extraBytes + (8 + dataBytes);
+
+  return new Blob(
+    [chunkHeader("RIFF", riffSize), wave, chunkHeader("fmt ", 16), fmt, ...extra, chunkHeader("data", dataBytes), ...chunks],
+    { type: "audio/wav" },
+  );
+}
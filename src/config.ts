@@ -10,6 +10,11 @@ export const CONFIG = {
   INPUT_SAMPLE_RATE: 16000,
   OUTPUT_SAMPLE_RATE: 24000,
   CHUNK_SIZE: 4096, // PCM16 samples per chunk
+  MAX_TARGET_LANGS: 3, // Concurrent Gemini sessions per room
+  /** Translation backend: "gemini", or "local" for the offline scripted stand-in (VITE_TRANSLATION_PROVIDER=local) */
+  TRANSLATION_PROVIDER: (import.meta.env.VITE_TRANSLATION_PROVIDER === "local" ? "local" : "gemini") as "gemini" | "local",
+  /** "live": speech-to-speech sessions; "pipeline": separate recognition → translation → speech stages (VITE_TRANSLATION_MODE=pipeline) */
+  TRANSLATION_MODE: (import.meta.env.VITE_TRANSLATION_MODE === "pipeline" ? "pipeline" : "live") as "live" | "pipeline",
 } as const;
 
 export const LANGUAGES = [
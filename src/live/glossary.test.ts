@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { GlossaryEntry, glossaryFor, glossaryFromCsv, glossaryToCsv } from "./glossary";
+
+const ENTRIES: GlossaryEntry[] = [
+  { sourceLang: "en", targetLang: "ko", source: "grace", target: "은혜" },
+  { sourceLang: "en", targetLang: "es", source: "Holy Spirit", target: "Espíritu Santo" },
+  { sourceLang: "en", targetLang: "fr", source: 'the "Word", made flesh', target: "le Verbe\r\nfait chair" },
+];
+
+describe("glossary CSV", () => {
+  it("round-trips entries, including quotes, commas and line breaks", () => {
+    const csv = glossaryToCsv(ENTRIES);
+    expect(csv.startsWith("source_lang,target_lang,source,target\r\n")).toBe(true);
+    expect(glossaryFromCsv(csv)).toEqual({ entries: ENTRIES, unknownLangRows: [] });
+  });
+
+  it("accepts a spreadsheet export without a header, a BOM or trailing blank rows", () => {
+    const csv = "\uFEFFEN,KO, grace ,은혜\n\nen,es,faith,fe\n,,,\n";
+    expect(glossaryFromCsv(csv).entries).toEqual([
+      { sourceLang: "en", targetLang: "ko", source: "grace", target: "은혜" },
+      { sourceLang: "en", targetLang: "es", source: "faith", target: "fe" },
+    ]);
+  });
+
+  it("skips rows in languages the app does not offer and reports their row numbers", () => {
+    const csv = "source_lang,target_lang,source,target\nen,ko,grace,은혜\nen,xx,grace,?\nla,en,gratia,grace\n";
+    expect(glossaryFromCsv(csv)).toEqual({
+      entries: [{ sourceLang: "en", targetLang: "ko", source: "grace", target: "은혜" }],
+      unknownLangRows: [3, 4],
+    });
+  });
+
+  it("rejects rows with the wrong number of columns", () => {
+    expect(() => glossaryFromCsv("en,ko,grace\n")).toThrow("Glossary CSV row 1: expected 4 columns");
+  });
+
+  it("picks the entries for one language pair", () => {
+    expect(glossaryFor(ENTRIES, "en", "es")).toEqual([ENTRIES[1]]);
+    expect(glossaryFor(ENTRIES, "ko", "en")).toEqual([]);
+  });
+});
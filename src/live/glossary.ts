@@ -0,0 +1,95 @@
+/**
+ * Theological glossary: fixed term renderings per language pair, with CSV import/export
+ */
+import { LANGUAGES } from "../config";
+
+export interface GlossaryEntry {
+  sourceLang: string;
+  targetLang: string;
+  source: string;
+  target: string;
+}
+
+export const GLOSSARY_LIMITS = {
+  MAX_ENTRIES: 500,
+  MAX_TERM_LENGTH: 200,
+} as const;
+
+const CSV_HEADER = ["source_lang", "target_lang", "source", "target"];
+
+export interface GlossaryImport {
+  entries: GlossaryEntry[];
+  /** CSV row numbers (1-based) skipped because a language code is not one of LANGUAGES */
+  unknownLangRows: number[];
+}
+
+/** Entries that apply to one source -> target pair */
+export function glossaryFor(entries: GlossaryEntry[], sourceLang: string, targetLang: string): GlossaryEntry[] {
+  return entries.filter((e) => e.sourceLang === sourceLang && e.targetLang === targetLang && e.source && e.target);
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function glossaryToCsv(entries: GlossaryEntry[]): string {
+  const rows = entries.map((e) => [e.sourceLang, e.targetLang, e.source, e.target].map(csvField).join(","));
+  return [CSV_HEADER.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+/** Split CSV text into rows of fields (RFC 4180 quoting) */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+/**
+ * Parse glossary CSV. Accepts the exported 4-column layout; a header row is optional.
+ * Throws on rows with the wrong number of columns; rows with unknown language codes are skipped.
+ */
+export function glossaryFromCsv(text: string): GlossaryImport {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  const hasHeader = rows.length > 0 && rows[0].map((f) => f.trim().toLowerCase()).join(",") === CSV_HEADER.join(",");
+  if (hasHeader) rows.shift();
+  const known = new Set<string>(LANGUAGES.map((lang) => lang.code));
+  const result: GlossaryImport = { entries: [], unknownLangRows: [] };
+  rows.forEach((fields, i) => {
+    const rowNumber = i + (hasHeader ? 2 : 1);
+    if (fields.length !== 4) throw new Error(`Glossary CSV row ${rowNumber}: expected 4 columns`);
+    const [sourceLang, targetLang, source, target] = fields.map((f) => f.trim());
+    if (!known.has(sourceLang.toLowerCase()) || !known.has(targetLang.toLowerCase())) {
+      result.unknownLangRows.push(rowNumber);
+      return;
+    }
+    result.entries.push({ sourceLang: sourceLang.toLowerCase(), targetLang: targetLang.toLowerCase(), source, target });
+  });
+  return result;
+}
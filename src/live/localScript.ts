@@ -0,0 +1,131 @@
+/**
+ * Offline stand-in material: a short sermon script in every app language and a
+ * tone synthesizer, shared by the local providers
+ */
+import { CONFIG } from "../config";
+
+/** Same phrases in every language; index n is the translation of index n */
+const SCRIPT: Record<string, string[]> = {
+  en: [
+    "Good morning, and welcome to our service.",
+    "Please open your Bibles to John 3:16.",
+    "For God so loved the world that he gave his only Son.",
+    "Grace is not something we earn, it is a gift.",
+    "Let us carry this hope into the week ahead.",
+    "Let us pray together.",
+  ],
+  ko: [
+    "좋은 아침입니다. 예배에 오신 것을 환영합니다.",
+    "성경 요한복음 3장 16절을 펴 주시기 바랍니다.",
+    "하나님이 세상을 이처럼 사랑하사 독생자를 주셨으니.",
+    "은혜는 우리가 얻어내는 것이 아니라 선물입니다.",
+    "이 소망을 품고 한 주를 살아갑시다.",
+    "함께 기도하겠습니다.",
+  ],
+  es: [
+    "Buenos días y bienvenidos a nuestro servicio.",
+    "Por favor, abran sus Biblias en Juan 3:16.",
+    "Porque de tal manera amó Dios al mundo, que dio a su Hijo unigénito.",
+    "La gracia no es algo que ganamos, es un regalo.",
+    "Llevemos esta esperanza a la semana que comienza.",
+    "Oremos juntos.",
+  ],
+  zh: [
+    "早上好，欢迎来到我们的聚会。",
+    "请大家翻开圣经约翰福音3章16节。",
+    "神爱世人，甚至将他的独生子赐给他们。",
+    "恩典不是我们赚来的，而是礼物。",
+    "让我们带着这份盼望进入新的一周。",
+    "让我们一起祷告。",
+  ],
+  ja: [
+    "おはようございます。礼拝へようこそ。",
+    "聖書のヨハネによる福音書3章16節を開いてください。",
+    "神はそのひとり子を賜わったほどに、この世を愛してくださった。",
+    "恵みは自分で得るものではなく、贈り物です。",
+    "この希望を胸に、新しい一週間を歩みましょう。",
+    "一緒にお祈りしましょう。",
+  ],
+  fr: [
+    "Bonjour et bienvenue à notre culte.",
+    "Veuillez ouvrir vos Bibles à Jean 3:16.",
+    "Car Dieu a tant aimé le monde qu'il a donné son Fils unique.",
+    "La grâce ne se mérite pas, c'est un don.",
+    "Portons cette espérance dans la semaine qui vient.",
+    "Prions ensemble.",
+  ],
+  de: [
+    "Guten Morgen und willkommen zu unserem Gottesdienst.",
+    "Bitte schlagen Sie in Ihrer Bibel Johannes 3:16 auf.",
+    "Denn also hat Gott die Welt geliebt, dass er seinen eingeborenen Sohn gab.",
+    "Gnade verdienen wir uns nicht, sie ist ein Geschenk.",
+    "Lasst uns diese Hoffnung in die neue Woche tragen.",
+    "Lasst uns gemeinsam beten.",
+  ],
+  pt: [
+    "Bom dia e bem-vindos ao nosso culto.",
+    "Por favor, abram suas Bíblias em João 3:16.",
+    "Porque Deus amou o mundo de tal maneira que deu o seu Filho unigênito.",
+    "A graça não é algo que conquistamos, é um presente.",
+    "Levemos esta esperança para a semana que começa.",
+    "Vamos orar juntos.",
+  ],
+};
+
+/** Written without spaces: transcribed a few characters at a time */
+const UNSPACED_LANGS = ["zh", "ja"];
+
+/** Mic RMS (0-1) above which a chunk counts as speech */
+export const SPEECH_RMS = 0.02;
+/** Silent chunks (~256ms each) that end an utterance */
+export const END_OF_SPEECH_CHUNKS = 3;
+
+export function scriptPhrase(lang: string, index: number): string {
+  const script = SCRIPT[lang] ?? SCRIPT.en;
+  return script[index % script.length];
+}
+
+/** Position of a scripted phrase (any language), or -1 for free text */
+export function scriptIndex(text: string, lang: string): number {
+  return (SCRIPT[lang] ?? SCRIPT.en).indexOf(text.trim());
+}
+
+/** Transcript fragments as a streaming model would send them (deltas) */
+export function tokenize(text: string, lang: string): string[] {
+  if (UNSPACED_LANGS.includes(lang)) return text.match(/.{1,3}/gsu) ?? [];
+  return text.match(/\s*\S+/g) ?? [];
+}
+
+function hash(text: string): number {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) >>> 0;
+  return h;
+}
+
+/** A voiced "syllable": a low tone with two harmonics and soft edges, then a short gap */
+export function synthesizeWord(word: string): { pcm16: ArrayBuffer; durationMs: number } {
+  const rate = CONFIG.OUTPUT_SAMPLE_RATE;
+  const chars = word.trim().length;
+  const toneMs = Math.min(600, 90 + 55 * chars);
+  const durationMs = toneMs + 50;
+  const toneSamples = Math.round((toneMs / 1000) * rate);
+  const samples = new Int16Array(Math.round((durationMs / 1000) * rate));
+  const freq = 170 + (hash(word) % 90);
+  const edge = Math.round(0.015 * rate);
+  for (let i = 0; i < toneSamples; i++) {
+    const t = i / rate;
+    const envelope = Math.min(1, i / edge, (toneSamples - i) / edge);
+    const wave = Math.sin(2 * Math.PI * freq * t) + 0.5 * Math.sin(4 * Math.PI * freq * t) + 0.25 * Math.sin(6 * Math.PI * freq * t);
+    samples[i] = Math.round(wave * envelope * 0.18 * 32767 / 1.75);
+  }
+  return { pcm16: samples.buffer, durationMs };
+}
+
+/** RMS level (0-1) of a PCM16 chunk */
+export function speechLevel(pcm16: ArrayBuffer): number {
+  const samples = new Int16Array(pcm16, 0, pcm16.byteLength >> 1);
+  if (!samples.length) return 0;
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  return Math.sqrt(sum / samples.length) / 32768;
+}
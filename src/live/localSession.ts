@@ -0,0 +1,115 @@
+/**
+ * Offline translation provider: scripted transcripts and synthesized "voice" tones
+ *
+ * Deterministic stand-in for LiveSession — no network, no API key. Each stretch of mic
+ * speech (simple energy detection) becomes the next phrase of a short sermon script in the
+ * source language; when the speaker pauses, the same phrase comes back in the target
+ * language with one tone per word. Timing follows the incoming audio chunks, so the same
+ * input always produces the same output. Speaking over the output interrupts it, like
+ * Gemini's barge-in.
+ */
+import { CONFIG } from "../config";
+import type { SessionCallbacks, SessionState, TranslationProvider } from "./provider";
+import { END_OF_SPEECH_CHUNKS, SPEECH_RMS, scriptPhrase, speechLevel, synthesizeWord, tokenize } from "./localScript";
+
+/** Output is produced this much faster than real time, like the real model */
+const OUTPUT_SPEED = 1.5;
+const CONNECT_DELAY_MS = 150;
+/** Timing follows the audio chunks, so recorded files can be run through much faster */
+const MAX_INPUT_SPEED = 16;
+
+interface OutputPiece {
+  text: string;
+  finished: boolean;
+  pcm16: ArrayBuffer;
+  durationMs: number;
+}
+
+export class LocalSession implements TranslationProvider {
+  private state: SessionState = "idle";
+  private sourceLang = "";
+  private targetLang = "";
+  private phraseIndex = 0;
+  /** Utterance in progress: source tokens not yet transcribed */
+  private speech: { tokens: string[]; silentChunks: number } | null = null;
+  private output: OutputPiece[] = [];
+  private outputBudgetMs = 0;
+  readonly maxInputSpeed = MAX_INPUT_SPEED;
+  /** One word at a time, like the Live API */
+  readonly transcriptMode = "delta";
+
+  constructor(private callbacks: SessionCallbacks) {}
+
+  getState(): SessionState {
+    return this.state;
+  }
+
+  private setState(state: SessionState): void {
+    this.state = state;
+    this.callbacks.onStateChange?.(state);
+  }
+
+  async connect(_token: string, sourceLang: string, targetLang: string): Promise<void> {
+    if (this.state !== "idle") return;
+    this.sourceLang = sourceLang;
+    this.targetLang = targetLang;
+    this.phraseIndex = 0;
+    this.setState("connecting");
+    await new Promise((resolve) => setTimeout(resolve, CONNECT_DELAY_MS));
+    if (this.getState() === "connecting") this.setState("streaming"); // not stopped meanwhile
+  }
+
+  sendAudio(pcm16: ArrayBuffer): void {
+    if (this.state !== "streaming") return;
+    const chunkMs = ((pcm16.byteLength >> 1) / CONFIG.INPUT_SAMPLE_RATE) * 1000;
+    if (speechLevel(pcm16) >= SPEECH_RMS) this.handleSpeech();
+    else if (this.speech && ++this.speech.silentChunks >= END_OF_SPEECH_CHUNKS) this.endUtterance();
+    this.emitOutput(chunkMs * OUTPUT_SPEED);
+  }
+
+  private handleSpeech(): void {
+    if (!this.speech) {
+      if (this.output.length) {
+        this.output = [];
+        this.outputBudgetMs = 0;
+        this.callbacks.onInterrupt?.();
+      }
+      this.speech = { tokens: tokenize(scriptPhrase(this.sourceLang, this.phraseIndex), this.sourceLang), silentChunks: 0 };
+    }
+    this.speech.silentChunks = 0;
+    // One source word per speech chunk; the last one waits for the end of the utterance
+    if (this.speech.tokens.length > 1) this.callbacks.onInputTranscript?.(this.speech.tokens.shift()!, false);
+  }
+
+  /** Speaker paused: finish the source phrase and queue its translation */
+  private endUtterance(): void {
+    const rest = this.speech!.tokens.join("");
+    this.speech = null;
+    if (rest) this.callbacks.onInputTranscript?.(rest, true);
+
+    const tokens = tokenize(scriptPhrase(this.targetLang, this.phraseIndex), this.targetLang);
+    this.phraseIndex++;
+    tokens.forEach((text, i) => this.output.push({ text, finished: i === tokens.length - 1, ...synthesizeWord(text) }));
+  }
+
+  private emitOutput(budgetMs: number): void {
+    if (!this.output.length) return;
+    this.outputBudgetMs += budgetMs;
+    while (this.output.length && this.outputBudgetMs > 0) {
+      const piece = this.output.shift()!;
+      this.outputBudgetMs -= piece.durationMs;
+      this.callbacks.onOutputTranscript?.(piece.text, piece.finished);
+      this.callbacks.onOutputAudio?.(piece.pcm16);
+    }
+    if (!this.output.length) this.outputBudgetMs = 0;
+  }
+
+  disconnect(): void {
+    if (this.state === "idle") return;
+    this.setState("stopping");
+    this.speech = null;
+    this.output = [];
+    this.outputBudgetMs = 0;
+    this.setState("idle");
+  }
+}
@@ -2,10 +2,41 @@
  * Builds system instruction for translation
  */
 import { LANGUAGES } from "../config";
+import { GlossaryEntry, glossaryFor } from "./glossary";
+import { SermonContext, isSermonContextEmpty } from "./sermonContext";
 
-export function buildSystemInstruction(sourceLang: string, targetLang: string): string {
+/** Room-specific material folded into the instruction */
+export interface PromptExtras {
+  glossary?: GlossaryEntry[];
+  context?: SermonContext;
+}
+
+/** Background section so names and quoted passages come out consistently */
+function buildContextSection(context: SermonContext | undefined, source: string): string {
+  if (!context || isSermonContextEmpty(context)) return "";
+  const lines = [
+    context.title.trim() && `- Sermon title: ${context.title.trim()}`,
+    context.scripture.trim() && `- Scripture passages read or quoted: ${context.scripture.trim()}`,
+    context.names.trim() && `- People mentioned (keep these names consistent): ${context.names.trim()}`,
+    context.outline.trim() && `- Outline:\n${context.outline.trim()}`,
+  ].filter(Boolean);
+  return `
+
+SERMON CONTEXT (background only, never read it aloud; the ${source} speech is what you translate):
+${lines.join("\n")}`;
+}
+
+export function buildSystemInstruction(sourceLang: string, targetLang: string, extras: PromptExtras = {}): string {
   const source = LANGUAGES.find((l) => l.code === sourceLang)?.name ?? sourceLang;
   const target = LANGUAGES.find((l) => l.code === targetLang)?.name ?? targetLang;
+  const terms = glossaryFor(extras.glossary ?? [], sourceLang, targetLang);
+  const terminology = terms.length
+    ? `
+
+6. MANDATORY TERMINOLOGY: This congregation uses fixed renderings. Whenever a ${source} term below is spoken, always translate it exactly as given, never with a synonym:
+${terms.map((t) => `   - "${t.source}" → "${t.target}"`).join("\n")}`
+    : "";
+  const contextSection = buildContextSection(extras.context, source);
   return `You are a real-time interpreter specializing in religious sermons and spiritual discourse. Translate spoken ${source} to ${target} with the following guidelines:
 
 1. TONE & DELIVERY: Preserve the speaker's emotional tone, emphasis, and rhetorical patterns. Match their energy level - whether contemplative, passionate, or instructional.
@@ -28,7 +59,7 @@ export function buildSystemInstruction(sourceLang: string, targetLang: string):
 5. DELIVERY STYLE: Speak naturally as if you are the interpreter in the room:
    - No meta-commentary like "the speaker says" or annotations
    - Maintain first-person perspective when the speaker uses it
-   - Preserve rhetorical questions, exclamations, and direct address
+   - Preserve rhetorical questions, exclamations, and direct address${terminology}
 
-Your goal is to make the audience feel they are hearing the sermon directly in ${target}, with all the spiritual impact and emotional resonance of the original ${source} delivery.`;
+Your goal is to make the audience feel they are hearing the sermon directly in ${target}, with all the spiritual impact and emotional resonance of the original ${source} delivery.${contextSection}`;
 }
@@ -0,0 +1,65 @@
+/**
+ * Translation provider abstraction: what the speaker page needs from a translation backend
+ *
+ * `LiveSession` (Gemini Live) is the real provider; `LocalSession` is an offline,
+ * deterministic stand-in for rehearsals, demos and testing. CONFIG.TRANSLATION_PROVIDER
+ * picks one. In pipeline mode (CONFIG.TRANSLATION_MODE) a `PipelineSession` chains separate
+ * recognition, translation and synthesis stages from the same backend instead.
+ */
+import { CONFIG } from "../config";
+import type { PromptExtras } from "./prompt";
+import type { TranscriptMode } from "../../shared/transcriptText";
+import { LiveSession } from "./session";
+import { LocalSession } from "./localSession";
+import { PipelineSession } from "../pipeline/pipelineSession";
+import { localStages } from "../pipeline/localStages";
+import { browserStages, type PipelineCredentials } from "../pipeline/browserStages";
+
+export type SessionState = "idle" | "connecting" | "streaming" | "reconnecting" | "stopping" | "error";
+
+export interface SessionCallbacks {
+  onStateChange?: (state: SessionState) => void;
+  onInputTranscript?: (text: string, finished?: boolean) => void;
+  onOutputTranscript?: (text: string, finished?: boolean) => void;
+  onOutputAudio?: (pcm16: ArrayBuffer) => void; // PCM16 @ 24kHz
+  onInterrupt?: () => void;
+  onError?: (err: Error) => void;
+}
+
+export interface SessionOptions {
+  /** Fetch a fresh ephemeral token; enables automatic recovery when the connection drops */
+  fetchToken?: () => Promise<string>;
+  /** Speaker credentials for the worker's translate / TTS endpoints (pipeline mode) */
+  credentials?: PipelineCredentials;
+}
+
+/** One source → target translation stream */
+export interface TranslationProvider {
+  /**
+   * How much faster than real time pre-recorded audio may be fed (file input batch mode):
+   * 1 = real time only, 0 = the provider cannot take audio from a file
+   */
+  readonly maxInputSpeed: number;
+  /** Whether transcript callbacks carry deltas or the whole phrase so far */
+  readonly transcriptMode: TranscriptMode;
+  getState(): SessionState;
+  /** Resolves once connected; failures are reported through onError + the "error" state */
+  connect(token: string, sourceLang: string, targetLang: string, extras?: PromptExtras): Promise<void>;
+  /** PCM16 @ 16kHz mic audio */
+  sendAudio(pcm16: ArrayBuffer): void;
+  disconnect(): void;
+}
+
+export function createTranslationProvider(callbacks: SessionCallbacks, options: SessionOptions = {}): TranslationProvider {
+  if (CONFIG.TRANSLATION_MODE === "pipeline") {
+    if (CONFIG.TRANSLATION_PROVIDER === "local") return new PipelineSession(callbacks, localStages());
+    if (!options.credentials) throw new Error("Pipeline mode needs speaker credentials");
+    return new PipelineSession(callbacks, browserStages(options.credentials));
+  }
+  switch (CONFIG.TRANSLATION_PROVIDER) {
+    case "local":
+      return new LocalSession(callbacks);
+    case "gemini":
+      return new LiveSession(callbacks, options);
+  }
+}
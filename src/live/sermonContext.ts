@@ -0,0 +1,23 @@
+/**
+ * Pre-service sermon context (title, outline, scripture, names) for the translation prompt
+ */
+
+export interface SermonContext {
+  title: string;
+  outline: string;
+  scripture: string;
+  names: string;
+}
+
+export const SERMON_CONTEXT_LIMITS: Record<keyof SermonContext, number> = {
+  title: 200,
+  outline: 8000,
+  scripture: 1000,
+  names: 1000,
+};
+
+export const EMPTY_SERMON_CONTEXT: SermonContext = { title: "", outline: "", scripture: "", names: "" };
+
+export function isSermonContextEmpty(context: SermonContext): boolean {
+  return !Object.values(context).some((v) => v.trim());
+}
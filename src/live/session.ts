@@ -1,27 +1,35 @@
 /**
- * Gemini Live session wrapper with state machine
+ * Gemini Live session wrapper with state machine (the production TranslationProvider)
  */
 import { GoogleGenAI, Modality, LiveServerMessage, Session, Blob as GenAIBlob, StartSensitivity, EndSensitivity } from "@google/genai";
 import { CONFIG } from "../config";
-import { buildSystemInstruction } from "./prompt";
+import { buildSystemInstruction, PromptExtras } from "./prompt";
+import { arrayBufferToBase64, base64ToArrayBuffer } from "../audio/pcm";
+import type { SessionCallbacks, SessionOptions, SessionState, TranslationProvider } from "./provider";
 
-export type SessionState = "idle" | "connecting" | "streaming" | "stopping" | "error";
-
-export interface SessionCallbacks {
-  onStateChange?: (state: SessionState) => void;
-  onInputTranscript?: (text: string, finished?: boolean) => void; // added finished flag
-  onOutputTranscript?: (text: string, finished?: boolean) => void;
-  onOutputAudio?: (b64: string) => void;
-  onInterrupt?: () => void;
-  onError?: (err: Error) => void;
-}
-
-export class LiveSession {
+export class LiveSession implements TranslationProvider {
   private session: Session | null = null;
   private state: SessionState = "idle";
   private ai: GoogleGenAI | null = null;
-
-  constructor(private callbacks: SessionCallbacks) {}
+  private sourceLang = "";
+  private targetLang = "";
+  private promptExtras: PromptExtras = {};
+  /** Latest session resumption handle from the server (null until resumable) */
+  private resumeHandle: string | null = null;
+  /** Bumped per socket so callbacks from a replaced socket are ignored */
+  private generation = 0;
+  private recoveryAttempt = 0;
+  private recovering = false;
+  /** Mic audio captured while reconnecting, flushed once the new socket is up */
+  private pendingAudio: ArrayBuffer[] = [];
+  private static readonly MAX_RECOVERY_ATTEMPTS = 5;
+  private static readonly MAX_PENDING_CHUNKS = 120; // ~30s of 4096-sample chunks at 16kHz
+  /** The Live API translates speech as it arrives; faster input only gets interrupted */
+  readonly maxInputSpeed = 1;
+  /** Live API transcriptions arrive as increments */
+  readonly transcriptMode = "delta";
+
+  constructor(private callbacks: SessionCallbacks, private options: SessionOptions = {}) {}
 
   getState(): SessionState {
     return this.state;
@@ -32,52 +40,135 @@ export class LiveSession {
     this.callbacks.onStateChange?.(state);
   }
 
-  async connect(token: string, sourceLang: string, targetLang: string): Promise<void> {
+  async connect(token: string, sourceLang: string, targetLang: string, extras: PromptExtras = {}): Promise<void> {
     if (this.state !== "idle") return;
+    this.sourceLang = sourceLang;
+    this.targetLang = targetLang;
+    this.promptExtras = extras;
+    this.resumeHandle = null;
     this.setState("connecting");
 
     try {
-      this.ai = new GoogleGenAI({
-        apiKey: token,
-        httpOptions: { apiVersion: "v1alpha" },
-      });
-
-      this.session = await this.ai.live.connect({
-        model: CONFIG.MODEL,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: buildSystemInstruction(sourceLang, targetLang),
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          // Improved VAD config for better transcription accuracy
-          realtimeInputConfig: {
-            automaticActivityDetection: {
-              startOfSpeechSensitivity: StartSensitivity.START_SENSITIVITY_HIGH, // Catch speech earlier
-              endOfSpeechSensitivity: EndSensitivity.END_SENSITIVITY_LOW,         // Wait longer before cutoff
-              silenceDurationMs: 1000,  // 1s silence before end-of-speech
-              prefixPaddingMs: 300,     // Capture 300ms before detected speech
-            },
+      this.session = await this.openSession(token);
+    } catch (err) {
+      this.callbacks.onError?.(err as Error);
+      this.setState("error");
+    }
+  }
+
+  private async openSession(token: string): Promise<Session> {
+    const generation = ++this.generation;
+    this.ai = new GoogleGenAI({
+      apiKey: token,
+      httpOptions: { apiVersion: "v1alpha" },
+    });
+
+    return this.ai.live.connect({
+      model: CONFIG.MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: buildSystemInstruction(this.sourceLang, this.targetLang, this.promptExtras),
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        // Ask for resumption handles so a dropped socket can pick up the same conversation
+        sessionResumption: this.resumeHandle ? { handle: this.resumeHandle } : {},
+        // Improved VAD config for better transcription accuracy
+        realtimeInputConfig: {
+          automaticActivityDetection: {
+            startOfSpeechSensitivity: StartSensitivity.START_SENSITIVITY_HIGH, // Catch speech earlier
+            endOfSpeechSensitivity: EndSensitivity.END_SENSITIVITY_LOW,         // Wait longer before cutoff
+            silenceDurationMs: 1000,  // 1s silence before end-of-speech
+            prefixPaddingMs: 300,     // Capture 300ms before detected speech
           },
         },
-        callbacks: {
-          onopen: () => this.setState("streaming"),
-          onmessage: (msg: LiveServerMessage) => this.handleMessage(msg),
-          onerror: (e) => {
-            this.callbacks.onError?.(new Error(e.message));
-            this.setState("error");
-          },
-          onclose: () => {
-            if (this.state === "streaming") this.setState("idle");
-          },
+      },
+      callbacks: {
+        onopen: () => {
+          if (generation !== this.generation) return;
+          this.recoveryAttempt = 0;
+          this.setState("streaming");
         },
-      });
-    } catch (err) {
-      this.callbacks.onError?.(err as Error);
+        onmessage: (msg: LiveServerMessage) => {
+          if (generation === this.generation) this.handleMessage(msg);
+        },
+        onerror: (e) => {
+          if (generation !== this.generation) return;
+          if (this.canRecover()) {
+            this.recover();
+            return;
+          }
+          this.callbacks.onError?.(new Error(e.message));
+          this.setState("error");
+        },
+        onclose: () => {
+          if (generation !== this.generation) return;
+          if (this.canRecover()) this.recover();
+          else if (this.state === "streaming") this.setState("idle");
+        },
+      },
+    });
+  }
+
+  /** Recovery only applies to a session that was live and not being stopped */
+  private canRecover(): boolean {
+    return !!this.options.fetchToken && (this.state === "streaming" || this.state === "reconnecting");
+  }
+
+  /** Replace the socket with a new one (fresh token, resumption handle if any) */
+  private async recover(): Promise<void> {
+    if (this.recovering) return;
+    this.recovering = true;
+    const old = this.session;
+    this.session = null;
+    this.generation++; // silence the old socket
+    try { old?.close(); } catch { /* already closed */ }
+    this.setState("reconnecting");
+
+    try {
+      while (this.recoveryAttempt < LiveSession.MAX_RECOVERY_ATTEMPTS) {
+        const delayMs = this.recoveryAttempt === 0 ? 0 : Math.min(8000, 500 * 2 ** this.recoveryAttempt);
+        this.recoveryAttempt++;
+        if (delayMs) await new Promise((r) => setTimeout(r, delayMs));
+        if (this.getState() !== "reconnecting") return; // stopped meanwhile
+
+        try {
+          const token = await this.options.fetchToken!();
+          if (this.getState() !== "reconnecting") return;
+          const pending = this.openSession(token);
+          const generation = this.generation;
+          const session = await pending;
+          if (generation !== this.generation) {
+            session.close();
+            return;
+          }
+          this.session = session;
+          this.flushPendingAudio();
+          return;
+        } catch {
+          // try again after backoff
+        }
+      }
+
+      this.pendingAudio = [];
+      this.callbacks.onError?.(new Error("Translation connection lost"));
       this.setState("error");
+    } finally {
+      this.recovering = false;
     }
   }
 
   private handleMessage(msg: LiveServerMessage): void {
+    const resumption = msg.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) {
+      this.resumeHandle = resumption.newHandle;
+    }
+
+    // Server is about to close this socket: move to a new one before it does
+    if (msg.goAway && this.canRecover()) {
+      this.recover();
+      return;
+    }
+
     const content = msg.serverContent;
     if (!content) return;
 
@@ -102,7 +193,7 @@ export class LiveSession {
     if (parts) {
       for (const part of parts) {
         if (part.inlineData?.data) {
-          this.callbacks.onOutputAudio?.(part.inlineData.data);
+          this.callbacks.onOutputAudio?.(base64ToArrayBuffer(part.inlineData.data));
         }
       }
     }
@@ -114,28 +205,37 @@ export class LiveSession {
 
   /** Send PCM16 audio chunk (ArrayBuffer) */
   sendAudio(pcm16: ArrayBuffer): void {
+    if (this.state === "reconnecting" || (this.state === "streaming" && !this.session)) {
+      this.pendingAudio.push(pcm16);
+      if (this.pendingAudio.length > LiveSession.MAX_PENDING_CHUNKS) this.pendingAudio.shift();
+      return;
+    }
     if (this.state !== "streaming" || !this.session) return;
+    this.sendRealtimeAudio(this.session, pcm16);
+  }
+
+  private flushPendingAudio(): void {
+    const pending = this.pendingAudio;
+    this.pendingAudio = [];
+    for (const chunk of pending) this.sendAudio(chunk);
+  }
+
+  private sendRealtimeAudio(session: Session, pcm16: ArrayBuffer): void {
     const b64 = arrayBufferToBase64(pcm16);
     // Send as base64-encoded audio blob
     const audioBlob: GenAIBlob = { data: b64, mimeType: "audio/pcm;rate=16000" };
-    this.session.sendRealtimeInput({ audio: audioBlob });
+    session.sendRealtimeInput({ audio: audioBlob });
   }
 
   disconnect(): void {
     if (this.state === "idle") return;
     this.setState("stopping");
+    this.generation++;
     this.session?.close();
     this.session = null;
     this.ai = null;
+    this.pendingAudio = [];
+    this.recoveryAttempt = 0;
     this.setState("idle");
   }
 }
-
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = "";
-  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
-  return btoa(binary);
-}
-
-
@@ -1,9 +1,12 @@
 /**
- * Main entry: route to speaker or audience based on URL
+ * Main entry: route to speaker, audience, projector display or stream overlay based on URL
  */
 import { SpeakerUI } from "./ui/speaker";
+import { fetchPresenters } from "./ui/presenters";
 import { AudienceUI } from "./ui/audience";
-import { API_BASE } from "./config";
+import { DisplayUI, parseDisplayOptions } from "./ui/display";
+import { OverlayUI, parseOverlayOptions } from "./ui/overlay";
+import { API_BASE, LANGUAGES } from "./config";
 
 const path = location.pathname;
 const speakerKeyStorageKey = "sermon_translator_speakerKey_v1";
@@ -11,12 +14,18 @@ const speakerKeyStorageKey = "sermon_translator_speakerKey_v1";
 interface RoomStatus {
   exists: boolean;
   expiresAt: number | null;
+  name?: string | null;
+  defaultLangs?: { sourceLang: string; targetLangs: string[] } | null;
+  passcodeRequired?: boolean;
+  /** Presenter holding the floor */
+  floor?: { id: string; name: string } | null;
 }
 
-/** Check if room exists and get expiry timestamp */
-async function checkRoomStatus(roomId: string): Promise<RoomStatus> {
+/** Check if room exists and get expiry timestamp (room details need a speaker key) */
+async function checkRoomStatus(roomId: string, speakerKey?: string): Promise<RoomStatus> {
   try {
-    const res = await fetch(`${API_BASE}/api/rooms/${roomId}/status`);
+    const query = speakerKey ? `?key=${encodeURIComponent(speakerKey)}` : "";
+    const res = await fetch(`${API_BASE}/api/rooms/${roomId}/status${query}`);
     return await res.json();
   } catch {
     return { exists: false, expiresAt: null };
@@ -32,6 +41,13 @@ function showPage(id: string): void {
   document.getElementById(id)!.style.display = "block";
 }
 
+/** Show the room name in the page heading and tab title */
+function showRoomName(headingId: string, name: string | null | undefined): void {
+  if (!name) return;
+  document.getElementById(headingId)!.textContent = name;
+  document.title = `${name} · ${document.title}`;
+}
+
 /** Show toast notification if redirected from expired room */
 function showExpiredToastIfNeeded(): void {
   const params = new URLSearchParams(location.search);
@@ -52,10 +68,43 @@ if (path === "/" || path === "") {
   if (versionEl) {
     versionEl.textContent = __APP_VERSION__;
   }
-  document.getElementById("createRoom")!.onclick = async () => {
-    const res = await fetch(`${API_BASE}/api/rooms`, { method: "POST" });
-    const { roomId, speakerKey } = await res.json();
-    location.href = `/speaker/${roomId}?speakerKey=${speakerKey}`;
+  const sourceSelect = document.getElementById("roomSourceLang") as HTMLSelectElement;
+  const targetSelect = document.getElementById("roomTargetLang") as HTMLSelectElement;
+  for (const lang of LANGUAGES) {
+    sourceSelect.add(new Option(lang.name, lang.code));
+    targetSelect.add(new Option(lang.name, lang.code));
+  }
+  sourceSelect.value = "ko";
+  targetSelect.value = "en";
+  const createBtn = document.getElementById("createRoom") as HTMLButtonElement;
+  createBtn.onclick = async () => {
+    const name = (document.getElementById("roomName") as HTMLInputElement).value.trim();
+    const ttlMinutes = Number((document.getElementById("roomDuration") as HTMLSelectElement).value);
+    const targetLangs = targetSelect.value !== sourceSelect.value ? [targetSelect.value] : [];
+    const passcode = (document.getElementById("roomPasscode") as HTMLInputElement).value;
+    if (passcode && passcode.length < 4) {
+      alert("Audience passcode must be at least 4 characters");
+      return;
+    }
+    createBtn.disabled = true;
+    try {
+      const res = await fetch(`${API_BASE}/api/rooms`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(name ? { name } : {}),
+          ttlMinutes,
+          ...(targetLangs.length ? { sourceLang: sourceSelect.value, targetLangs } : {}),
+          ...(passcode ? { passcode } : {}),
+        }),
+      });
+      if (!res.ok) throw new Error("Failed to create room");
+      const { roomId, speakerKey } = await res.json();
+      location.href = `/speaker/${roomId}?speakerKey=${speakerKey}`;
+    } catch (err) {
+      alert((err as Error).message);
+      createBtn.disabled = false;
+    }
   };
 }
 
@@ -75,25 +124,97 @@ if (speakerMatch) {
     alert("Missing speakerKey");
   } else {
     // Validate room exists before showing UI
-    checkRoomStatus(roomId).then((status) => {
+    Promise.all([checkRoomStatus(roomId, speakerKey), fetchPresenters(roomId, speakerKey).catch(() => null)]).then(([status, presenters]) => {
       if (!status.exists) return redirectExpired();
+      if (!presenters) {
+        alert("This speaker link is no longer valid");
+        return;
+      }
       showPage("speaker");
+      showRoomName("speakerTitle", status.name);
       new SpeakerUI(
         {
           sourceLang: document.getElementById("sourceLang") as HTMLSelectElement,
-          targetLang: document.getElementById("targetLang") as HTMLSelectElement,
+          targetLangs: document.getElementById("targetLangs")!,
           startBtn: document.getElementById("startBtn") as HTMLButtonElement,
           stopBtn: document.getElementById("stopBtn") as HTMLButtonElement,
           statusEl: document.getElementById("speakerStatus")!,
+          presenceEl: document.getElementById("speakerPresence")!,
+          scriptureEl: document.getElementById("speakerScripture")!,
           inputText: document.getElementById("inputText")!,
           outputText: document.getElementById("outputText")!,
           audienceLink: document.getElementById("audienceLink") as HTMLButtonElement,
+          transcriptLinks: document.getElementById("transcriptLinks")!,
           audioToggle: document.getElementById("speakerAudioToggle") as HTMLInputElement,
           expiryEl: document.getElementById("roomExpiry")!,
+          extendBtn: document.getElementById("extendRoom") as HTMLButtonElement,
+          glossary: {
+            targetLang: document.getElementById("glossaryTarget") as HTMLSelectElement,
+            rows: document.getElementById("glossaryRows")!,
+            addBtn: document.getElementById("glossaryAdd") as HTMLButtonElement,
+            saveBtn: document.getElementById("glossarySave") as HTMLButtonElement,
+            importInput: document.getElementById("glossaryImport") as HTMLInputElement,
+            exportBtn: document.getElementById("glossaryExport") as HTMLButtonElement,
+            statusEl: document.getElementById("glossaryStatus")!,
+          },
+          context: {
+            title: document.getElementById("contextTitle") as HTMLInputElement,
+            outline: document.getElementById("contextOutline") as HTMLTextAreaElement,
+            scripture: document.getElementById("contextScripture") as HTMLInputElement,
+            names: document.getElementById("contextNames") as HTMLInputElement,
+            saveBtn: document.getElementById("contextSave") as HTMLButtonElement,
+            statusEl: document.getElementById("contextStatus")!,
+          },
+          access: {
+            passcodeInput: document.getElementById("accessPasscode") as HTMLInputElement,
+            setPasscodeBtn: document.getElementById("accessSetPasscode") as HTMLButtonElement,
+            clearPasscodeBtn: document.getElementById("accessClearPasscode") as HTMLButtonElement,
+            disconnectAllBtn: document.getElementById("accessDisconnectAll") as HTMLButtonElement,
+            listenersEl: document.getElementById("accessListeners")!,
+            statusEl: document.getElementById("accessStatus")!,
+          },
+          presenters: {
+            nameInput: document.getElementById("presenterName") as HTMLInputElement,
+            addBtn: document.getElementById("presenterAdd") as HTMLButtonElement,
+            listEl: document.getElementById("presenterList")!,
+            statusEl: document.getElementById("presenterStatus")!,
+          },
+          recordings: {
+            enabled: document.getElementById("recordEnabled") as HTMLInputElement,
+            chapters: document.getElementById("recordChapters") as HTMLSelectElement,
+            listEl: document.getElementById("recordingList")!,
+            statusEl: document.getElementById("recordingStatus")!,
+          },
+          fileInput: {
+            file: document.getElementById("fileInput") as HTMLInputElement,
+            mode: document.getElementById("fileMode") as HTMLSelectElement,
+            clearBtn: document.getElementById("fileClear") as HTMLButtonElement,
+            pauseBtn: document.getElementById("filePause") as HTMLButtonElement,
+            seek: document.getElementById("fileSeek") as HTMLInputElement,
+            timeEl: document.getElementById("fileTime")!,
+            statusEl: document.getElementById("fileStatus")!,
+            resultsEl: document.getElementById("fileResults")!,
+          },
+          input: {
+            device: document.getElementById("inputDevice") as HTMLSelectElement,
+            noiseSuppression: document.getElementById("inputNoiseSuppression") as HTMLInputElement,
+            autoGain: document.getElementById("inputAutoGain") as HTMLInputElement,
+            gain: document.getElementById("inputGain") as HTMLInputElement,
+            gainLabel: document.getElementById("inputGainLabel")!,
+            meterFill: document.getElementById("inputMeter")!,
+            statusEl: document.getElementById("inputStatus")!,
+          },
+          ownerOnly: [document.getElementById("presentersCard")!, document.getElementById("accessCard")!],
         },
         roomId,
         speakerKey,
-        status.expiresAt
+        {
+          expiresAt: status.expiresAt,
+          defaultLangs: status.defaultLangs ?? null,
+          passcodeRequired: status.passcodeRequired ?? false,
+          self: presenters.self,
+          presenters: presenters.presenters,
+        }
       );
     });
   }
@@ -107,16 +228,63 @@ if (audienceMatch) {
   checkRoomStatus(roomId).then((status) => {
     if (!status.exists) return redirectExpired();
     showPage("audience");
+    showRoomName("audienceTitle", status.name);
     new AudienceUI(
       {
         statusEl: document.getElementById("audienceStatus")!,
         inputText: document.getElementById("audInputText")!,
         outputText: document.getElementById("audOutputText")!,
         audioToggle: document.getElementById("audioToggle") as HTMLInputElement,
+        langSelect: document.getElementById("audLangSelect") as HTMLSelectElement,
         inputLabel: document.getElementById("audInputLabel")!,
         outputLabel: document.getElementById("audOutputLabel")!,
+        passcodeForm: document.getElementById("audPasscodeForm") as HTMLFormElement,
+        passcodeInput: document.getElementById("audPasscode") as HTMLInputElement,
+        scriptureEl: document.getElementById("audScripture")!,
+        behindLive: document.getElementById("audBehindLive")!,
+        behindLiveText: document.getElementById("audBehindLiveText")!,
+        jumpLiveBtn: document.getElementById("audJumpLive") as HTMLButtonElement,
+      },
+      roomId,
+      status.passcodeRequired ?? false
+    );
+  });
+}
+
+// Projector display: /display/:roomId?lang=&bilingual=1&theme=&lines=&kiosk=1
+const displayMatch = path.match(/^\/display\/([^/]+)$/);
+if (displayMatch) {
+  const roomId = displayMatch[1];
+  checkRoomStatus(roomId).then((status) => {
+    if (!status.exists) return redirectExpired();
+    document.body.classList.add("display-mode");
+    if (status.name) document.title = `${status.name} · ${document.title}`;
+    showPage("display");
+    new DisplayUI(
+      {
+        root: document.getElementById("display")!,
+        sourceWindow: document.getElementById("displaySourceWindow")!,
+        sourceText: document.getElementById("displaySource")!,
+        captionWindow: document.getElementById("displayCaptionWindow")!,
+        captionText: document.getElementById("displayCaptions")!,
+        statusEl: document.getElementById("displayStatus")!,
       },
-      roomId
+      roomId,
+      parseDisplayOptions(new URLSearchParams(location.search)),
+      status.passcodeRequired ?? false
     );
   });
 }
+
+// Livestream caption overlay (OBS browser source): /overlay/:roomId?text=&lang=&font=&size=&color=&bg=&position=&lines=&hold=&fade=
+const overlayMatch = path.match(/^\/overlay\/([^/]+)$/);
+if (overlayMatch) {
+  // Transparent from the first frame; a missing room simply shows nothing
+  document.body.classList.add("overlay-mode");
+  document.getElementById("overlay")!.style.display = "flex";
+  new OverlayUI(
+    { root: document.getElementById("overlay")!, captions: document.getElementById("overlayCaptions")! },
+    overlayMatch[1],
+    parseOverlayOptions(new URLSearchParams(location.search))
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * Online pipeline stages: browser speech recognition (Web Speech API), and text translation
+ * and speech synthesis through the worker (Gemini text + TTS models, speakerKey required)
+ */
+import { API_BASE } from "../config";
+import { base64ToArrayBuffer } from "../audio/pcm";
+import type { GlossaryEntry } from "../live/glossary";
+import type { PipelineStages, RecognizerCallbacks, SpeechRecognizer, SpeechSynthesizer, TextTranslator } from "./stages";
+
+/** Speaker credentials the worker checks before spending API quota */
+export interface PipelineCredentials {
+  roomId: string;
+  speakerKey: string;
+}
+
+/** Recognition locale per app language */
+const RECOGNITION_LOCALES: Record<string, string> = {
+  en: "en-US",
+  ko: "ko-KR",
+  es: "es-ES",
+  zh: "zh-CN",
+  ja: "ja-JP",
+  fr: "fr-FR",
+  de: "de-DE",
+  pt: "pt-BR",
+};
+
+/** Errors that restarting won't fix */
+const FATAL_RECOGNITION_ERRORS = ["not-allowed", "service-not-allowed", "audio-capture", "language-not-supported"];
+const RESTART_DELAY_MS = 250;
+
+// Web Speech API (not in the DOM typings; Chrome exposes it as webkitSpeechRecognition)
+interface RecognitionResult {
+  isFinal: boolean;
+  0: { transcript: string };
+}
+interface RecognitionEvent {
+  resultIndex: number;
+  results: ArrayLike<RecognitionResult>;
+}
+interface Recognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+type RecognitionConstructor = new () => Recognition;
+
+function recognitionConstructor(): RecognitionConstructor | null {
+  const w = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition ?? null;
+}
+
+/**
+ * Browsers run one recognition at a time, so all sessions listening to the same language share
+ * it. Starting a different language (a live source switch) replaces the previous one.
+ */
+class SharedRecognition {
+  private static current: SharedRecognition | null = null;
+  private listeners = new Set<RecognizerCallbacks>();
+  private recognition: Recognition;
+  private active = true;
+
+  static acquire(lang: string, Ctor: RecognitionConstructor): SharedRecognition {
+    if (SharedRecognition.current?.lang === lang && SharedRecognition.current.active) return SharedRecognition.current;
+    SharedRecognition.current?.close();
+    SharedRecognition.current = new SharedRecognition(lang, Ctor);
+    return SharedRecognition.current;
+  }
+
+  private constructor(readonly lang: string, Ctor: RecognitionConstructor) {
+    this.recognition = new Ctor();
+    this.recognition.lang = RECOGNITION_LOCALES[lang] ?? lang;
+    this.recognition.continuous = true;
+    this.recognition.interimResults = true;
+    this.recognition.onresult = (event) => this.handleResult(event);
+    this.recognition.onerror = (event) => {
+      if (!FATAL_RECOGNITION_ERRORS.includes(event.error)) return; // no-speech, network, aborted: restarted on end
+      const err = new Error(`Speech recognition failed (${event.error})`);
+      for (const listener of this.listeners) listener.onError(err);
+      this.close();
+    };
+    // Browsers end continuous recognition after a while or on silence: keep it going
+    this.recognition.onend = () => {
+      if (this.active) setTimeout(() => this.active && this.recognition.start(), RESTART_DELAY_MS);
+    };
+    this.recognition.start();
+  }
+
+  add(listener: RecognizerCallbacks): void {
+    this.listeners.add(listener);
+  }
+
+  remove(listener: RecognizerCallbacks): void {
+    this.listeners.delete(listener);
+    if (!this.listeners.size) this.close();
+  }
+
+  private close(): void {
+    this.active = false;
+    this.recognition.abort();
+    if (SharedRecognition.current === this) SharedRecognition.current = null;
+  }
+
+  private handleResult(event: RecognitionEvent): void {
+    let interim = "";
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      const text = result[0].transcript.trim();
+      if (!text) continue;
+      if (result.isFinal) {
+        for (const listener of this.listeners) listener.onTranscript(text, true);
+      } else {
+        interim += `${interim ? " " : ""}${text}`;
+      }
+    }
+    if (interim) for (const listener of this.listeners) listener.onTranscript(interim, false);
+  }
+}
+
+class BrowserRecognizer implements SpeechRecognizer {
+  private shared: SharedRecognition | null = null;
+  private callbacks: RecognizerCallbacks | null = null;
+
+  async start(lang: string, callbacks: RecognizerCallbacks): Promise<void> {
+    const Ctor = recognitionConstructor();
+    if (!Ctor) throw new Error("Speech recognition is not available in this browser (use Chrome or Edge)");
+    this.callbacks = callbacks;
+    this.shared = SharedRecognition.acquire(lang, Ctor);
+    this.shared.add(callbacks);
+  }
+
+  /** The browser captures the microphone itself */
+  sendAudio(): void {}
+
+  stop(): void {
+    if (this.shared && this.callbacks) this.shared.remove(this.callbacks);
+    this.shared = null;
+    this.callbacks = null;
+  }
+}
+
+async function postJson<T>(path: string, body: unknown): Promise<T> {
+  const res = await fetch(`${API_BASE}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const { error } = await res.json().catch(() => ({})) as { error?: string };
+    throw new Error(error ?? `Request failed (${res.status})`);
+  }
+  return await res.json() as T;
+}
+
+/** Glossary terms that occur in the sentence; the rest would only lengthen the prompt */
+function glossaryForSentence(glossary: GlossaryEntry[], text: string): { source: string; target: string }[] {
+  const sentence = text.toLocaleLowerCase();
+  return glossary
+    .filter(({ source }) => sentence.includes(source.toLocaleLowerCase()))
+    .map(({ source, target }) => ({ source, target }));
+}
+
+export function browserStages(credentials: PipelineCredentials): PipelineStages {
+  const translator: TextTranslator = {
+    async translate({ text, sourceLang, targetLang, context, glossary, sermon }) {
+      const { text: translated } = await postJson<{ text: string }>("/api/translate", {
+        ...credentials,
+        text,
+        sourceLang,
+        targetLang,
+        context,
+        glossary: glossaryForSentence(glossary, text),
+        // The outline is too long to resend with every sentence
+        sermon: sermon ? { title: sermon.title, scripture: sermon.scripture, names: sermon.names } : undefined,
+      });
+      return translated;
+    },
+  };
+  const synthesizer: SpeechSynthesizer = {
+    async synthesize(text, lang) {
+      const { audio } = await postJson<{ audio: string }>("/api/tts", { ...credentials, text, lang });
+      return base64ToArrayBuffer(audio);
+    },
+  };
+  return { createRecognizer: () => new BrowserRecognizer(), maxInputSpeed: 0, translator, synthesizer };
+}
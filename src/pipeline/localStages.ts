@@ -0,0 +1,74 @@
+/**
+ * Offline pipeline stages: scripted recognition, script lookup translation and tone synthesis
+ *
+ * Same script as LocalSession, so both modes can be rehearsed without network. Everything
+ * is deterministic: recognition follows the mic energy chunk by chunk, and translation and
+ * synthesis resolve immediately.
+ */
+import { END_OF_SPEECH_CHUNKS, SPEECH_RMS, scriptIndex, scriptPhrase, speechLevel, synthesizeWord, tokenize } from "../live/localScript";
+import type { PipelineStages, RecognizerCallbacks, SpeechRecognizer, SpeechSynthesizer, TextTranslator } from "./stages";
+
+/** Each stretch of speech is recognized as the next scripted phrase, one word per chunk */
+class LocalRecognizer implements SpeechRecognizer {
+  private lang = "";
+  private callbacks: RecognizerCallbacks | null = null;
+  private phraseIndex = 0;
+  private utterance: { tokens: string[]; heard: string; silentChunks: number } | null = null;
+
+  async start(lang: string, callbacks: RecognizerCallbacks): Promise<void> {
+    this.lang = lang;
+    this.callbacks = callbacks;
+    this.phraseIndex = 0;
+  }
+
+  sendAudio(pcm16: ArrayBuffer): void {
+    if (!this.callbacks) return;
+    if (speechLevel(pcm16) >= SPEECH_RMS) {
+      this.utterance ??= { tokens: tokenize(scriptPhrase(this.lang, this.phraseIndex), this.lang), heard: "", silentChunks: 0 };
+      this.utterance.silentChunks = 0;
+      if (this.utterance.tokens.length > 1) {
+        this.utterance.heard += this.utterance.tokens.shift();
+        this.callbacks.onTranscript(this.utterance.heard.trim(), false);
+      }
+    } else if (this.utterance && ++this.utterance.silentChunks >= END_OF_SPEECH_CHUNKS) {
+      this.utterance = null;
+      this.callbacks.onTranscript(scriptPhrase(this.lang, this.phraseIndex++), true);
+    }
+  }
+
+  stop(): void {
+    this.callbacks = null;
+    this.utterance = null;
+  }
+}
+
+/** Scripted phrases map to the same phrase in the target language; other text is tagged */
+const localTranslator: TextTranslator = {
+  async translate({ text, sourceLang, targetLang }) {
+    const index = scriptIndex(text, sourceLang);
+    return index >= 0 ? scriptPhrase(targetLang, index) : `[${targetLang}] ${text}`;
+  },
+};
+
+/** One tone per word, back to back */
+const localSynthesizer: SpeechSynthesizer = {
+  async synthesize(text, lang) {
+    const words = tokenize(text, lang).map((word) => new Int16Array(synthesizeWord(word).pcm16));
+    const out = new Int16Array(words.reduce((sum, word) => sum + word.length, 0));
+    let offset = 0;
+    for (const word of words) {
+      out.set(word, offset);
+      offset += word.length;
+    }
+    return out.buffer;
+  },
+};
+
+export function localStages(): PipelineStages {
+  return {
+    createRecognizer: () => new LocalRecognizer(),
+    maxInputSpeed: 16, // recognition follows the audio chunks
+    translator: localTranslator,
+    synthesizer: localSynthesizer,
+  };
+}
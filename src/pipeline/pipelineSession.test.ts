@@ -0,0 +1,255 @@
+import { describe, expect, it } from "vitest";
+import { scriptPhrase } from "../live/localScript";
+import type { SessionCallbacks } from "../live/provider";
+import { localStages } from "./localStages";
+import { PipelineSession } from "./pipelineSession";
+import type { PipelineStages, SpeechRecognizer } from "./stages";
+
+const CHUNK_SAMPLES = 4096;
+
+function speechChunk(): ArrayBuffer {
+  const samples = new Int16Array(CHUNK_SAMPLES);
+  for (let i = 0; i < samples.length; i++) samples[i] = (i >> 4) % 2 ? 8000 : -8000;
+  return samples.buffer;
+}
+
+function silentChunk(): ArrayBuffer {
+  return new Int16Array(CHUNK_SAMPLES).buffer;
+}
+
+/** Let pending stage promises settle */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function recorder() {
+  const seen = {
+    input: [] as { text: string; final?: boolean }[],
+    output: [] as string[],
+    audio: [] as ArrayBuffer[],
+    errors: [] as Error[],
+  };
+  const callbacks: SessionCallbacks = {
+    onInputTranscript: (text, final) => seen.input.push({ text, final }),
+    onOutputTranscript: (text) => seen.output.push(text),
+    onOutputAudio: (pcm16) => seen.audio.push(pcm16),
+    onError: (err) => seen.errors.push(err),
+  };
+  return { seen, callbacks };
+}
+
+/** Recognizer driven by the test instead of audio */
+function typedRecognizer() {
+  let onTranscript: ((text: string, final: boolean) => void) | undefined;
+  const recognizer: SpeechRecognizer = {
+    start: async (_lang, callbacks) => {
+      onTranscript = callbacks.onTranscript;
+    },
+    sendAudio: () => {},
+    stop: () => {},
+  };
+  return { createRecognizer: () => recognizer, say: (text: string) => onTranscript!(text, true) };
+}
+
+interface Pending<T> {
+  text: string;
+  resolve: (value: T) => void;
+  reject: (err: Error) => void;
+}
+
+/** Translation and synthesis that finish only when the test says so */
+function manualStages() {
+  const recognizer = typedRecognizer();
+  const translations: Pending<string>[] = [];
+  const syntheses: Pending<ArrayBuffer>[] = [];
+  const stages: PipelineStages = {
+    createRecognizer: recognizer.createRecognizer,
+    maxInputSpeed: 0,
+    translator: {
+      translate: ({ text }) => new Promise((resolve, reject) => translations.push({ text, resolve, reject })),
+    },
+    synthesizer: {
+      synthesize: (text) => new Promise((resolve, reject) => syntheses.push({ text, resolve, reject })),
+    },
+  };
+  return { stages, say: recognizer.say, translations, syntheses };
+}
+
+/** Audio frame tagged with the sentence it was synthesized for */
+function tone(tag: number): ArrayBuffer {
+  return new Int16Array([tag]).buffer;
+}
+
+function tags(frames: ArrayBuffer[]): number[] {
+  return frames.map((frame) => new Int16Array(frame)[0]);
+}
+
+describe("PipelineSession with the local stages", () => {
+  it("recognizes, translates and speaks each utterance", async () => {
+    const { seen, callbacks } = recorder();
+    const session = new PipelineSession(callbacks, localStages());
+    expect(session.transcriptMode).toBe("cumulative");
+    await session.connect("", "en", "ko");
+    expect(session.getState()).toBe("streaming");
+
+    for (let i = 0; i < 4; i++) session.sendAudio(speechChunk());
+    for (let i = 0; i < 3; i++) session.sendAudio(silentChunk());
+    await settle();
+
+    const interim = seen.input.filter((item) => !item.final).map((item) => item.text);
+    expect(interim).toEqual(["Good", "Good morning,", "Good morning, and", "Good morning, and welcome"]);
+    expect(seen.input.at(-1)).toEqual({ text: scriptPhrase("en", 0), final: true });
+    expect(seen.output).toEqual([scriptPhrase("ko", 0)]);
+    expect(seen.errors).toEqual([]);
+
+    // Cut into 500 ms frames @ 24 kHz
+    expect(seen.audio.length).toBeGreaterThan(1);
+    expect(seen.audio.slice(0, -1).every((frame) => frame.byteLength === 24000)).toBe(true);
+    session.disconnect();
+  });
+
+  it("splits a final transcript into sentences translated in order", async () => {
+    const { seen, callbacks } = recorder();
+    const recognizer = typedRecognizer();
+    const session = new PipelineSession(callbacks, { ...localStages(), createRecognizer: recognizer.createRecognizer });
+    await session.connect("", "en", "es");
+    recognizer.say(`${scriptPhrase("en", 4)} ${scriptPhrase("en", 5)} Amen.`);
+    await settle();
+
+    expect(seen.output).toEqual([scriptPhrase("es", 4), scriptPhrase("es", 5), "[es] Amen."]);
+    session.disconnect();
+  });
+
+  it("stops delivering once disconnected", async () => {
+    const { seen, callbacks } = recorder();
+    const session = new PipelineSession(callbacks, localStages());
+    await session.connect("", "en", "ko");
+    for (let i = 0; i < 4; i++) session.sendAudio(speechChunk());
+    for (let i = 0; i < 3; i++) session.sendAudio(silentChunk());
+    session.disconnect();
+    expect(session.getState()).toBe("idle");
+    await settle();
+
+    expect(seen.output).toEqual([]);
+    expect(seen.audio).toEqual([]);
+    const heard = seen.input.length;
+    session.sendAudio(speechChunk());
+    expect(seen.input.length).toBe(heard);
+  });
+});
+
+describe("PipelineSession stage queues", () => {
+  it("translates three sentences at a time and releases them in order", async () => {
+    const { seen, callbacks } = recorder();
+    const { stages, say, translations } = manualStages();
+    const session = new PipelineSession(callbacks, stages);
+    await session.connect("", "en", "ko");
+    say("One. Two. Three. Four. Five.");
+    expect(translations.map((t) => t.text)).toEqual(["One.", "Two.", "Three."]);
+
+    translations[2].resolve("셋.");
+    translations[1].resolve("둘.");
+    await settle();
+    expect(seen.output).toEqual([]);
+    expect(translations.map((t) => t.text)).toEqual(["One.", "Two.", "Three.", "Four.", "Five."]);
+
+    translations[0].resolve("하나.");
+    await settle();
+    expect(seen.output).toEqual(["하나.", "둘.", "셋."]);
+
+    translations[4].resolve("다섯.");
+    translations[3].resolve("넷.");
+    await settle();
+    expect(seen.output).toEqual(["하나.", "둘.", "셋.", "넷.", "다섯."]);
+    session.disconnect();
+  });
+
+  it("synthesizes two sentences at a time and plays them in order", async () => {
+    const { seen, callbacks } = recorder();
+    const { stages, say, translations, syntheses } = manualStages();
+    const session = new PipelineSession(callbacks, stages);
+    await session.connect("", "en", "ko");
+    say("One. Two. Three.");
+    translations.forEach((t) => t.resolve(t.text));
+    await settle();
+    expect(syntheses.map((s) => s.text)).toEqual(["One.", "Two."]);
+
+    syntheses[1].resolve(tone(2));
+    await settle();
+    expect(seen.audio).toEqual([]);
+    expect(syntheses.map((s) => s.text)).toEqual(["One.", "Two.", "Three."]);
+
+    syntheses[0].resolve(tone(1));
+    syntheses[2].resolve(tone(3));
+    await settle();
+    expect(tags(seen.audio)).toEqual([1, 2, 3]);
+    session.disconnect();
+  });
+
+  it("skips the speech of the oldest waiting sentences beyond the backlog but still shows their text", async () => {
+    const { seen, callbacks } = recorder();
+    const { stages, say, translations, syntheses } = manualStages();
+    const session = new PipelineSession(callbacks, stages);
+    await session.connect("", "en", "ko");
+    // Two are being synthesized, six may wait: two more are too many
+    say("S0. S1. S2. S3. S4. S5. S6. S7. S8. S9.");
+    for (let i = 0; i < 10; i++) {
+      translations[i].resolve(translations[i].text);
+      await settle();
+    }
+    expect(seen.output).toHaveLength(10);
+    expect(syntheses.map((s) => s.text)).toEqual(["S0.", "S1."]);
+
+    syntheses[0].resolve(tone(0));
+    syntheses[1].resolve(tone(1));
+    await settle();
+    expect(syntheses.map((s) => s.text)).toEqual(["S0.", "S1.", "S4.", "S5."]);
+    for (let i = 2; i < 8; i++) {
+      syntheses[i].resolve(tone(Number(syntheses[i].text.slice(1, 2))));
+      await settle();
+    }
+    expect(tags(seen.audio)).toEqual([0, 1, 4, 5, 6, 7, 8, 9]);
+    expect(seen.errors).toEqual([]);
+    session.disconnect();
+  });
+
+  it("reports sentences that could not be translated or spoken and carries on", async () => {
+    const { seen, callbacks } = recorder();
+    const { stages, say, translations, syntheses } = manualStages();
+    const session = new PipelineSession(callbacks, stages);
+    await session.connect("", "en", "ko");
+    say("One. Two.");
+    translations[0].reject(new Error("503 Service Unavailable"));
+    translations[1].resolve("둘.");
+    await settle();
+
+    expect(seen.errors.map((err) => err.message)).toEqual(["A sentence could not be translated: 503 Service Unavailable"]);
+    expect(seen.output).toEqual(["둘."]);
+    expect(syntheses.map((s) => s.text)).toEqual(["둘."]);
+
+    syntheses[0].reject(new Error("quota"));
+    await settle();
+    expect(seen.audio).toEqual([]);
+    expect(seen.errors.map((err) => err.message).at(-1)).toBe("A sentence could not be spoken: quota");
+    expect(session.getState()).toBe("streaming");
+    session.disconnect();
+  });
+
+  it("surfaces a recognizer that fails to start", async () => {
+    const { seen, callbacks } = recorder();
+    const { stages } = manualStages();
+    const session = new PipelineSession(callbacks, {
+      ...stages,
+      createRecognizer: () => ({
+        start: async () => {
+          throw new Error("Microphone permission denied");
+        },
+        sendAudio: () => {},
+        stop: () => {},
+      }),
+    });
+    await session.connect("", "en", "ko");
+    expect(session.getState()).toBe("error");
+    expect(seen.errors.map((err) => err.message)).toEqual(["Microphone permission denied"]);
+  });
+});
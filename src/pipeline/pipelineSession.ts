@@ -0,0 +1,218 @@
+/**
+ * Decoupled translation pipeline as a TranslationProvider: continuous speech recognition →
+ * sentence segmentation → text translation → speech synthesis
+ *
+ * Unlike the speech-to-speech Live session, recognition keeps running while translated speech
+ * is produced. Translation and synthesis each work on several sentences at once behind a queue
+ * and release results in sentence order, so the room receives the same in_text / out_text /
+ * out_audio stream as with LiveSession.
+ */
+import { CONFIG } from "../config";
+import type { PromptExtras } from "../live/prompt";
+import { glossaryFor } from "../live/glossary";
+import type { SessionCallbacks, SessionState, TranslationProvider } from "../live/provider";
+import type { PipelineStages, SpeechRecognizer } from "./stages";
+
+const MAX_PARALLEL_TRANSLATIONS = 3;
+const MAX_PARALLEL_SYNTHESES = 2;
+/** Sentences waiting for speech beyond this are skipped (their text is still shown) to keep audio near live */
+const MAX_SPEECH_BACKLOG = 6;
+/** Preceding sentences sent along for coherent translation */
+const CONTEXT_SENTENCES = 3;
+/** out_audio frames are cut to this length */
+const AUDIO_FRAME_MS = 500;
+
+const SENTENCE_RE = /[^.!?。！？]+(?:[.!?。！？]+["'”’)\]]*|$)\s*/g;
+
+function splitSentences(text: string): string[] {
+  return (text.match(SENTENCE_RE) ?? []).map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Runs `work` on up to `concurrency` items at a time and delivers results in input order.
+ * A failed item is delivered as null with its error; a dropped one as null without.
+ */
+class OrderedStage<In, Out> {
+  private waiting: { id: number; input: In }[] = [];
+  private done = new Map<number, { input: In; output: Out | null; error?: Error }>();
+  private running = 0;
+  private nextId = 0;
+  private nextDelivery = 0;
+  private generation = 0;
+
+  constructor(
+    private concurrency: number,
+    private work: (input: In) => Promise<Out>,
+    private deliver: (output: Out | null, input: In, error?: Error) => void,
+  ) {}
+
+  get backlog(): number {
+    return this.waiting.length;
+  }
+
+  push(input: In): void {
+    this.waiting.push({ id: this.nextId++, input });
+    this.pump();
+  }
+
+  /** Give up on the oldest item not started yet */
+  dropOldest(): void {
+    const item = this.waiting.shift();
+    if (!item) return;
+    this.done.set(item.id, { input: item.input, output: null });
+    this.flush();
+  }
+
+  clear(): void {
+    this.generation++;
+    this.waiting = [];
+    this.done.clear();
+    this.running = 0;
+    this.nextDelivery = this.nextId;
+  }
+
+  private pump(): void {
+    while (this.running < this.concurrency && this.waiting.length) {
+      const { id, input } = this.waiting.shift()!;
+      const generation = this.generation;
+      this.running++;
+      this.work(input)
+        .then((output) => ({ output }), (err) => ({ output: null, error: err instanceof Error ? err : new Error(String(err)) }))
+        .then((result) => {
+          if (generation !== this.generation) return;
+          this.running--;
+          this.done.set(id, { input, ...result });
+          this.flush();
+          this.pump();
+        });
+    }
+  }
+
+  private flush(): void {
+    for (let item = this.done.get(this.nextDelivery); item; item = this.done.get(this.nextDelivery)) {
+      this.done.delete(this.nextDelivery++);
+      this.deliver(item.output, item.input, item.error);
+    }
+  }
+}
+
+export class PipelineSession implements TranslationProvider {
+  private state: SessionState = "idle";
+  private recognizer: SpeechRecognizer | null = null;
+  private sourceLang = "";
+  private targetLang = "";
+  private extras: PromptExtras = {};
+  /** Recent source sentences for translation context */
+  private recentSentences: string[] = [];
+  private translation: OrderedStage<{ text: string; context: string[] }, string>;
+  private speech: OrderedStage<string, ArrayBuffer>;
+  readonly maxInputSpeed: number;
+  /** Interim recognition repeats the whole utterance; translations are whole sentences */
+  readonly transcriptMode = "cumulative";
+
+  constructor(private callbacks: SessionCallbacks, private stages: PipelineStages) {
+    this.maxInputSpeed = stages.maxInputSpeed;
+    this.translation = new OrderedStage(
+      MAX_PARALLEL_TRANSLATIONS,
+      ({ text, context }) => this.stages.translator.translate({
+        text,
+        sourceLang: this.sourceLang,
+        targetLang: this.targetLang,
+        context,
+        glossary: glossaryFor(this.extras.glossary ?? [], this.sourceLang, this.targetLang),
+        sermon: this.extras.context,
+      }),
+      (translated, _sentence, err) => this.handleTranslation(translated, err),
+    );
+    this.speech = new OrderedStage(
+      MAX_PARALLEL_SYNTHESES,
+      (text) => this.stages.synthesizer.synthesize(text, this.targetLang),
+      (pcm16, _text, err) => this.handleSpeech(pcm16, err),
+    );
+  }
+
+  getState(): SessionState {
+    return this.state;
+  }
+
+  private setState(state: SessionState): void {
+    this.state = state;
+    this.callbacks.onStateChange?.(state);
+  }
+
+  async connect(_token: string, sourceLang: string, targetLang: string, extras: PromptExtras = {}): Promise<void> {
+    if (this.state !== "idle") return;
+    this.sourceLang = sourceLang;
+    this.targetLang = targetLang;
+    this.extras = extras;
+    this.recentSentences = [];
+    this.setState("connecting");
+
+    const recognizer = this.stages.createRecognizer();
+    this.recognizer = recognizer;
+    try {
+      await recognizer.start(sourceLang, {
+        onTranscript: (text, final) => {
+          if (this.recognizer === recognizer) this.handleTranscript(text, final);
+        },
+        onError: (err) => {
+          if (this.recognizer !== recognizer) return;
+          this.callbacks.onError?.(err);
+          this.setState("error");
+        },
+      });
+    } catch (err) {
+      this.callbacks.onError?.(err as Error);
+      this.setState("error");
+      return;
+    }
+    if (this.getState() === "connecting") this.setState("streaming"); // not stopped meanwhile
+  }
+
+  sendAudio(pcm16: ArrayBuffer): void {
+    if (this.state === "streaming") this.recognizer?.sendAudio(pcm16);
+  }
+
+  private handleTranscript(text: string, final: boolean): void {
+    if (!text.trim()) return;
+    this.callbacks.onInputTranscript?.(text, final);
+    if (!final) return;
+    for (const sentence of splitSentences(text)) {
+      this.translation.push({ text: sentence, context: [...this.recentSentences] });
+      this.recentSentences = [...this.recentSentences, sentence].slice(-CONTEXT_SENTENCES);
+    }
+  }
+
+  private handleTranslation(translated: string | null, err?: Error): void {
+    if (this.state !== "streaming") return;
+    if (!translated?.trim()) {
+      this.callbacks.onError?.(new Error(err ? `A sentence could not be translated: ${err.message}` : "A sentence could not be translated"));
+      return;
+    }
+    this.callbacks.onOutputTranscript?.(translated, true);
+    this.speech.push(translated);
+    while (this.speech.backlog > MAX_SPEECH_BACKLOG) this.speech.dropOldest();
+  }
+
+  private handleSpeech(pcm16: ArrayBuffer | null, err?: Error): void {
+    if (this.state !== "streaming") return;
+    // No error: skipped to keep up with live
+    if (err) this.callbacks.onError?.(new Error(`A sentence could not be spoken: ${err.message}`));
+    if (!pcm16) return;
+    const frameBytes = Math.round((AUDIO_FRAME_MS / 1000) * CONFIG.OUTPUT_SAMPLE_RATE) * 2;
+    for (let offset = 0; offset < pcm16.byteLength; offset += frameBytes) {
+      this.callbacks.onOutputAudio?.(pcm16.slice(offset, Math.min(offset + frameBytes, pcm16.byteLength)));
+    }
+  }
+
+  disconnect(): void {
+    if (this.state === "idle") return;
+    this.setState("stopping");
+    const recognizer = this.recognizer;
+    this.recognizer = null;
+    recognizer?.stop();
+    this.translation.clear();
+    this.speech.clear();
+    this.setState("idle");
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Stage interfaces for the decoupled pipeline: speech recognition → text translation → speech synthesis
+ */
+import type { GlossaryEntry } from "../live/glossary";
+import type { SermonContext } from "../live/sermonContext";
+
+export interface RecognizerCallbacks {
+  /** Interim text is the whole current utterance so far; final text ends it */
+  onTranscript: (text: string, final: boolean) => void;
+  /** Unrecoverable failure (e.g. microphone permission denied) */
+  onError: (err: Error) => void;
+}
+
+/** Continuous speech-to-text; never pauses while translations are being spoken */
+export interface SpeechRecognizer {
+  start(lang: string, callbacks: RecognizerCallbacks): Promise<void>;
+  /** PCM16 @ 16kHz mic audio (recognizers with their own capture ignore it) */
+  sendAudio(pcm16: ArrayBuffer): void;
+  stop(): void;
+}
+
+export interface TranslationRequest {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  /** Preceding source sentences, oldest first */
+  context: string[];
+  glossary: GlossaryEntry[];
+  sermon?: SermonContext;
+}
+
+export interface TextTranslator {
+  translate(request: TranslationRequest): Promise<string>;
+}
+
+export interface SpeechSynthesizer {
+  /** PCM16 @ 24kHz */
+  synthesize(text: string, lang: string): Promise<ArrayBuffer>;
+}
+
+/** One backend per stage; a recognizer is created per session */
+export interface PipelineStages {
+  createRecognizer(): SpeechRecognizer;
+  /** See TranslationProvider.maxInputSpeed (0 when the recognizer captures the mic itself) */
+  maxInputSpeed: number;
+  translator: TextTranslator;
+  synthesizer: SpeechSynthesizer;
+}
@@ -1,52 +1,144 @@
 /**
  * WebSocket client for Room connection (speaker/audience)
  */
-import { RoomEvent, RoomEventPayload, encodeEvent, decodeEvent } from "./protocol";
+import {
+  RoomEvent,
+  RoomEventPayload,
+  ListenerMessage,
+  SpeakerControl,
+  PROTOCOL_VERSION,
+  encodeEvent,
+  decodeEvent,
+  encodeAudioFrame,
+  decodeAudioFrame,
+} from "./protocol";
 import { API_BASE } from "../config";
+import type { AudioCodec } from "../audio/opus";
 
 type Role = "speaker" | "audience";
 
+export interface RoomClientOptions {
+  /** Reconnect with exponential backoff after an unexpected close, replaying missed events */
+  autoReconnect?: boolean;
+  /** Audio codecs this client can decode (audience) or encode (speaker); default PCM only */
+  codecs?: AudioCodec[];
+  /** Audience passcode for protected rooms */
+  passcode?: string;
+  /** Audience token from /join, used instead of the passcode */
+  token?: string;
+}
+
 export class RoomClient {
   private ws: WebSocket | null = null;
   private seq = 0;
+  private lang: string | null = null;
+  /** Highest seq received; sent as `since` on reconnect */
+  private lastSeq = 0;
+  private reconnectAttempt = 0;
+  private reconnectTimer: number | null = null;
+  private static readonly RECONNECT_BASE_MS = 1000;
+  private static readonly RECONNECT_MAX_MS = 30_000;
   onEvent?: (event: RoomEvent) => void;
   onOpen?: () => void;
-  onClose?: () => void;
+  onClose?: (code: number, reason: string) => void;
+  onReconnecting?: (attempt: number, delayMs: number) => void;
 
   constructor(
     private roomId: string,
     private role: Role,
-    private speakerKey?: string
+    private speakerKey?: string,
+    private options: RoomClientOptions = {}
   ) {}
 
   connect(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const params = new URLSearchParams({ role: this.role });
+      // bin=1: this client sends and accepts binary audio frames
+      const params = new URLSearchParams({ role: this.role, v: String(PROTOCOL_VERSION), bin: "1" });
       if (this.speakerKey) params.set("key", this.speakerKey);
+      if (this.lang) params.set("lang", this.lang);
+      if (this.options.codecs?.length) params.set("codecs", this.options.codecs.join(","));
+      if (this.options.passcode) params.set("pass", this.options.passcode);
+      if (this.options.token) params.set("token", this.options.token);
+      if (this.lastSeq > 0) params.set("since", String(this.lastSeq));
       const wsBase = API_BASE.replace(/^http/, "ws") || `${location.protocol === "https:" ? "wss:" : "ws:"}//${location.host}`;
       const url = `${wsBase}/api/rooms/${this.roomId}/ws?${params}`;
 
-      this.ws = new WebSocket(url);
-      this.ws.onopen = () => { this.onOpen?.(); resolve(); };
-      this.ws.onclose = () => this.onClose?.();
-      this.ws.onerror = () => reject(new Error("WebSocket connection failed"));
-      this.ws.onmessage = (e) => {
-        const event = decodeEvent(e.data);
-        if (event) this.onEvent?.(event);
+      let opened = false;
+      const ws = new WebSocket(url);
+      ws.binaryType = "arraybuffer";
+      this.ws = ws;
+      ws.onopen = () => {
+        opened = true;
+        this.reconnectAttempt = 0;
+        this.onOpen?.();
+        resolve();
+      };
+      ws.onclose = (e) => {
+        this.onClose?.(e.code, e.reason);
+        // Only reconnect sockets that were up; 1000/1008 and 4xxx are deliberate server closes
+        if (this.options.autoReconnect && (opened || this.reconnectAttempt > 0) && e.code !== 1000 && e.code !== 1008 && e.code < 4000) {
+          this.scheduleReconnect();
+        }
+      };
+      ws.onerror = () => reject(new Error("WebSocket connection failed"));
+      ws.onmessage = (e) => {
+        const event = typeof e.data === "string" ? decodeEvent(e.data) : decodeAudioFrame(e.data);
+        if (!event) return;
+        // lang_info is resent on every connect, ahead of any replayed events
+        if (event.t !== "lang_info") {
+          if (event.seq <= this.lastSeq) return; // duplicate from replay
+          this.lastSeq = event.seq;
+        }
+        this.onEvent?.(event);
       };
     });
   }
 
+  private scheduleReconnect(): void {
+    const backoff = Math.min(RoomClient.RECONNECT_MAX_MS, RoomClient.RECONNECT_BASE_MS * 2 ** this.reconnectAttempt);
+    const delayMs = backoff / 2 + Math.random() * (backoff / 2);
+    this.reconnectAttempt++;
+    this.onReconnecting?.(this.reconnectAttempt, delayMs);
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(() => { /* onclose schedules the next attempt */ });
+    }, delayMs);
+  }
+
   /** Speaker: send event to room for broadcast */
   send(event: RoomEventPayload): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
     const fullEvent = { ...event, seq: ++this.seq } as RoomEvent;
-    this.ws.send(encodeEvent(fullEvent));
+    this.ws.send(fullEvent.t === "out_audio" ? encodeAudioFrame(fullEvent) : encodeEvent(fullEvent));
+  }
+
+  /** Control message for the room itself: listener state (audience) or floor handoff (speaker) */
+  sendControl(message: ListenerMessage | SpeakerControl): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    this.ws.send(JSON.stringify(message));
+  }
+
+  /** Audience: target language to subscribe to (applies on next connect) */
+  setLanguage(lang: string | null): void {
+    this.lang = lang;
+  }
+
+  /** Audience token for protected rooms (applies on next connect) */
+  setToken(token: string | undefined): void {
+    this.options.token = token;
+  }
+
+  /** Audio codecs to advertise (applies on next connect) */
+  setCodecs(codecs: AudioCodec[]): void {
+    this.options.codecs = codecs;
   }
 
   disconnect(): void {
+    if (this.reconnectTimer != null) window.clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.reconnectAttempt = 0;
+    if (this.ws) this.ws.onclose = null;
     this.ws?.close();
     this.ws = null;
   }
 }
-
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from "vitest";
+import { LocalSession } from "../live/localSession";
+import { scriptPhrase } from "../live/localScript";
+import { SegmentBuilder } from "../../worker/transcript";
+import { parseSpeakerControl, validateSpeakerEvent } from "../../worker/validate";
+import * as workerFrames from "../../worker/audioFrame";
+import { RoomEvent, decodeAudioFrame, decodeEvent, encodeAudioFrame, encodeEvent, protocolStats } from "./protocol";
+
+const CHUNK_SAMPLES = 4096;
+
+/** Loud square wave: well above the local provider's speech threshold */
+function speechChunk(): ArrayBuffer {
+  const samples = new Int16Array(CHUNK_SAMPLES);
+  for (let i = 0; i < samples.length; i++) samples[i] = (i >> 4) % 2 ? 8000 : -8000;
+  return samples.buffer;
+}
+
+function silentChunk(): ArrayBuffer {
+  return new Int16Array(CHUNK_SAMPLES).buffer;
+}
+
+type TextEvent = { t: "in_text" | "out_text"; text: string; finished?: boolean; lang?: string };
+
+/** Speak one phrase into a local session (en → ko) and collect what the speaker page would send */
+async function runLocalPhrase(): Promise<{ text: TextEvent[]; audio: ArrayBuffer[]; interrupts: number }> {
+  const text: TextEvent[] = [];
+  const audio: ArrayBuffer[] = [];
+  let interrupts = 0;
+  const session = new LocalSession({
+    onInputTranscript: (t, finished) => text.push({ t: "in_text", text: t, finished }),
+    onOutputTranscript: (t, finished) => text.push({ t: "out_text", text: t, finished, lang: "ko" }),
+    onOutputAudio: (pcm16) => audio.push(pcm16),
+    onInterrupt: () => interrupts++,
+  });
+  await session.connect("", "en", "ko");
+  expect(session.getState()).toBe("streaming");
+  for (let i = 0; i < 12; i++) session.sendAudio(speechChunk());
+  for (let i = 0; i < 40; i++) session.sendAudio(silentChunk());
+  session.disconnect();
+  return { text, audio, interrupts };
+}
+
+describe("room protocol with the local provider", () => {
+  it("sends speaker events the room accepts and listeners decode unchanged", async () => {
+    const { text } = await runLocalPhrase();
+    expect(text.some((e) => e.t === "in_text")).toBe(true);
+    expect(text.some((e) => e.t === "out_text")).toBe(true);
+
+    text.forEach((event, seq) => {
+      const checked = validateSpeakerEvent(event);
+      expect(checked).toEqual({ ok: true, event });
+      const roomEvent = { ...event, seq } as RoomEvent;
+      expect(decodeEvent(encodeEvent(roomEvent))).toEqual(roomEvent);
+    });
+  });
+
+  it("relays translated audio through the room's binary frames", async () => {
+    const { audio } = await runLocalPhrase();
+    expect(audio.length).toBeGreaterThan(0);
+
+    audio.forEach((pcm16, seq) => {
+      const sent = encodeAudioFrame({ t: "out_audio", seq: 0, sr: 24000, lang: "ko", data: pcm16 });
+      const packet = workerFrames.decodeAudioFrame(sent);
+      expect(packet).toMatchObject({ sr: 24000, lang: "ko", codec: "pcm16" });
+      const relayed = workerFrames.encodeAudioFrame({ ...packet!, seq });
+      const received = decodeAudioFrame(relayed);
+      expect(received).toMatchObject({ t: "out_audio", seq, sr: 24000, lang: "ko", codec: "pcm16" });
+      expect(new Uint8Array(received!.data)).toEqual(new Uint8Array(pcm16));
+    });
+  });
+
+  it("segments the relayed text into the scripted phrase and its translation", async () => {
+    const { text } = await runLocalPhrase();
+    const segments = new SegmentBuilder();
+    const done: Record<string, string[]> = { in: [], ko: [] };
+    text.forEach((event, i) => {
+      const stream = event.t === "in_text" ? "in" : "ko";
+      for (const seg of segments.update(stream, event.text, event.finished, i * 256)) done[stream].push(seg.text);
+    });
+    expect(done.in).toEqual([scriptPhrase("en", 0)]);
+    expect(done.ko).toEqual([scriptPhrase("ko", 0)]);
+    expect(segments.flush()).toEqual([]);
+  });
+
+  it("rejects malformed speaker events", () => {
+    expect(validateSpeakerEvent({ t: "in_text", text: "Hi", cumulative: "yes" })).toEqual({ ok: false, reason: "in_text.cumulative" });
+    expect(validateSpeakerEvent({ t: "out_text", text: "Hi", lang: "Korean" })).toEqual({ ok: false, reason: "out_text.lang" });
+    expect(validateSpeakerEvent({ t: "status", level: "debug", msg: "" })).toEqual({ ok: false, reason: "status.level" });
+    expect(validateSpeakerEvent({ t: "gap" })).toEqual({ ok: false, reason: 'unknown type "gap"' });
+    expect(validateSpeakerEvent([])).toEqual({ ok: false, reason: "not an object" });
+  });
+
+  it("drops malformed room events on the listener side", () => {
+    expect(decodeEvent("not json")).toBeNull();
+    expect(decodeEvent(JSON.stringify({ t: "in_text", text: "Hi" }))).toBeNull(); // no seq
+    expect(decodeEvent(JSON.stringify({ t: "out_audio", seq: 1, b64: "", sr: 16000 }))).toBeNull();
+    expect(decodeAudioFrame(new ArrayBuffer(4))).toBeNull();
+  });
+
+  it("skips event types from newer rooms quietly", () => {
+    const warn = vi.spyOn(console, "warn");
+    const rejected = protocolStats.rejected;
+    expect(decodeEvent(JSON.stringify({ t: "poll", seq: 3, question: "?" }))).toBeNull();
+    expect(decodeEvent(JSON.stringify({ t: "poll", seq: 4, question: "?" }))).toBeNull();
+    expect(protocolStats.unknownTypes.poll).toBe(2);
+    expect(protocolStats.rejected).toBe(rejected);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("hands the floor over between presenters by id", () => {
+    expect(parseSpeakerControl({ t: "floor", action: "take" })).toEqual({ t: "floor", action: "take" });
+    expect(parseSpeakerControl({ t: "floor", action: "release" })).toEqual({ t: "floor", action: "release" });
+    expect(parseSpeakerControl({ t: "floor", action: "steal" })).toBeNull();
+
+    // Two presenters may share a display name; only the id tells them apart
+    const floor: RoomEvent = { t: "floor", seq: 7, holder: { id: "p2", name: "Pastor Kim" }, self: false };
+    expect(decodeEvent(encodeEvent(floor))).toEqual(floor);
+    expect(decodeEvent(JSON.stringify({ t: "floor", seq: 8, holder: null, self: false }))).toMatchObject({ holder: null });
+    expect(decodeEvent(JSON.stringify({ t: "floor", seq: 9, holder: "Pastor Kim", self: false }))).toBeNull();
+  });
+});
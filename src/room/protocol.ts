@@ -1,32 +1,232 @@
 /**
  * Room WebSocket protocol types
+ *
+ * Control and text events travel as JSON text frames. Translated audio travels as
+ * binary frames (see encodeAudioFrame) for clients that connect with `bin=1`; older
+ * clients keep receiving `out_audio` as base64 JSON.
  */
+import { arrayBufferToBase64, base64ToArrayBuffer } from "../audio/pcm";
+import type { AudioCodec } from "../audio/opus";
+import { PROTOCOL_LIMITS } from "../../shared/protocolLimits";
+
+/** Target language advertised in lang_info (code routes events, name labels the UI) */
+export interface LangTarget {
+  code: string;
+  name: string;
+}
+
 export type RoomEvent =
-  | { t: "in_text"; seq: number; text: string; finished?: boolean }
-  | { t: "out_text"; seq: number; text: string; finished?: boolean }
-  | { t: "out_audio"; seq: number; b64: string; sr: 24000 }
-  | { t: "interrupt"; seq: number }
+  /** cumulative: text repeats the whole phrase so far (default: it continues the phrase) */
+  | { t: "in_text"; seq: number; text: string; finished?: boolean; cumulative?: boolean }
+  | { t: "out_text"; seq: number; text: string; finished?: boolean; lang?: string; cumulative?: boolean }
+  | { t: "out_audio"; seq: number; data: ArrayBuffer; sr: 24000; lang?: string; codec?: AudioCodec }
+  | { t: "interrupt"; seq: number; lang?: string }
   | { t: "status"; seq: number; level: "info" | "warn" | "error"; msg: string }
-  | { t: "lang_info"; seq: number; sourceLang: string; targetLang: string };
+  | { t: "lang_info"; seq: number; sourceLang: string; targetLang: string; targets?: LangTarget[]; presenter?: string }
+  /** Server-only: events from..to (inclusive) could not be replayed after a reconnect */
+  | { t: "gap"; seq: number; from: number; to: number }
+  /** Server-only, to the speaker: audio codecs the current listeners need */
+  | { t: "audio_codecs"; seq: number; codecs: AudioCodec[] }
+  /** Server-only, to the speaker: connected listeners (audio = playback enabled, langs = per target) */
+  | { t: "presence"; seq: number; listeners: number; audio: number; langs?: Record<string, number>; members?: ListenerInfo[] }
+  /** Server-only, to the speaker: room expiry changed or is close (warning) */
+  | { t: "expiry"; seq: number; expiresAt: number; warning?: boolean }
+  /** Server-only, to speakers: who holds the floor (self = this connection's presenter) */
+  | { t: "floor"; seq: number; holder: { id: string; name: string } | null; self: boolean }
+  /** Server-only: scripture reference detected in the transcript (book = USFM code, e.g. "JHN") */
+  | { t: "scripture"; seq: number; id: string; book: string; chapter: number; verse: number; verseEnd?: number }
+  /** Server-only: a speaker dismissed a detected reference as a false positive */
+  | { t: "scripture_dismiss"; seq: number; id: string };
 
 /** Event without seq (used when sending, seq added by client) */
 export type RoomEventPayload =
-  | { t: "in_text"; text: string; finished?: boolean }
-  | { t: "out_text"; text: string; finished?: boolean }
-  | { t: "out_audio"; b64: string; sr: 24000 }
-  | { t: "interrupt" }
+  | { t: "in_text"; text: string; finished?: boolean; cumulative?: boolean }
+  | { t: "out_text"; text: string; finished?: boolean; lang?: string; cumulative?: boolean }
+  | { t: "out_audio"; data: ArrayBuffer; sr: 24000; lang?: string; codec?: AudioCodec }
+  | { t: "interrupt"; lang?: string }
   | { t: "status"; level: "info" | "warn" | "error"; msg: string }
-  | { t: "lang_info"; sourceLang: string; targetLang: string };
+  | { t: "lang_info"; sourceLang: string; targetLang: string; targets?: LangTarget[] };
+
+/** One connected listener as reported to the speaker */
+export interface ListenerInfo {
+  id: string;
+  lang: string | null;
+  audio: boolean;
+  joinedAt: number;
+}
+
+/** Application close codes the room sends to listeners; clients do not auto-reconnect on these */
+export const CLOSE_CODES = {
+  PASSCODE_CHANGED: 4001,
+  REMOVED: 4003,
+} as const;
+
+/** Listener -> room control messages (no seq; not broadcast) */
+export type ListenerMessage = { t: "listener_state"; audio: boolean };
+
+/** Speaker -> room floor handoff and scripture dismissal (no seq; not broadcast as-is) */
+export type SpeakerControl =
+  | { t: "floor"; action: "take" | "release" }
+  | { t: "scripture_dismiss"; id: string };
 
+/** JSON encoding; audio is base64 inlined for clients without binary support */
 export function encodeEvent(event: RoomEvent): string {
+  if (event.t === "out_audio") {
+    const { data, ...rest } = event;
+    return JSON.stringify({ ...rest, b64: arrayBufferToBase64(data) });
+  }
   return JSON.stringify(event);
 }
 
+/** Room protocol version this client speaks; sent as `v` on the WebSocket URL */
+export const PROTOCOL_VERSION = 1;
+
+export { PROTOCOL_LIMITS };
+
+/** Counters for malformed events and skipped unknown types (inspect from the console when debugging) */
+export const protocolStats = {
+  rejected: 0,
+  unknownTypes: {} as Record<string, number>,
+};
+
+const LANG_CODE_RE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})?$/;
+const BOOK_CODE_RE = /^[1-3A-Z][A-Z]{2}$/;
+const STATUS_LEVELS = ["info", "warn", "error"];
+const AUDIO_CODECS: AudioCodec[] = ["pcm16", "opus"];
+
+type Fields = Record<string, unknown>;
+
+const isText = (v: unknown, max: number): v is string => typeof v === "string" && v.length <= max;
+const isSeq = (v: unknown): v is number => Number.isSafeInteger(v) && (v as number) >= 0;
+const isOptBool = (v: unknown): boolean => v === undefined || typeof v === "boolean";
+const isOptLang = (v: unknown): boolean => v === undefined || (typeof v === "string" && LANG_CODE_RE.test(v));
+
+/** Per-type field checks for JSON events (out_audio is checked separately) */
+const VALIDATORS: Record<string, (e: Fields) => boolean> = {
+  in_text: (e) => isText(e.text, PROTOCOL_LIMITS.MAX_TEXT_LENGTH) && isOptBool(e.finished) && isOptBool(e.cumulative),
+  out_text: (e) =>
+    isText(e.text, PROTOCOL_LIMITS.MAX_TEXT_LENGTH) && isOptBool(e.finished) && isOptBool(e.cumulative) && isOptLang(e.lang),
+  interrupt: (e) => isOptLang(e.lang),
+  status: (e) => STATUS_LEVELS.includes(e.level as string) && isText(e.msg, PROTOCOL_LIMITS.MAX_STATUS_LENGTH),
+  lang_info: (e) =>
+    isText(e.sourceLang, PROTOCOL_LIMITS.MAX_LANG_NAME_LENGTH) &&
+    isText(e.targetLang, PROTOCOL_LIMITS.MAX_LANG_NAME_LENGTH) &&
+    (e.presenter === undefined || isText(e.presenter, PROTOCOL_LIMITS.MAX_LANG_NAME_LENGTH)) &&
+    (e.targets === undefined ||
+      (Array.isArray(e.targets) &&
+        e.targets.length <= PROTOCOL_LIMITS.MAX_TARGETS &&
+        e.targets.every((t: Fields) => typeof t?.code === "string" && LANG_CODE_RE.test(t.code) && isText(t.name, PROTOCOL_LIMITS.MAX_LANG_NAME_LENGTH)))),
+  gap: (e) => isSeq(e.from) && isSeq(e.to) && (e.from as number) <= (e.to as number),
+  audio_codecs: (e) => Array.isArray(e.codecs) && e.codecs.every((c) => AUDIO_CODECS.includes(c)),
+  presence: (e) =>
+    isSeq(e.listeners) &&
+    isSeq(e.audio) &&
+    (e.langs === undefined ||
+      (!!e.langs && typeof e.langs === "object" && Object.entries(e.langs).every(([k, n]) => LANG_CODE_RE.test(k) && isSeq(n)))) &&
+    (e.members === undefined ||
+      (Array.isArray(e.members) &&
+        e.members.every((m: Fields) => typeof m?.id === "string" && typeof m.audio === "boolean" && isSeq(m.joinedAt) && (m.lang === null || isOptLang(m.lang))))),
+  floor: (e) =>
+    typeof e.self === "boolean" &&
+    (e.holder === null || (typeof (e.holder as Fields)?.id === "string" && isText((e.holder as Fields).name, PROTOCOL_LIMITS.MAX_LANG_NAME_LENGTH))),
+  expiry: (e) => isSeq(e.expiresAt) && isOptBool(e.warning),
+  scripture: (e) =>
+    isText(e.id, 16) &&
+    typeof e.book === "string" &&
+    BOOK_CODE_RE.test(e.book) &&
+    isSeq(e.chapter) &&
+    isSeq(e.verse) &&
+    (e.verseEnd === undefined || isSeq(e.verseEnd)),
+  scripture_dismiss: (e) => isText(e.id, 16),
+};
+
+function reject(): null {
+  protocolStats.rejected++;
+  return null;
+}
+
+/** Newer rooms may send types this client does not know yet: skip them without complaint */
+function ignore(type: string): null {
+  protocolStats.unknownTypes[type] = (protocolStats.unknownTypes[type] ?? 0) + 1;
+  return null;
+}
+
 export function decodeEvent(data: string): RoomEvent | null {
+  let parsed: Fields;
   try {
-    return JSON.parse(data) as RoomEvent;
+    parsed = JSON.parse(data);
   } catch {
-    return null;
+    return reject();
+  }
+  if (!parsed || typeof parsed !== "object" || typeof parsed.t !== "string" || !isSeq(parsed.seq)) return reject();
+
+  if (parsed.t === "out_audio") {
+    // JSON fallback for audio: base64 payload
+    if (typeof parsed.b64 !== "string" || parsed.sr !== 24000 || !isOptLang(parsed.lang)) return reject();
+    if (parsed.codec !== undefined && !AUDIO_CODECS.includes(parsed.codec as AudioCodec)) return reject();
+    const { b64, ...rest } = parsed;
+    try {
+      return { ...rest, data: base64ToArrayBuffer(b64) } as RoomEvent;
+    } catch {
+      return reject();
+    }
   }
+
+  const validate = VALIDATORS[parsed.t];
+  if (!validate) return ignore(parsed.t.slice(0, 32));
+  return validate(parsed) ? (parsed as RoomEvent) : reject();
+}
+
+/**
+ * Binary audio frame, version 1 (little-endian):
+ *   0  u8   version (1)
+ *   1  u8   frame type (1 = out_audio)
+ *   2  u8   codec (0 = PCM16, 1 = Opus packets, see audio/opus.ts)
+ *   3  u8   lang code length N (0 = untagged)
+ *   4  u32  seq
+ *   8  u32  sample rate
+ *   12 N    lang code (ASCII)
+ *   .. audio payload
+ */
+export const AUDIO_FRAME_VERSION = 1;
+export const FRAME_TYPE_AUDIO = 1;
+const AUDIO_FRAME_HEADER_BYTES = 12;
+const FRAME_CODECS: AudioCodec[] = ["pcm16", "opus"];
+
+export function encodeAudioFrame(event: Extract<RoomEvent, { t: "out_audio" }>): ArrayBuffer {
+  const lang = new TextEncoder().encode(event.lang ?? "");
+  const frame = new Uint8Array(AUDIO_FRAME_HEADER_BYTES + lang.length + event.data.byteLength);
+  const view = new DataView(frame.buffer);
+  view.setUint8(0, AUDIO_FRAME_VERSION);
+  view.setUint8(1, FRAME_TYPE_AUDIO);
+  view.setUint8(2, FRAME_CODECS.indexOf(event.codec ?? "pcm16"));
+  view.setUint8(3, lang.length);
+  view.setUint32(4, event.seq, true);
+  view.setUint32(8, event.sr, true);
+  frame.set(lang, AUDIO_FRAME_HEADER_BYTES);
+  frame.set(new Uint8Array(event.data), AUDIO_FRAME_HEADER_BYTES + lang.length);
+  return frame.buffer;
+}
+
+export function decodeAudioFrame(buffer: ArrayBuffer): Extract<RoomEvent, { t: "out_audio" }> | null {
+  if (buffer.byteLength < AUDIO_FRAME_HEADER_BYTES) return null;
+  const view = new DataView(buffer);
+  if (view.getUint8(0) !== AUDIO_FRAME_VERSION || view.getUint8(1) !== FRAME_TYPE_AUDIO) return null;
+  const codec = FRAME_CODECS[view.getUint8(2)];
+  if (!codec) return null;
+  const langLength = view.getUint8(3);
+  const payloadStart = AUDIO_FRAME_HEADER_BYTES + langLength;
+  if (buffer.byteLength < payloadStart) return null;
+  const lang = new TextDecoder().decode(new Uint8Array(buffer, AUDIO_FRAME_HEADER_BYTES, langLength));
+  const sr = view.getUint32(8, true);
+  if (sr !== 24000) return null;
+  return {
+    t: "out_audio",
+    seq: view.getUint32(4, true),
+    sr,
+    data: buffer.slice(payloadStart),
+    codec,
+    ...(lang ? { lang } : {}),
+  };
 }
 
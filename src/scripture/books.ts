@@ -0,0 +1,39 @@
+/**
+ * Localized Bible book names for scripture cards
+ *
+ * One JSON file per app language in ./books (USFM code -> book name), loaded on first use.
+ * Missing names fall back to English; verse texts are in ./verses.
+ */
+
+/** Normalized reference as sent by the room (book = USFM code) */
+export interface ScriptureRef {
+  book: string;
+  chapter: number;
+  verse: number;
+  verseEnd?: number;
+}
+
+type BookNames = Record<string, string>;
+
+const FALLBACK_LANG = "en";
+
+const bookNames = new Map<string, Promise<BookNames | null>>();
+
+function loadBookNames(lang: string): Promise<BookNames | null> {
+  let names = bookNames.get(lang);
+  if (!names) {
+    names = import(`./books/${lang}.json`)
+      .then((module) => module.default as BookNames)
+      .catch(() => null);
+    bookNames.set(lang, names);
+  }
+  return names;
+}
+
+/** Reference in `lang` (null = English), e.g. "요한복음 3:16" */
+export async function passageTitle(ref: ScriptureRef, lang: string | null): Promise<string> {
+  const local = await loadBookNames(lang ?? FALLBACK_LANG);
+  const fallback = await loadBookNames(FALLBACK_LANG);
+  const book = local?.[ref.book] ?? fallback?.[ref.book] ?? ref.book;
+  return `${book} ${ref.chapter}:${ref.verse}${ref.verseEnd ? `-${ref.verseEnd}` : ""}`;
+}
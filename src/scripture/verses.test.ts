@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { passageText } from "./verses";
+
+describe("passageText", () => {
+  it("reads a verse or a range from the bundled edition", async () => {
+    expect(await passageText({ book: "JHN", chapter: 11, verse: 35 }, null)).toEqual({
+      text: "Jesus wept.",
+      edition: "World English Bible",
+    });
+    const psalm = await passageText({ book: "PSA", chapter: 23, verse: 1, verseEnd: 2 }, "en");
+    expect(psalm?.text).toBe("Yahweh is my shepherd: I shall lack nothing. He makes me to lie down in green pastures. He leads me beside still waters.");
+  });
+
+  it("cuts long ranges short", async () => {
+    const passage = await passageText({ book: "PSA", chapter: 119, verse: 1, verseEnd: 176 }, "en");
+    expect(passage?.text.endsWith(" …")).toBe(true);
+    expect(passage?.text.startsWith("Blessed are those whose ways are blameless")).toBe(true);
+  });
+
+  it("shows no text for verses past the end of a chapter or languages without an edition", async () => {
+    expect(await passageText({ book: "JUD", chapter: 1, verse: 26 }, "en")).toBeNull();
+    expect(await passageText({ book: "JHN", chapter: 3, verse: 16 }, "ko")).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Bundled public-domain verse texts for scripture cards
+ *
+ * One JSON file per book in ./text/<lang>/<USFM code>.json (chapters -> verses), loaded on
+ * first use. Editions and their licences are listed in ./text/LICENSE.md; languages without
+ * a bundled edition show the reference only.
+ */
+import type { ScriptureRef } from "./books";
+
+/** Edition shown under the verse text, for each language with a bundled text */
+const EDITIONS: Record<string, string> = {
+  en: "World English Bible",
+};
+
+const FALLBACK_LANG = "en";
+/** Longer ranges are cut short on the card */
+const MAX_PASSAGE_VERSES = 30;
+
+export interface PassageText {
+  text: string;
+  edition: string;
+}
+
+type BookText = string[][];
+
+const books = new Map<string, Promise<BookText | null>>();
+
+function loadBook(lang: string, book: string): Promise<BookText | null> {
+  const key = `${lang}/${book}`;
+  let text = books.get(key);
+  if (!text) {
+    text = import(`./text/${lang}/${book}.json`)
+      .then((module) => module.default as BookText)
+      .catch(() => null);
+    books.set(key, text);
+  }
+  return text;
+}
+
+/** Verse text in `lang` (null = English); null when the language has no bundled edition */
+export async function passageText(ref: ScriptureRef, lang: string | null): Promise<PassageText | null> {
+  const edition = EDITIONS[lang ?? FALLBACK_LANG];
+  if (!edition) return null;
+  const chapter = (await loadBook(lang ?? FALLBACK_LANG, ref.book))?.[ref.chapter - 1];
+  const last = Math.min(ref.verseEnd ?? ref.verse, ref.verse + MAX_PASSAGE_VERSES - 1);
+  const verses = chapter?.slice(ref.verse - 1, last) ?? [];
+  if (!verses.length) return null;
+  return { text: verses.join(" ") + ((ref.verseEnd ?? 0) > last ? " …" : ""), edition };
+}
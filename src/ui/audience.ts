@@ -1,10 +1,13 @@
 /**
  * Audience UI controller: receives translated text + audio
  */
-import { AudioPlayer } from "../audio/player";
+import { AudioPlayer, BEHIND_LIVE_S } from "../audio/player";
+import { isOpusDecodeSupported } from "../audio/opus";
 import { RoomClient } from "../room/client";
-import { RoomEvent } from "../room/protocol";
+import { CLOSE_CODES, LangTarget, RoomEvent } from "../room/protocol";
+import { API_BASE } from "../config";
 import { bindTranscriptFontSizeControls } from "./fontSizeControls";
+import { ScriptureCards } from "./scripture";
 import { TranscriptAccumulator } from "./transcript";
 
 interface AudienceElements {
@@ -12,8 +15,16 @@ interface AudienceElements {
   inputText: HTMLElement;
   outputText: HTMLElement;
   audioToggle: HTMLInputElement;
+  langSelect: HTMLSelectElement;
   inputLabel: HTMLElement;
   outputLabel: HTMLElement;
+  passcodeForm: HTMLFormElement;
+  passcodeInput: HTMLInputElement;
+  scriptureEl: HTMLElement;
+  /** Shown while the translated audio lags behind the captions */
+  behindLive: HTMLElement;
+  behindLiveText: HTMLElement;
+  jumpLiveBtn: HTMLButtonElement;
 }
 
 export class AudienceUI {
@@ -22,31 +33,180 @@ export class AudienceUI {
   private audioEnabled = false;
   private inputTranscript: TranscriptAccumulator;
   private outputTranscript: TranscriptAccumulator;
+  private targets: LangTarget[] = [];
+  private scripture: ScriptureCards;
+  private static readonly LANG_STORAGE_KEY = "sermon_translator_audienceLang_v1";
+  private selectedLang: string | null = localStorage.getItem(AudienceUI.LANG_STORAGE_KEY);
+  private opusSupported = isOpusDecodeSupported();
+  private static readonly PASSCODE_STORAGE_KEY = "sermon_translator_audiencePasscode_v1";
 
-  constructor(private els: AudienceElements, roomId: string) {
-    this.roomClient = new RoomClient(roomId, "audience");
+  constructor(private els: AudienceElements, private roomId: string, passcodeRequired = false) {
+    this.roomClient = new RoomClient(roomId, "audience", undefined, { autoReconnect: true });
+    this.roomClient.setLanguage(this.selectedLang);
     this.inputTranscript = new TranscriptAccumulator(els.inputText);
     this.outputTranscript = new TranscriptAccumulator(els.outputText);
     bindTranscriptFontSizeControls(els.inputText.closest(".card") as HTMLElement | null);
+    this.scripture = new ScriptureCards(els.scriptureEl, {
+      lang: () => this.targets.find((target) => target.code === this.selectedLang)?.code ?? this.targets[0]?.code ?? null,
+      actionLabel: "Close",
+      onAction: (id) => this.scripture.remove(id),
+    });
     this.bindEvents();
+    if (passcodeRequired) this.joinWithPasscode();
+    else this.connect();
+  }
+
+  private get passcodeStorageKey(): string {
+    return `${AudienceUI.PASSCODE_STORAGE_KEY}:${this.roomId}`;
+  }
+
+  /** Protected room: reuse the passcode from this tab session if it still works, else prompt */
+  private async joinWithPasscode(): Promise<void> {
+    const stored = sessionStorage.getItem(this.passcodeStorageKey);
+    try {
+      const token = stored ? await this.join(stored) : null;
+      if (token) {
+        this.roomClient.setToken(token);
+        this.connect();
+        return;
+      }
+      this.promptPasscode("This room requires a passcode");
+    } catch (err) {
+      this.promptPasscode((err as Error).message, "warn");
+    }
+  }
+
+  private promptPasscode(msg: string, level: "info" | "warn" | "error" = "info"): void {
+    sessionStorage.removeItem(this.passcodeStorageKey);
+    this.roomClient.setToken(undefined);
+    this.els.passcodeForm.style.display = "";
+    this.els.passcodeInput.value = "";
+    this.els.passcodeInput.focus();
+    this.setStatus(msg, level);
+  }
+
+  private async submitPasscode(): Promise<void> {
+    const passcode = this.els.passcodeInput.value;
+    if (!passcode) return;
+    let token: string | null;
+    try {
+      token = await this.join(passcode);
+    } catch (err) {
+      this.setStatus((err as Error).message, "error");
+      return;
+    }
+    if (!token) {
+      this.setStatus("Incorrect passcode", "error");
+      this.els.passcodeInput.select();
+      return;
+    }
+    sessionStorage.setItem(this.passcodeStorageKey, passcode);
+    this.els.passcodeForm.style.display = "none";
+    this.roomClient.setToken(token);
     this.connect();
   }
 
+  /**
+   * Check the passcode; a valid one gets the room token the connection uses (null = rejected).
+   * Throws while the room is refusing guesses after too many wrong ones.
+   */
+  private async join(passcode: string): Promise<string | null> {
+    let res: Response;
+    try {
+      res = await fetch(`${API_BASE}/api/rooms/${this.roomId}/join`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ passcode }),
+      });
+    } catch {
+      throw new Error("Could not reach the room — check your connection");
+    }
+    if (res.status === 429) {
+      const { retryAfter } = await res.json().catch(() => ({})) as { retryAfter?: number };
+      const wait = retryAfter && retryAfter >= 60 ? `${Math.ceil(retryAfter / 60)} min` : `${retryAfter ?? 60} s`;
+      throw new Error(`Too many passcode attempts — try again in ${wait}`);
+    }
+    if (!res.ok) return null;
+    const { valid, token } = await res.json() as { valid: boolean; token?: string | null };
+    return valid ? token ?? null : null;
+  }
+
+  /** Let the room count this listener's audio state for the speaker's presence view */
+  private reportState(): void {
+    this.roomClient.sendControl({ t: "listener_state", audio: this.audioEnabled });
+  }
+
   private bindEvents(): void {
     this.els.audioToggle.onchange = () => {
       this.audioEnabled = this.els.audioToggle.checked;
       if (this.audioEnabled) this.player.start();
       else this.player.stop();
+      this.showDelay(0);
+      this.reportState();
     };
+    this.player.onDelay = (seconds) => this.showDelay(seconds);
+    this.els.jumpLiveBtn.onclick = () => this.player.jumpToLive();
+    this.els.langSelect.onchange = () => this.switchLanguage(this.els.langSelect.value);
+    this.els.passcodeForm.onsubmit = (e) => {
+      e.preventDefault();
+      this.submitPasscode();
+    };
+  }
+
+  /** "Behind live" indicator for audio that fell behind (e.g. after a bad connection) */
+  private showDelay(seconds: number): void {
+    const behind = seconds >= BEHIND_LIVE_S;
+    this.els.behindLive.style.display = behind ? "" : "none";
+    if (behind) this.els.behindLiveText.textContent = `Audio ${Math.round(seconds)}s behind live`;
+  }
+
+  /** Resubscribe to another target language; the translation panel starts fresh */
+  private switchLanguage(lang: string): void {
+    if (lang === this.selectedLang) return;
+    this.selectedLang = lang;
+    localStorage.setItem(AudienceUI.LANG_STORAGE_KEY, lang);
+    this.outputTranscript.clear();
+    this.player.clear();
+    this.roomClient.disconnect();
+    this.roomClient.setLanguage(lang);
+    this.connect();
+  }
+
+  /** Rebuild the language picker from the targets the room is currently producing */
+  private updateLanguages(targets: LangTarget[]): void {
+    this.targets = targets;
+    const select = this.els.langSelect;
+    select.innerHTML = "";
+    for (const target of targets) select.add(new Option(target.name, target.code));
+    const current = this.targets.find((target) => target.code === this.selectedLang) ?? targets[0];
+    if (current) select.value = current.code;
+    select.style.display = targets.length > 1 ? "" : "none";
   }
 
   private async connect(): Promise<void> {
     this.setStatus("Connecting...");
-    this.roomClient.onOpen = () => this.setStatus("Connected");
-    this.roomClient.onClose = () => this.setStatus("Disconnected", "warn");
+    this.roomClient.onOpen = () => {
+      this.setStatus("Connected");
+      this.reportState();
+    };
+    this.roomClient.onClose = (code) => {
+      if (code === CLOSE_CODES.PASSCODE_CHANGED) {
+        this.promptPasscode("The passcode was changed — enter the new one to continue", "warn");
+      } else if (code === CLOSE_CODES.REMOVED) {
+        this.setStatus("You were removed from this room by the speaker", "error");
+      } else {
+        this.setStatus("Disconnected", "warn");
+      }
+    };
+    this.roomClient.onReconnecting = (attempt) => {
+      // Drop queued audio: it would be stale by the time we are back
+      this.player.clear();
+      this.setStatus(attempt > 1 ? `Reconnecting... (attempt ${attempt})` : "Reconnecting...", "warn");
+    };
     this.roomClient.onEvent = (event) => this.handleEvent(event);
 
     try {
+      this.roomClient.setCodecs(await this.opusSupported ? ["opus", "pcm16"] : ["pcm16"]);
       await this.roomClient.connect();
     } catch {
       this.setStatus("Connection failed", "error");
@@ -62,7 +222,7 @@ export class AudienceUI {
         this.outputTranscript.update(event.text, event.finished);
         break;
       case "out_audio":
-        if (this.audioEnabled) this.player.enqueue(event.b64);
+        if (this.audioEnabled) this.player.enqueue(event.data, event.codec);
         break;
       case "interrupt":
         this.player.clear();
@@ -70,10 +230,26 @@ export class AudienceUI {
       case "status":
         this.setStatus(event.msg, event.level);
         break;
-      case "lang_info":
-        this.els.inputLabel.textContent = `Original (${event.sourceLang})`;
-        this.els.outputLabel.textContent = `Translation (${event.targetLang})`;
+      case "gap":
+        this.inputTranscript.insertGap();
+        this.outputTranscript.insertGap();
+        this.setStatus("Reconnected — part of the sermon was missed while offline", "warn");
+        break;
+      case "scripture":
+        this.scripture.show(event);
+        break;
+      case "scripture_dismiss":
+        this.scripture.remove(event.id);
+        break;
+      case "lang_info": {
+        this.updateLanguages(event.targets ?? []);
+        const target = this.targets.find((t) => t.code === this.selectedLang)?.name ?? event.targetLang;
+        this.els.inputLabel.textContent = event.presenter
+          ? `Original (${event.sourceLang}) · ${event.presenter}`
+          : `Original (${event.sourceLang})`;
+        this.els.outputLabel.textContent = `Translation (${target})`;
         break;
+      }
     }
   }
 
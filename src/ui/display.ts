@@ -0,0 +1,143 @@
+/**
+ * Projector display: full-screen rolling captions for a side screen (/display/:roomId)
+ */
+import { RoomClient } from "../room/client";
+import { CLOSE_CODES, RoomEvent } from "../room/protocol";
+import { TranscriptAccumulator } from "./transcript";
+
+export interface DisplayElements {
+  root: HTMLElement;
+  sourceWindow: HTMLElement;
+  sourceText: HTMLElement;
+  captionWindow: HTMLElement;
+  captionText: HTMLElement;
+  statusEl: HTMLElement;
+}
+
+export const DISPLAY_THEMES = ["dark", "light", "contrast"] as const;
+export type DisplayTheme = (typeof DISPLAY_THEMES)[number];
+
+/** Display settings, taken from the URL (?lang=es&bilingual=1&theme=light&lines=2&kiosk=1&pass=...) */
+export interface DisplayOptions {
+  /** Target language; null follows the room default */
+  lang: string | null;
+  /** Show the original above the translation */
+  bilingual: boolean;
+  theme: DisplayTheme;
+  /** Translation lines visible at once (2-3) */
+  lines: number;
+  /** Hide the cursor and all chrome */
+  kiosk: boolean;
+  passcode: string | null;
+}
+
+export function parseDisplayOptions(params: URLSearchParams): DisplayOptions {
+  const theme = params.get("theme");
+  const lines = Number(params.get("lines"));
+  return {
+    lang: params.get("lang"),
+    bilingual: params.get("bilingual") === "1",
+    theme: DISPLAY_THEMES.includes(theme as DisplayTheme) ? (theme as DisplayTheme) : "dark",
+    lines: lines === 2 || lines === 3 ? lines : 3,
+    kiosk: params.get("kiosk") === "1",
+    passcode: params.get("pass"),
+  };
+}
+
+export class DisplayUI {
+  private roomClient: RoomClient;
+  private source: TranscriptAccumulator;
+  private captions: TranscriptAccumulator;
+  private static readonly LINE_HEIGHT = 1.3;
+  /** Original text is smaller and limited to two lines */
+  private static readonly SOURCE_SCALE = 0.6;
+  private static readonly SOURCE_LINES = 2;
+  /** Roughly the shortest line length (in characters) that stays readable from the back */
+  private static readonly MIN_CHARS_PER_LINE = 18;
+  private static readonly MAX_HISTORY_CHARS = 1000;
+
+  constructor(private els: DisplayElements, roomId: string, private options: DisplayOptions, passcodeRequired = false) {
+    this.roomClient = new RoomClient(roomId, "audience", undefined, {
+      autoReconnect: true,
+      ...(options.passcode ? { passcode: options.passcode } : {}),
+    });
+    this.roomClient.setLanguage(options.lang);
+    this.source = new TranscriptAccumulator(els.sourceText, DisplayUI.MAX_HISTORY_CHARS);
+    this.captions = new TranscriptAccumulator(els.captionText, DisplayUI.MAX_HISTORY_CHARS);
+
+    els.root.classList.add(`theme-${options.theme}`);
+    els.root.classList.toggle("kiosk", options.kiosk);
+    els.sourceWindow.style.display = options.bilingual ? "" : "none";
+    this.fit();
+    window.addEventListener("resize", () => this.fit());
+    els.root.ondblclick = () => this.toggleFullscreen();
+
+    if (passcodeRequired && !options.passcode) {
+      this.setStatus("This room requires a passcode — add &pass=… to the display URL");
+      return;
+    }
+    this.connect();
+  }
+
+  /** Scale the type so the configured lines fill the screen height without overflowing the width */
+  private fit(): void {
+    const { LINE_HEIGHT, SOURCE_SCALE, SOURCE_LINES, MIN_CHARS_PER_LINE } = DisplayUI;
+    const sourceEm = this.options.bilingual ? SOURCE_LINES * LINE_HEIGHT * SOURCE_SCALE : 0;
+    const heightEm = this.options.lines * LINE_HEIGHT + sourceEm + 1; // + spacing
+    const size = Math.min((window.innerHeight * 0.9) / heightEm, window.innerWidth / MIN_CHARS_PER_LINE);
+    this.els.root.style.fontSize = `${Math.floor(size)}px`;
+    this.els.captionWindow.style.height = `${this.options.lines * LINE_HEIGHT}em`;
+    this.els.sourceWindow.style.height = `${SOURCE_LINES * LINE_HEIGHT}em`;
+  }
+
+  private async toggleFullscreen(): Promise<void> {
+    try {
+      if (document.fullscreenElement) await document.exitFullscreen();
+      else await this.els.root.requestFullscreen();
+    } catch {
+      // Fullscreen not allowed (e.g. inside an iframe)
+    }
+  }
+
+  private async connect(): Promise<void> {
+    this.setStatus("Connecting…");
+    this.roomClient.onOpen = () => {
+      this.setStatus(null);
+      // Captions only: let the speaker's presence view count this screen as text-only
+      this.roomClient.sendControl({ t: "listener_state", audio: false });
+    };
+    this.roomClient.onReconnecting = () => this.setStatus("Reconnecting…");
+    this.roomClient.onClose = (code) => {
+      if (code === CLOSE_CODES.PASSCODE_CHANGED) this.setStatus("The room passcode changed — update the display URL");
+      else if (code === CLOSE_CODES.REMOVED) this.setStatus("This display was removed from the room");
+      else if (code === 1000) this.setStatus("The room has ended");
+    };
+    this.roomClient.onEvent = (event) => this.handleEvent(event);
+    try {
+      await this.roomClient.connect();
+    } catch {
+      this.setStatus("Connection failed — reload to retry");
+    }
+  }
+
+  private handleEvent(event: RoomEvent): void {
+    switch (event.t) {
+      case "in_text":
+        if (this.options.bilingual) this.source.update(event.text, event.finished);
+        break;
+      case "out_text":
+        this.captions.update(event.text, event.finished);
+        break;
+      case "gap":
+        this.source.insertGap();
+        this.captions.insertGap();
+        break;
+    }
+  }
+
+  /** Small corner notice; hidden (null) while captions are flowing */
+  private setStatus(msg: string | null): void {
+    this.els.statusEl.textContent = msg ?? "";
+    this.els.statusEl.style.display = msg ? "" : "none";
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Pre-recorded file input panel (speaker page): pick a file, choose real-time broadcast or
+ * batch translation, and follow / pause / seek the run. Batch runs produce a transcript here.
+ */
+import { FileAudioSource } from "../audio/fileSource";
+import { FileTranscript } from "./fileTranscript";
+
+export interface FileInputElements {
+  file: HTMLInputElement;
+  /** "realtime" (broadcast to the room) or "batch" (transcript + recording only) */
+  mode: HTMLSelectElement;
+  clearBtn: HTMLButtonElement;
+  pauseBtn: HTMLButtonElement;
+  seek: HTMLInputElement;
+  timeEl: HTMLElement;
+  statusEl: HTMLElement;
+  /** Batch transcript downloads */
+  resultsEl: HTMLElement;
+}
+
+function formatTime(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const h = Math.floor(total / 3600);
+  return `${h ? `${h}:` : ""}${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+}
+
+export class FileInputPanel {
+  private current: FileAudioSource | null = null;
+  private running = false;
+  /** The user is dragging the seek bar: don't move it under them */
+  private seeking = false;
+  private transcript: FileTranscript | null = null;
+
+  constructor(private els: FileInputElements) {
+    els.file.onchange = () => {
+      const file = els.file.files?.[0];
+      if (file) this.load(file);
+    };
+    els.clearBtn.onclick = () => this.clear();
+    els.pauseBtn.onclick = () => this.togglePause();
+    els.seek.oninput = () => {
+      this.seeking = true;
+      this.showTime(Number(els.seek.value));
+    };
+    els.seek.onchange = () => {
+      this.seeking = false;
+      this.current?.seek(Number(els.seek.value));
+    };
+    this.render();
+  }
+
+  /** Loaded file (null = use the microphone) */
+  get source(): FileAudioSource | null {
+    return this.current;
+  }
+
+  get batch(): boolean {
+    return this.current !== null && this.els.mode.value === "batch";
+  }
+
+  /** A run is in progress but the user paused it */
+  get paused(): boolean {
+    return this.running && this.current !== null && !this.current.playing;
+  }
+
+  private setStatus(msg: string, level: "info" | "warn" | "error" = "info"): void {
+    this.els.statusEl.textContent = msg;
+    this.els.statusEl.className = `status ${level}`;
+  }
+
+  private async load(file: File): Promise<void> {
+    this.els.file.disabled = true;
+    this.setStatus(`Decoding ${file.name}…`);
+    try {
+      const source = await FileAudioSource.fromFile(file);
+      source.onProgress = (ms) => {
+        if (this.seeking) return;
+        this.els.seek.value = String(ms);
+        this.showTime(ms);
+      };
+      this.current = source;
+      this.setStatus(`${file.name} · ${formatTime(source.durationMs)} — press Start to translate it instead of the microphone`);
+    } catch (err) {
+      this.current = null;
+      this.setStatus((err as Error).message, "error");
+    } finally {
+      this.els.file.value = "";
+      this.els.file.disabled = false;
+      this.render();
+    }
+  }
+
+  private clear(): void {
+    this.current = null;
+    this.setStatus("");
+    this.render();
+  }
+
+  private togglePause(): void {
+    if (!this.current || !this.running) return;
+    if (this.current.playing) this.current.pause();
+    else this.current.resume();
+    this.render();
+  }
+
+  /** Lock the selection while the file is being translated */
+  setRunning(running: boolean): void {
+    this.running = running;
+    this.render();
+  }
+
+  private showTime(ms: number): void {
+    this.els.timeEl.textContent = this.current ? `${formatTime(ms)} / ${formatTime(this.current.durationMs)}` : "";
+  }
+
+  private render(): void {
+    const loaded = this.current !== null;
+    this.els.mode.disabled = this.running;
+    this.els.file.disabled = this.running;
+    this.els.clearBtn.style.display = loaded ? "" : "none";
+    this.els.clearBtn.disabled = this.running;
+    this.els.pauseBtn.style.display = loaded ? "" : "none";
+    this.els.pauseBtn.disabled = !this.running;
+    this.els.pauseBtn.textContent = this.paused ? "Resume" : "Pause";
+    this.els.seek.style.display = loaded ? "" : "none";
+    this.els.timeEl.style.display = loaded ? "" : "none";
+    if (this.current) {
+      this.els.seek.max = String(Math.floor(this.current.durationMs));
+      this.els.seek.value = String(this.current.positionMs);
+      this.showTime(this.current.positionMs);
+    }
+  }
+
+  /** Batch run started: collect its transcript */
+  startTranscript(source: { code: string; name: string }, targets: { code: string; name: string }[]): void {
+    if (!this.current) return;
+    this.transcript = new FileTranscript(this.current.name, source, targets);
+  }
+
+  /** `stream`: the source language code for the original, otherwise the target code */
+  transcribe(stream: string, text: string, finished?: boolean, cumulative = false): void {
+    if (this.transcript && this.current) this.transcript.update(stream, text, finished, cumulative, this.current.positionMs);
+  }
+
+  /** Batch run ended: offer the transcript for download */
+  finishTranscript(): void {
+    const transcript = this.transcript;
+    this.transcript = null;
+    if (!transcript) return;
+    transcript.finish();
+    if (transcript.isEmpty) return;
+
+    const row = document.createElement("div");
+    row.className = "listener-row";
+    const label = document.createElement("span");
+    label.textContent = `${transcript.fileName} · transcript`;
+    const actions = document.createElement("span");
+    const base = transcript.fileName.replace(/\.[^.]+$/, "");
+    actions.append(this.downloadButton("TXT", () => new Blob([transcript.toText()], { type: "text/plain" }), `${base}.txt`));
+    for (const lang of transcript.languages) {
+      const blob = () => new Blob([transcript.toSrt(lang.code)], { type: "application/x-subrip" });
+      actions.append(this.downloadButton(`SRT ${lang.code.toUpperCase()}`, blob, `${base}.${lang.code}.srt`));
+    }
+    row.append(label, actions);
+    this.els.resultsEl.append(row);
+  }
+
+  private downloadButton(label: string, blob: () => Blob, fileName: string): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = label;
+    button.onclick = () => {
+      const url = URL.createObjectURL(blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    };
+    return button;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Transcript of a batch file translation, timed by position in the file
+ *
+ * Batch runs don't go through the room, so the segmenting the room does for live sessions
+ * happens here: a phrase ends at a sentence end, a `finished` flag or a long pause.
+ */
+import { mergeFragment, phraseEnded } from "../../shared/transcriptText";
+
+export interface FileCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const PAUSE_SPLIT_MS = 3000;
+const MIN_CUE_MS = 1000;
+
+/** HH:MM:SS<sep>mmm */
+function timestamp(ms: number, sep: string): string {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (n: number, w = 2) => String(n).padStart(w, "0");
+  return `${pad(Math.floor(total / 3_600_000))}:${pad(Math.floor(total / 60_000) % 60)}:${pad(Math.floor(total / 1000) % 60)}${sep}${pad(total % 1000, 3)}`;
+}
+
+export class FileTranscript {
+  /** Cues per stream: the source language code for the original, otherwise a target code */
+  private cues = new Map<string, FileCue[]>();
+  private open = new Map<string, { text: string; start: number; last: number }>();
+
+  constructor(
+    readonly fileName: string,
+    readonly source: { code: string; name: string },
+    readonly targets: { code: string; name: string }[],
+  ) {}
+
+  get isEmpty(): boolean {
+    return ![...this.cues.values()].some((cues) => cues.length);
+  }
+
+  /** Languages with at least one cue, source first */
+  get languages(): { code: string; name: string }[] {
+    return [this.source, ...this.targets].filter((lang) => this.cues.get(lang.code)?.length);
+  }
+
+  update(stream: string, text: string, finished: boolean | undefined, cumulative: boolean, positionMs: number): void {
+    const trimmed = text.trim();
+    let current = this.open.get(stream);
+    if (current && positionMs - current.last > PAUSE_SPLIT_MS) {
+      this.close(stream);
+      current = undefined;
+    }
+    if (trimmed) {
+      if (!current) {
+        current = { text: trimmed, start: positionMs, last: positionMs };
+        this.open.set(stream, current);
+      } else {
+        current.text = mergeFragment(current.text, text, cumulative);
+      }
+      current.last = positionMs;
+    }
+    if (current && phraseEnded(current.text, finished, cumulative)) {
+      this.close(stream);
+    }
+  }
+
+  /** Close every open phrase (the run ended) */
+  finish(): void {
+    for (const stream of [...this.open.keys()]) this.close(stream);
+  }
+
+  private close(stream: string): void {
+    const phrase = this.open.get(stream);
+    this.open.delete(stream);
+    if (!phrase?.text) return;
+    const cues = this.cues.get(stream) ?? [];
+    cues.push({ text: phrase.text, start: phrase.start, end: Math.max(phrase.last, phrase.start + MIN_CUE_MS) });
+    this.cues.set(stream, cues);
+  }
+
+  toSrt(lang: string): string {
+    return (this.cues.get(lang) ?? [])
+      .map((cue, i) => `${i + 1}\n${timestamp(cue.start, ",")} --> ${timestamp(cue.end, ",")}\n${cue.text}\n`)
+      .join("\n");
+  }
+
+  /** Every language interleaved by time, one line per cue */
+  toText(): string {
+    const lines = this.languages
+      .flatMap((lang) => (this.cues.get(lang.code) ?? []).map((cue) => ({ ...cue, lang: lang.code })))
+      .sort((a, b) => a.start - b.start)
+      .map((cue) => `[${timestamp(cue.start, ".").slice(0, 8)}] ${cue.lang.toUpperCase()}  ${cue.text}`);
+    const header = `${this.fileName} — ${this.source.name} → ${this.targets.map((t) => t.name).join(", ")}`;
+    return `${header}\n\n${lines.join("\n")}\n`;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Glossary editor: term pairs per language pair, stored with the room
+ */
+import { API_BASE, LANGUAGES } from "../config";
+import { GLOSSARY_LIMITS, GlossaryEntry, glossaryFromCsv, glossaryToCsv } from "../live/glossary";
+
+export interface GlossaryElements {
+  sourceLang: HTMLSelectElement;
+  targetLang: HTMLSelectElement;
+  rows: HTMLElement;
+  addBtn: HTMLButtonElement;
+  saveBtn: HTMLButtonElement;
+  importInput: HTMLInputElement;
+  exportBtn: HTMLButtonElement;
+  statusEl: HTMLElement;
+}
+
+export class GlossaryEditor {
+  private entries: GlossaryEntry[] = [];
+
+  constructor(private els: GlossaryElements, private roomId: string, private speakerKey: string) {
+    for (const lang of LANGUAGES) els.targetLang.add(new Option(lang.name, lang.code));
+    els.targetLang.value = "en";
+    this.bindEvents();
+    this.render();
+    this.load();
+  }
+
+  /** Current entries for all language pairs (including unsaved edits) */
+  getEntries(): GlossaryEntry[] {
+    return this.entries.filter((e) => e.source.trim() && e.target.trim());
+  }
+
+  private bindEvents(): void {
+    this.els.sourceLang.addEventListener("change", () => this.render());
+    this.els.targetLang.onchange = () => this.render();
+    this.els.addBtn.onclick = () => this.addRow();
+    this.els.saveBtn.onclick = () => this.save();
+    this.els.exportBtn.onclick = () => this.exportCsv();
+    this.els.importInput.onchange = () => this.importCsv();
+  }
+
+  private get pair(): { sourceLang: string; targetLang: string } {
+    return { sourceLang: this.els.sourceLang.value, targetLang: this.els.targetLang.value };
+  }
+
+  private setStatus(msg: string, level: "info" | "warn" | "error" = "info"): void {
+    this.els.statusEl.textContent = msg;
+    this.els.statusEl.className = `status ${level}`;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const res = await fetch(`${API_BASE}/api/rooms/${this.roomId}/glossary?key=${encodeURIComponent(this.speakerKey)}`);
+      if (!res.ok) throw new Error("Failed to load glossary");
+      const { entries } = await res.json() as { entries: GlossaryEntry[] };
+      this.entries = entries;
+      this.render();
+    } catch (err) {
+      this.setStatus((err as Error).message, "error");
+    }
+  }
+
+  private async save(): Promise<void> {
+    this.els.saveBtn.disabled = true;
+    try {
+      const res = await fetch(`${API_BASE}/api/rooms/${this.roomId}/glossary`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ speakerKey: this.speakerKey, entries: this.getEntries() }),
+      });
+      if (!res.ok) throw new Error("Failed to save glossary");
+      const { entries } = await res.json() as { entries: GlossaryEntry[] };
+      this.entries = entries;
+      this.render();
+      this.setStatus(`Saved ${entries.length} terms — applied when translation starts`);
+    } catch (err) {
+      this.setStatus((err as Error).message, "error");
+    } finally {
+      this.els.saveBtn.disabled = false;
+    }
+  }
+
+  private addRow(): void {
+    if (this.entries.length >= GLOSSARY_LIMITS.MAX_ENTRIES) {
+      this.setStatus(`Glossary is limited to ${GLOSSARY_LIMITS.MAX_ENTRIES} terms`, "warn");
+      return;
+    }
+    this.entries.push({ ...this.pair, source: "", target: "" });
+    this.render();
+    this.els.rows.querySelector<HTMLInputElement>(".glossary-row:last-child input")?.focus();
+  }
+
+  private render(): void {
+    const { sourceLang, targetLang } = this.pair;
+    this.els.rows.innerHTML = "";
+    for (const entry of this.entries) {
+      if (entry.sourceLang !== sourceLang || entry.targetLang !== targetLang) continue;
+      const row = document.createElement("div");
+      row.className = "glossary-row";
+      const source = this.termInput(entry.source, "Term as spoken", (v) => { entry.source = v; });
+      const target = this.termInput(entry.target, "Required translation", (v) => { entry.target = v; });
+      const remove = document.createElement("button");
+      remove.type = "button";
+      remove.textContent = "×";
+      remove.title = "Remove term";
+      remove.onclick = () => {
+        this.entries = this.entries.filter((e) => e !== entry);
+        this.render();
+      };
+      row.append(source, target, remove);
+      this.els.rows.append(row);
+    }
+    if (!this.els.rows.childElementCount) {
+      this.els.rows.textContent = "No terms for this language pair yet.";
+    }
+  }
+
+  private termInput(value: string, placeholder: string, onInput: (value: string) => void): HTMLInputElement {
+    const input = document.createElement("input");
+    input.type = "text";
+    input.value = value;
+    input.placeholder = placeholder;
+    input.maxLength = GLOSSARY_LIMITS.MAX_TERM_LENGTH;
+    input.oninput = () => onInput(input.value);
+    return input;
+  }
+
+  private exportCsv(): void {
+    const blob = new Blob([glossaryToCsv(this.getEntries())], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `glossary-${this.roomId}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /** Merge imported rows, replacing existing renderings of the same term */
+  private async importCsv(): Promise<void> {
+    const file = this.els.importInput.files?.[0];
+    this.els.importInput.value = "";
+    if (!file) return;
+    try {
+      const { entries: imported, unknownLangRows } = glossaryFromCsv(await file.text());
+      const key = (e: GlossaryEntry) => `${e.sourceLang}\u0000${e.targetLang}\u0000${e.source}`;
+      const merged = new Map(this.entries.map((e) => [key(e), e]));
+      for (const entry of imported) merged.set(key(entry), entry);
+      const all = [...merged.values()];
+      this.entries = all.slice(0, GLOSSARY_LIMITS.MAX_ENTRIES);
+      this.render();
+
+      const notes: string[] = [];
+      if (unknownLangRows.length) {
+        const rows = unknownLangRows.slice(0, 5).join(", ") + (unknownLangRows.length > 5 ? ", …" : "");
+        notes.push(`skipped ${unknownLangRows.length} with unknown language codes (rows ${rows})`);
+      }
+      const dropped = all.length - this.entries.length;
+      if (dropped > 0) notes.push(`dropped ${dropped} over the ${GLOSSARY_LIMITS.MAX_ENTRIES}-term limit`);
+      const added = imported.length - Math.max(0, dropped);
+      this.setStatus(`Imported ${added} terms${notes.length ? `; ${notes.join("; ")}` : ""} — press Save to keep them`, "warn");
+    } catch (err) {
+      this.setStatus((err as Error).message, "error");
+    }
+  }
+}
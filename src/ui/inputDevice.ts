@@ -0,0 +1,193 @@
+/**
+ * Input panel (speaker page): capture device, browser processing, gain and a level meter
+ * with clipping / no-signal warnings. Settings are remembered per browser.
+ */
+import { DEFAULT_RECORDER_OPTIONS, InputLevel, RecorderOptions } from "../audio/recorder";
+
+export interface InputDeviceElements {
+  device: HTMLSelectElement;
+  noiseSuppression: HTMLInputElement;
+  autoGain: HTMLInputElement;
+  /** Gain in dB */
+  gain: HTMLInputElement;
+  gainLabel: HTMLElement;
+  /** Meter bar; its width follows the level */
+  meterFill: HTMLElement;
+  statusEl: HTMLElement;
+}
+
+interface StoredInput {
+  deviceId: string;
+  /** Device ids can change (e.g. after clearing site data): the label finds it again */
+  deviceLabel: string;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  gainDb: number;
+}
+
+const METER_FLOOR_DB = -60;
+const CLIP_PEAK = 0.99;
+const CLIP_HOLD_MS = 2000;
+const SILENCE_DB = -55;
+const SILENCE_WARN_MS = 10_000;
+const NOTICE_MS = 5000;
+
+function toDb(value: number): number {
+  return value > 0 ? 20 * Math.log10(value) : -Infinity;
+}
+
+/** Why capture could not fall back to any input */
+function noInputWarning(error: Error | undefined): string {
+  switch (error?.name) {
+    case "NotAllowedError":
+      return "Microphone access was revoked — allow it in the browser's site settings";
+    case "NotReadableError":
+      return "The input is in use by another application or could not be opened";
+    default:
+      return "No input device — reconnect the audio interface";
+  }
+}
+
+export class InputDevicePanel {
+  private static readonly STORAGE_KEY = "sermon_translator_input_v1";
+  private stored: StoredInput;
+  private clipUntil = 0;
+  private silentSince: number | null = null;
+  private deviceWarning: string | null = null;
+  /** Short-lived info message (e.g. the chosen device is back) */
+  private notice: { msg: string; until: number } | null = null;
+  /** Settings changed (apply them to a running capture) */
+  onChange?: () => void;
+
+  constructor(private els: InputDeviceElements) {
+    this.stored = this.load();
+    els.noiseSuppression.checked = this.stored.noiseSuppression;
+    els.autoGain.checked = this.stored.autoGainControl;
+    els.gain.value = String(this.stored.gainDb);
+    this.showGain();
+
+    els.device.onchange = () => {
+      this.stored.deviceId = els.device.value;
+      this.stored.deviceLabel = els.device.value ? els.device.selectedOptions[0]?.text ?? "" : "";
+      this.changed();
+    };
+    els.noiseSuppression.onchange = () => {
+      this.stored.noiseSuppression = els.noiseSuppression.checked;
+      this.changed();
+    };
+    els.autoGain.onchange = () => {
+      this.stored.autoGainControl = els.autoGain.checked;
+      this.changed();
+    };
+    els.gain.oninput = () => {
+      this.stored.gainDb = Number(els.gain.value);
+      this.showGain();
+      this.changed();
+    };
+    navigator.mediaDevices?.addEventListener("devicechange", () => this.refreshDevices());
+    this.refreshDevices();
+  }
+
+  private load(): StoredInput {
+    const defaults: StoredInput = {
+      deviceId: DEFAULT_RECORDER_OPTIONS.deviceId,
+      deviceLabel: "",
+      noiseSuppression: DEFAULT_RECORDER_OPTIONS.noiseSuppression,
+      autoGainControl: DEFAULT_RECORDER_OPTIONS.autoGainControl,
+      gainDb: 0,
+    };
+    try {
+      const raw = localStorage.getItem(InputDevicePanel.STORAGE_KEY);
+      return raw ? { ...defaults, ...JSON.parse(raw) as Partial<StoredInput> } : defaults;
+    } catch {
+      return defaults;
+    }
+  }
+
+  private changed(): void {
+    localStorage.setItem(InputDevicePanel.STORAGE_KEY, JSON.stringify(this.stored));
+    this.onChange?.();
+  }
+
+  options(): RecorderOptions {
+    return {
+      deviceId: this.stored.deviceId,
+      noiseSuppression: this.stored.noiseSuppression,
+      autoGainControl: this.stored.autoGainControl,
+      gain: 10 ** (this.stored.gainDb / 20),
+    };
+  }
+
+  private showGain(): void {
+    const db = this.stored.gainDb;
+    this.els.gainLabel.textContent = `${db > 0 ? "+" : ""}${db} dB`;
+  }
+
+  /** List inputs (names appear once the page has mic permission) */
+  async refreshDevices(): Promise<void> {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const inputs = (await navigator.mediaDevices.enumerateDevices()).filter((d) => d.kind === "audioinput" && d.deviceId !== "default");
+    // Re-find the remembered device by name if its id changed
+    if (this.stored.deviceId && !inputs.some((d) => d.deviceId === this.stored.deviceId)) {
+      const byLabel = inputs.find((d) => d.label && d.label === this.stored.deviceLabel);
+      if (byLabel) {
+        this.stored.deviceId = byLabel.deviceId;
+        this.changed();
+      }
+    }
+    const select = this.els.device;
+    select.innerHTML = "";
+    select.add(new Option("Default input", ""));
+    inputs.forEach((d, i) => select.add(new Option(d.label || `Input ${i + 1}`, d.deviceId)));
+    if (this.stored.deviceId && !inputs.some((d) => d.deviceId === this.stored.deviceId)) {
+      // Keep the choice visible while the device is unplugged
+      select.add(new Option(`${this.stored.deviceLabel || "Selected input"} (not connected)`, this.stored.deviceId));
+    }
+    select.value = this.stored.deviceId;
+  }
+
+  showLevel(level: InputLevel, now = Date.now()): void {
+    const rmsDb = toDb(level.rms);
+    const percent = Math.max(0, Math.min(100, ((rmsDb - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+    this.els.meterFill.style.width = `${percent}%`;
+    if (level.peak >= CLIP_PEAK) this.clipUntil = now + CLIP_HOLD_MS;
+    const clipping = now < this.clipUntil;
+    this.els.meterFill.classList.toggle("clip", clipping);
+
+    if (rmsDb < SILENCE_DB) this.silentSince ??= now;
+    else this.silentSince = null;
+    const silent = this.silentSince !== null && now - this.silentSince >= SILENCE_WARN_MS;
+
+    if (this.deviceWarning) this.setStatus(this.deviceWarning, "warn");
+    else if (clipping) this.setStatus("Clipping — lower the gain or the mixer output", "error");
+    else if (silent) this.setStatus("No input signal — check the selected input and cable", "warn");
+    else this.setStatus(this.notice && now < this.notice.until ? this.notice.msg : "");
+  }
+
+  /** The recorder switched devices by itself (see AudioRecorder.onDeviceChange) */
+  showDevice(label: string | null, fallback: boolean, error?: Error): void {
+    if (label === null) this.deviceWarning = noInputWarning(error);
+    else if (fallback) this.deviceWarning = `Selected input disconnected — using ${label || "the default input"}`;
+    else this.deviceWarning = null;
+    this.notice = this.deviceWarning ? null : { msg: `Back on ${label}`, until: Date.now() + NOTICE_MS };
+    this.setStatus(this.deviceWarning ?? this.notice!.msg, this.deviceWarning ? "warn" : "info");
+    this.refreshDevices();
+  }
+
+  /** Capture stopped */
+  reset(): void {
+    this.els.meterFill.style.width = "0%";
+    this.els.meterFill.classList.remove("clip");
+    this.clipUntil = 0;
+    this.silentSince = null;
+    this.deviceWarning = null;
+    this.notice = null;
+    this.setStatus("");
+  }
+
+  private setStatus(msg: string, level: "info" | "warn" | "error" = "info"): void {
+    if (this.els.statusEl.textContent === msg && this.els.statusEl.classList.contains(level)) return;
+    this.els.statusEl.textContent = msg;
+    this.els.statusEl.className = `status ${level}`;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Livestream caption overlay for OBS browser sources (/overlay/:roomId)
+ *
+ * Transparent page showing the latest phrases as broadcast-style caption blocks
+ * that fade out after a pause. Everything is configured through the query string.
+ */
+import { RoomClient } from "../room/client";
+import { RoomEvent } from "../room/protocol";
+import { PhraseTracker } from "./transcript";
+
+export interface OverlayElements {
+  root: HTMLElement;
+  captions: HTMLElement;
+}
+
+const POSITIONS = ["top", "middle", "bottom"] as const;
+const ALIGNMENTS = ["left", "center", "right"] as const;
+
+/**
+ * ?text=out|in&lang=es&font=Arial&size=42&color=ffffff&bg=000000b3&position=bottom&align=center
+ *  &lines=2&hold=6&fade=500&pass=...
+ */
+export interface OverlayOptions {
+  /** Translation (out) or original (in) */
+  text: "out" | "in";
+  lang: string | null;
+  font: string | null;
+  /** Font size in px */
+  size: number;
+  color: string;
+  /** Caption box background (any CSS color; transparent for text only) */
+  background: string;
+  position: (typeof POSITIONS)[number];
+  align: (typeof ALIGNMENTS)[number];
+  /** Caption lines visible at once */
+  lines: number;
+  /** Seconds a caption stays after the last update (0 = until replaced) */
+  holdSeconds: number;
+  /** Fade-out duration in ms */
+  fadeMs: number;
+  passcode: string | null;
+}
+
+/** Hex colors may be given without "#" (it needs escaping in URLs) */
+function parseColor(value: string | null, fallback: string): string {
+  if (!value) return fallback;
+  const color = /^[0-9a-f]{3,8}$/i.test(value) ? `#${value}` : value;
+  return CSS.supports("color", color) ? color : fallback;
+}
+
+function parseNumber(value: string | null, fallback: number, min: number, max: number): number {
+  const n = value === null ? NaN : Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+}
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+export function parseOverlayOptions(params: URLSearchParams): OverlayOptions {
+  return {
+    text: params.get("text") === "in" ? "in" : "out",
+    lang: params.get("lang"),
+    font: params.get("font"),
+    size: parseNumber(params.get("size"), 42, 12, 200),
+    color: parseColor(params.get("color"), "#ffffff"),
+    background: parseColor(params.get("bg"), "rgba(0, 0, 0, 0.7)"),
+    position: oneOf(params.get("position"), POSITIONS, "bottom"),
+    align: oneOf(params.get("align"), ALIGNMENTS, "center"),
+    lines: Math.round(parseNumber(params.get("lines"), 2, 1, 6)),
+    holdSeconds: parseNumber(params.get("hold"), 6, 0, 600),
+    fadeMs: parseNumber(params.get("fade"), 500, 0, 10_000),
+    passcode: params.get("pass"),
+  };
+}
+
+export class OverlayUI {
+  private roomClient: RoomClient;
+  private phrases = new PhraseTracker();
+  /** Completed phrases still on screen, oldest first */
+  private blocks: HTMLElement[] = [];
+  private currentBlock: HTMLElement | null = null;
+  private holdTimer: number | null = null;
+  private clearTimer: number | null = null;
+  private static readonly LINE_HEIGHT = 1.35;
+  /** Unattended browser source: keep retrying if the first connection fails */
+  private static readonly CONNECT_RETRY_MS = 10_000;
+
+  constructor(private els: OverlayElements, roomId: string, private options: OverlayOptions) {
+    this.roomClient = new RoomClient(roomId, "audience", undefined, {
+      autoReconnect: true,
+      ...(options.passcode ? { passcode: options.passcode } : {}),
+    });
+    this.roomClient.setLanguage(options.lang);
+    this.applyStyle();
+    this.connect();
+  }
+
+  private applyStyle(): void {
+    const { root, captions } = this.els;
+    const o = this.options;
+    root.classList.add(`overlay-${o.position}`);
+    root.style.textAlign = o.align;
+    root.style.setProperty("--caption-color", o.color);
+    root.style.setProperty("--caption-bg", o.background);
+    root.style.setProperty("--caption-fade", `${o.fadeMs}ms`);
+    captions.style.fontSize = `${o.size}px`;
+    captions.style.lineHeight = String(OverlayUI.LINE_HEIGHT);
+    captions.style.maxHeight = `${o.lines * OverlayUI.LINE_HEIGHT}em`;
+    if (o.font) captions.style.fontFamily = `"${o.font.replace(/["\\]/g, "")}", sans-serif`;
+  }
+
+  private async connect(): Promise<void> {
+    this.roomClient.onOpen = () => this.roomClient.sendControl({ t: "listener_state", audio: false });
+    this.roomClient.onClose = (code, reason) => console.warn(`Overlay disconnected (${code}${reason ? `: ${reason}` : ""})`);
+    this.roomClient.onEvent = (event) => this.handleEvent(event);
+    try {
+      await this.roomClient.connect();
+    } catch {
+      console.warn("Overlay connection failed; retrying");
+      window.setTimeout(() => this.connect(), OverlayUI.CONNECT_RETRY_MS);
+    }
+  }
+
+  private handleEvent(event: RoomEvent): void {
+    if (event.t === "out_text" && this.options.text === "out") this.update(event.text, event.finished);
+    else if (event.t === "in_text" && this.options.text === "in") this.update(event.text, event.finished);
+  }
+
+  private update(text: string, finished?: boolean): void {
+    if (!text.trim()) return;
+    if (this.phrases.update(text, finished) !== null) this.completeBlock();
+    if (!this.currentBlock) {
+      this.currentBlock = OverlayUI.createBlock();
+      this.els.captions.append(this.currentBlock);
+    }
+    this.currentBlock.firstElementChild!.textContent = this.phrases.current;
+    this.show();
+  }
+
+  /** The current block becomes history; only as many blocks as can be visible are kept */
+  private completeBlock(): void {
+    if (!this.currentBlock) return;
+    this.blocks.push(this.currentBlock);
+    this.currentBlock = null;
+    while (this.blocks.length >= this.options.lines) this.blocks.shift()!.remove();
+  }
+
+  private static createBlock(): HTMLElement {
+    const block = document.createElement("div");
+    block.className = "caption-block";
+    block.append(document.createElement("span"));
+    return block;
+  }
+
+  private show(): void {
+    if (this.clearTimer !== null) clearTimeout(this.clearTimer);
+    this.clearTimer = null;
+    this.els.root.classList.remove("faded");
+    if (this.holdTimer !== null) clearTimeout(this.holdTimer);
+    this.holdTimer = this.options.holdSeconds > 0
+      ? window.setTimeout(() => this.fadeOut(), this.options.holdSeconds * 1000)
+      : null;
+  }
+
+  /** Pause in speech: fade everything out, then start the next caption on a clean slate */
+  private fadeOut(): void {
+    this.holdTimer = null;
+    this.els.root.classList.add("faded");
+    this.clearTimer = window.setTimeout(() => {
+      this.clearTimer = null;
+      this.phrases.commit();
+      for (const block of this.blocks) block.remove();
+      this.currentBlock?.remove();
+      this.blocks = [];
+      this.currentBlock = null;
+    }, this.options.fadeMs);
+  }
+}
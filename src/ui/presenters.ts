@@ -0,0 +1,129 @@
+/**
+ * Presenters panel: named speaker links for guest preachers / worship leaders (host only)
+ */
+import { API_BASE } from "../config";
+
+export interface PresentersElements {
+  nameInput: HTMLInputElement;
+  addBtn: HTMLButtonElement;
+  listEl: HTMLElement;
+  statusEl: HTMLElement;
+}
+
+/** Presenter credential as returned to the host */
+export interface Presenter {
+  id: string;
+  name: string;
+  key: string;
+}
+
+/** Who the current speaker page belongs to */
+export interface PresenterIdentity {
+  id: string;
+  name: string;
+  owner: boolean;
+}
+
+/** Caller identity (+ the presenter list when the caller is the host); null for unknown keys */
+export async function fetchPresenters(
+  roomId: string,
+  speakerKey: string
+): Promise<{ self: PresenterIdentity; presenters: Presenter[] } | null> {
+  const params = new URLSearchParams({ key: speakerKey });
+  const res = await fetch(`${API_BASE}/api/rooms/${roomId}/presenters?${params}`);
+  if (!res.ok) return null;
+  return await res.json();
+}
+
+export class PresentersPanel {
+  private presenters: Presenter[];
+
+  constructor(private els: PresentersElements, private roomId: string, private speakerKey: string, presenters: Presenter[]) {
+    this.presenters = presenters;
+    this.els.addBtn.onclick = () => this.add();
+    this.render();
+  }
+
+  private setStatus(msg: string, level: "info" | "warn" | "error" = "info"): void {
+    this.els.statusEl.textContent = msg;
+    this.els.statusEl.className = `status ${level}`;
+  }
+
+  private linkFor(presenter: Presenter): string {
+    return `${location.origin}/speaker/${this.roomId}?speakerKey=${presenter.key}`;
+  }
+
+  private async add(): Promise<void> {
+    const name = this.els.nameInput.value.trim();
+    if (!name) return;
+    this.els.addBtn.disabled = true;
+    try {
+      const res = await fetch(`${API_BASE}/api/rooms/${this.roomId}/presenters`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ speakerKey: this.speakerKey, name }),
+      });
+      if (!res.ok) {
+        const { error } = await res.json() as { error?: string };
+        throw new Error(error ?? "Failed to add presenter");
+      }
+      const { presenter } = await res.json() as { presenter: Presenter };
+      this.presenters.push(presenter);
+      this.els.nameInput.value = "";
+      this.render();
+      this.setStatus(`Added ${presenter.name} — copy their link and send it to them`);
+    } catch (err) {
+      this.setStatus((err as Error).message, "error");
+    } finally {
+      this.els.addBtn.disabled = false;
+    }
+  }
+
+  private async remove(presenter: Presenter): Promise<void> {
+    if (!confirm(`Remove ${presenter.name}? Their link stops working immediately.`)) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/rooms/${this.roomId}/presenters/${presenter.id}`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ speakerKey: this.speakerKey }),
+      });
+      if (!res.ok) throw new Error("Failed to remove presenter");
+      const { presenters } = await res.json() as { presenters: Presenter[] };
+      this.presenters = presenters;
+      this.render();
+      this.setStatus(`Removed ${presenter.name}`);
+    } catch (err) {
+      this.setStatus((err as Error).message, "error");
+    }
+  }
+
+  private render(): void {
+    const el = this.els.listEl;
+    el.innerHTML = "";
+    if (!this.presenters.length) {
+      el.textContent = "Only you can present. Add presenters to hand off during the service.";
+      return;
+    }
+    for (const presenter of this.presenters) {
+      const row = document.createElement("div");
+      row.className = "listener-row";
+      const label = document.createElement("span");
+      label.textContent = presenter.name;
+      const actions = document.createElement("span");
+      const copy = document.createElement("button");
+      copy.type = "button";
+      copy.textContent = "Copy link";
+      copy.onclick = async () => {
+        await navigator.clipboard.writeText(this.linkFor(presenter));
+        this.setStatus(`Copied ${presenter.name}'s speaker link`);
+      };
+      const remove = document.createElement("button");
+      remove.type = "button";
+      remove.textContent = "Remove";
+      remove.onclick = () => this.remove(presenter);
+      actions.append(copy, " ", remove);
+      row.append(label, actions);
+      el.append(row);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Recordings panel: captures the translated voice per session and target language
+ * (speaker page; kept in memory until the page is closed)
+ */
+import { isOpusEncodeSupported } from "../audio/opus";
+import { TranslationRecording } from "../audio/translationRecording";
+
+export interface RecordingsElements {
+  /** Record the next session */
+  enabled: HTMLInputElement;
+  /** Minimum chapter length in minutes ("0" = no chapters) */
+  chapters: HTMLSelectElement;
+  listEl: HTMLElement;
+  statusEl: HTMLElement;
+}
+
+interface RecordingSession {
+  startedAt: number;
+  recordings: Map<string, TranslationRecording>;
+}
+
+function formatDuration(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const h = Math.floor(total / 3600);
+  return `${h ? `${h}:` : ""}${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+}
+
+function clockTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+export class RecordingsPanel {
+  private sessions: RecordingSession[] = [];
+  private current: RecordingSession | null = null;
+  private chapterIntervalMs: number | null = null;
+  private opusSupported = false;
+  private renderTimer: number | null = null;
+  private static readonly RENDER_INTERVAL_MS = 5000;
+
+  constructor(private els: RecordingsElements, private roomId: string) {
+    isOpusEncodeSupported().then((supported) => {
+      this.opusSupported = supported;
+      this.render();
+    });
+  }
+
+  private setStatus(msg: string, level: "info" | "warn" | "error" = "info"): void {
+    this.els.statusEl.textContent = msg;
+    this.els.statusEl.className = `status ${level}`;
+  }
+
+  /** Streaming started: record each target language if recording is enabled (or `always`) */
+  startSession(targets: { code: string; name: string }[], always = false): void {
+    this.endSession();
+    if (!always && !this.els.enabled.checked) return;
+    const minutes = Number(this.els.chapters.value);
+    this.chapterIntervalMs = minutes > 0 ? minutes * 60_000 : null;
+    this.current = { startedAt: Date.now(), recordings: new Map() };
+    this.sessions.push(this.current);
+    this.syncLanguages(targets);
+    this.els.enabled.disabled = true;
+    this.els.chapters.disabled = true;
+    this.renderTimer = window.setInterval(() => this.render(), RecordingsPanel.RENDER_INTERVAL_MS);
+  }
+
+  /** Live language switch: new languages start recording, removed ones are finished */
+  syncLanguages(targets: { code: string; name: string }[]): void {
+    if (!this.current) return;
+    for (const [code, recording] of this.current.recordings) {
+      if (!targets.some((target) => target.code === code)) recording.finish();
+    }
+    for (const target of targets) {
+      const existing = this.current.recordings.get(target.code);
+      if (existing && existing.endedAt === null) continue;
+      // A language that was removed and re-added continues in a new file
+      const key = existing ? `${target.code}:${Date.now()}` : target.code;
+      if (existing) this.current.recordings.set(key, existing);
+      this.current.recordings.set(target.code, new TranslationRecording(target.code, target.name, this.chapterIntervalMs));
+    }
+    this.render();
+  }
+
+  append(lang: string, pcm16: ArrayBuffer): void {
+    this.current?.recordings.get(lang)?.append(pcm16);
+  }
+
+  interrupt(lang: string): void {
+    this.current?.recordings.get(lang)?.interrupt();
+  }
+
+  updateText(lang: string, text: string, finished?: boolean, cumulative?: boolean): void {
+    this.current?.recordings.get(lang)?.updateText(text, finished, cumulative);
+  }
+
+  endSession(): void {
+    if (this.renderTimer !== null) clearInterval(this.renderTimer);
+    this.renderTimer = null;
+    if (!this.current) return;
+    for (const recording of this.current.recordings.values()) recording.finish();
+    this.current = null;
+    this.els.enabled.disabled = false;
+    this.els.chapters.disabled = false;
+    this.render();
+  }
+
+  private recordingsOf(session: RecordingSession): TranslationRecording[] {
+    return [...session.recordings.values()]
+      .filter((recording) => !recording.isEmpty)
+      .sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  private fileName(recording: TranslationRecording, ext: string): string {
+    const date = new Date(recording.startedAt);
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+    return `sermon-${this.roomId}-${recording.lang}-${stamp}.${ext}`;
+  }
+
+  private download(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  }
+
+  private async downloadOpus(recording: TranslationRecording, button: HTMLButtonElement): Promise<void> {
+    button.disabled = true;
+    this.setStatus("Encoding Opus…");
+    try {
+      const title = `${recording.langName} translation — ${new Date(recording.startedAt).toLocaleString()}`;
+      this.download(await recording.toOpus(title), this.fileName(recording, "opus"));
+      this.setStatus("");
+    } catch (err) {
+      console.error("Opus export failed", err);
+      this.setStatus("Opus encoding failed — download the WAV instead", "error");
+    } finally {
+      button.disabled = false;
+    }
+  }
+
+  private discard(session: RecordingSession, recording: TranslationRecording): void {
+    if (!confirm(`Discard the ${recording.langName} recording (${formatDuration(recording.durationMs)})?`)) return;
+    for (const [key, value] of session.recordings) {
+      if (value === recording) session.recordings.delete(key);
+    }
+    this.render();
+  }
+
+  private button(label: string, onClick: (button: HTMLButtonElement) => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = label;
+    button.onclick = () => onClick(button);
+    return button;
+  }
+
+  private render(): void {
+    this.els.listEl.innerHTML = "";
+    for (const session of this.sessions) {
+      for (const recording of this.recordingsOf(session)) {
+        const row = document.createElement("div");
+        row.className = "listener-row";
+        const label = document.createElement("span");
+        const live = recording.endedAt === null;
+        label.textContent = `${clockTime(recording.startedAt)} · ${recording.langName} · ${formatDuration(recording.durationMs)}`
+          + (recording.chapters.length ? ` · ${recording.chapters.length} chapters` : "")
+          + (live ? " · recording…" : "");
+        row.append(label);
+
+        if (!live) {
+          const actions = document.createElement("span");
+          actions.append(this.button("WAV", () => this.download(recording.toWav(), this.fileName(recording, "wav"))));
+          if (this.opusSupported) actions.append(this.button("Opus", (button) => this.downloadOpus(recording, button)));
+          if (recording.chapters.length) {
+            actions.append(this.button("Chapters", () => this.download(recording.toChaptersJson(), this.fileName(recording, "chapters.json"))));
+          }
+          actions.append(this.button("Discard", () => this.discard(session, recording)));
+          row.append(actions);
+        }
+        this.els.listEl.append(row);
+      }
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Room access panel: audience passcode and listener removal (speaker only)
+ */
+import { API_BASE } from "../config";
+import type { ListenerInfo } from "../room/protocol";
+
+export interface RoomAccessElements {
+  passcodeInput: HTMLInputElement;
+  setPasscodeBtn: HTMLButtonElement;
+  clearPasscodeBtn: HTMLButtonElement;
+  disconnectAllBtn: HTMLButtonElement;
+  listenersEl: HTMLElement;
+  statusEl: HTMLElement;
+}
+
+export class RoomAccessPanel {
+  constructor(
+    private els: RoomAccessElements,
+    private roomId: string,
+    private speakerKey: string,
+    private passcodeRequired: boolean
+  ) {
+    this.bindEvents();
+    this.showPasscodeState();
+    this.showListeners(null);
+  }
+
+  private bindEvents(): void {
+    this.els.setPasscodeBtn.onclick = () => this.setPasscode(this.els.passcodeInput.value);
+    this.els.clearPasscodeBtn.onclick = () => this.setPasscode(null);
+    this.els.disconnectAllBtn.onclick = () => {
+      if (confirm("Disconnect all current listeners?")) this.disconnect(null);
+    };
+  }
+
+  private setStatus(msg: string, level: "info" | "warn" | "error" = "info"): void {
+    this.els.statusEl.textContent = msg;
+    this.els.statusEl.className = `status ${level}`;
+  }
+
+  private showPasscodeState(): void {
+    this.els.setPasscodeBtn.textContent = this.passcodeRequired ? "Change passcode" : "Set passcode";
+    this.els.clearPasscodeBtn.style.display = this.passcodeRequired ? "" : "none";
+    this.setStatus(this.passcodeRequired ? "Listeners need a passcode to join" : "Anyone with the link can join");
+  }
+
+  /** Set/rotate (disconnects everyone) or remove (null) the audience passcode */
+  private async setPasscode(passcode: string | null): Promise<void> {
+    if (passcode !== null && passcode.length < 4) {
+      this.setStatus("Passcode must be at least 4 characters", "warn");
+      return;
+    }
+    try {
+      const res = await fetch(`${API_BASE}/api/rooms/${this.roomId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ speakerKey: this.speakerKey, passcode }),
+      });
+      if (!res.ok) throw new Error("Failed to update passcode");
+      const { passcodeRequired } = await res.json() as { passcodeRequired: boolean };
+      this.passcodeRequired = passcodeRequired;
+      this.els.passcodeInput.value = "";
+      this.showPasscodeState();
+      if (passcode !== null) this.setStatus("Passcode set — current listeners must rejoin with it", "warn");
+    } catch (err) {
+      this.setStatus((err as Error).message, "error");
+    }
+  }
+
+  /** Disconnect one listener, or all of them (id = null) */
+  private async disconnect(id: string | null): Promise<void> {
+    try {
+      const res = await fetch(`${API_BASE}/api/rooms/${this.roomId}/listeners${id ? `/${id}` : ""}`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ speakerKey: this.speakerKey }),
+      });
+      if (!res.ok) throw new Error("Failed to disconnect listeners");
+      const { disconnected } = await res.json() as { disconnected: number };
+      const hint = this.passcodeRequired ? "" : " — set a passcode to keep them from rejoining";
+      this.setStatus(`Disconnected ${disconnected} listener${disconnected === 1 ? "" : "s"}${hint}`);
+    } catch (err) {
+      this.setStatus((err as Error).message, "error");
+    }
+  }
+
+  /** Render the listener list from a presence update (null = not connected to the room) */
+  showListeners(members: ListenerInfo[] | null): void {
+    const el = this.els.listenersEl;
+    el.innerHTML = "";
+    if (members === null) {
+      el.textContent = "Not connected to the room — listeners appear here once it connects.";
+      return;
+    }
+    if (!members.length) {
+      el.textContent = "No listeners connected.";
+      return;
+    }
+    for (const member of members) {
+      const row = document.createElement("div");
+      row.className = "listener-row";
+      const label = document.createElement("span");
+      const joined = new Date(member.joinedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+      label.textContent = `${member.lang?.toUpperCase() ?? "—"} · ${member.audio ? "audio on" : "text only"} · joined ${joined}`;
+      const remove = document.createElement("button");
+      remove.type = "button";
+      remove.textContent = "Remove";
+      remove.onclick = () => this.disconnect(member.id);
+      row.append(label, remove);
+      el.append(row);
+    }
+  }
+}
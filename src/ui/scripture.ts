@@ -0,0 +1,64 @@
+/**
+ * Scripture cards: detected references with the verse text in the viewer's language, where bundled
+ */
+import type { RoomEvent } from "../room/protocol";
+import { passageTitle } from "../scripture/books";
+import { passageText } from "../scripture/verses";
+
+export interface ScriptureCardOptions {
+  /** Language to show the passage in (null = English) */
+  lang: () => string | null;
+  /** Button on each card: listeners close it locally, speakers dismiss it for everyone */
+  actionLabel: string;
+  onAction: (id: string) => void;
+}
+
+export class ScriptureCards {
+  private static readonly MAX_CARDS = 3;
+
+  constructor(private el: HTMLElement, private options: ScriptureCardOptions) {}
+
+  async show(event: Extract<RoomEvent, { t: "scripture" }>): Promise<void> {
+    if (this.el.querySelector(`[data-id="${event.id}"]`)) return;
+    const lang = this.options.lang();
+    const [reference, passage] = await Promise.all([passageTitle(event, lang), passageText(event, lang)]);
+
+    const card = document.createElement("div");
+    card.className = "scripture-card";
+    card.dataset.id = event.id;
+    const header = document.createElement("div");
+    header.className = "scripture-header";
+    const title = document.createElement("strong");
+    title.textContent = reference;
+    const action = document.createElement("button");
+    action.type = "button";
+    action.className = "link-btn";
+    action.textContent = this.options.actionLabel;
+    action.onclick = () => this.options.onAction(event.id);
+    header.append(title, action);
+    card.append(header);
+
+    if (passage) {
+      const text = document.createElement("p");
+      text.className = "scripture-text";
+      text.textContent = passage.text;
+      const source = document.createElement("small");
+      source.textContent = passage.edition;
+      card.append(text, source);
+    }
+
+    this.el.prepend(card);
+    while (this.el.children.length > ScriptureCards.MAX_CARDS) this.el.lastElementChild?.remove();
+    this.el.style.display = "";
+  }
+
+  remove(id: string): void {
+    this.el.querySelector(`[data-id="${id}"]`)?.remove();
+    if (!this.el.children.length) this.el.style.display = "none";
+  }
+
+  clear(): void {
+    this.el.innerHTML = "";
+    this.el.style.display = "none";
+  }
+}
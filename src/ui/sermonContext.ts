@@ -0,0 +1,75 @@
+/**
+ * Sermon context form: pre-service background stored with the room
+ */
+import { API_BASE } from "../config";
+import { EMPTY_SERMON_CONTEXT, SERMON_CONTEXT_LIMITS, SermonContext } from "../live/sermonContext";
+
+export interface SermonContextElements {
+  title: HTMLInputElement;
+  outline: HTMLTextAreaElement;
+  scripture: HTMLInputElement;
+  names: HTMLInputElement;
+  saveBtn: HTMLButtonElement;
+  statusEl: HTMLElement;
+}
+
+export class SermonContextForm {
+  private fields: Record<keyof SermonContext, HTMLInputElement | HTMLTextAreaElement>;
+
+  constructor(private els: SermonContextElements, private roomId: string, private speakerKey: string) {
+    this.fields = { title: els.title, outline: els.outline, scripture: els.scripture, names: els.names };
+    for (const [field, input] of Object.entries(this.fields)) {
+      input.maxLength = SERMON_CONTEXT_LIMITS[field as keyof SermonContext];
+    }
+    els.saveBtn.onclick = () => this.save();
+    this.load();
+  }
+
+  /** Current form values (including unsaved edits) */
+  getContext(): SermonContext {
+    const context = { ...EMPTY_SERMON_CONTEXT };
+    for (const field of Object.keys(this.fields) as (keyof SermonContext)[]) {
+      context[field] = this.fields[field].value;
+    }
+    return context;
+  }
+
+  private setContext(context: SermonContext): void {
+    for (const field of Object.keys(this.fields) as (keyof SermonContext)[]) {
+      this.fields[field].value = context[field] ?? "";
+    }
+  }
+
+  private setStatus(msg: string, level: "info" | "warn" | "error" = "info"): void {
+    this.els.statusEl.textContent = msg;
+    this.els.statusEl.className = `status ${level}`;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const res = await fetch(`${API_BASE}/api/rooms/${this.roomId}/context?key=${encodeURIComponent(this.speakerKey)}`);
+      if (!res.ok) throw new Error("Failed to load sermon context");
+      const { context } = await res.json() as { context: SermonContext | null };
+      if (context) this.setContext(context);
+    } catch (err) {
+      this.setStatus((err as Error).message, "error");
+    }
+  }
+
+  private async save(): Promise<void> {
+    this.els.saveBtn.disabled = true;
+    try {
+      const res = await fetch(`${API_BASE}/api/rooms/${this.roomId}/context`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ speakerKey: this.speakerKey, context: this.getContext() }),
+      });
+      if (!res.ok) throw new Error("Failed to save sermon context");
+      this.setStatus("Saved — applied when translation starts");
+    } catch (err) {
+      this.setStatus((err as Error).message, "error");
+    } finally {
+      this.els.saveBtn.disabled = false;
+    }
+  }
+}
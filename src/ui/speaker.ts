@@ -1,67 +1,211 @@
 /**
- * Speaker UI controller: mic + Gemini session + room broadcast
+ * Speaker UI controller: mic (or pre-recorded file) + translation sessions + room broadcast
  */
 import { AudioRecorder } from "../audio/recorder";
+import type { FileAudioSource } from "../audio/fileSource";
 import { AudioPlayer } from "../audio/player";
-import { LiveSession } from "../live/session";
+import { AudioCodec, OpusEncoderStream, isOpusEncodeSupported } from "../audio/opus";
+import { TranslationProvider, createTranslationProvider } from "../live/provider";
 import { RoomClient } from "../room/client";
-import { LANGUAGES, API_BASE } from "../config";
+import type { RoomEvent } from "../room/protocol";
+import { LANGUAGES, API_BASE, CONFIG } from "../config";
 import { bindTranscriptFontSizeControls } from "./fontSizeControls";
 import { TranscriptAccumulator } from "./transcript";
+import { GlossaryEditor, GlossaryElements } from "./glossary";
+import { SermonContextForm, SermonContextElements } from "./sermonContext";
+import { RoomAccessPanel, RoomAccessElements } from "./roomAccess";
+import { Presenter, PresenterIdentity, PresentersElements, PresentersPanel } from "./presenters";
+import { ScriptureCards } from "./scripture";
+import { RecordingsElements, RecordingsPanel } from "./recordings";
+import { FileInputElements, FileInputPanel } from "./fileInput";
+import { InputDeviceElements, InputDevicePanel } from "./inputDevice";
+
+/** Languages preselected when the room was created */
+export interface DefaultLangs {
+  sourceLang: string;
+  targetLangs: string[];
+}
+
+/** Room details loaded before the speaker page is shown */
+export interface SpeakerRoomInfo {
+  expiresAt: number | null;
+  defaultLangs: DefaultLangs | null;
+  passcodeRequired: boolean;
+  /** Presenter this page's speakerKey belongs to */
+  self: PresenterIdentity;
+  /** Other presenters (host only) */
+  presenters: Presenter[];
+}
 
 interface SpeakerElements {
   sourceLang: HTMLSelectElement;
-  targetLang: HTMLSelectElement;
+  targetLangs: HTMLElement;
   startBtn: HTMLButtonElement;
   stopBtn: HTMLButtonElement;
   statusEl: HTMLElement;
+  presenceEl: HTMLElement;
+  /** Detected scripture references, each with a Dismiss button */
+  scriptureEl: HTMLElement;
   inputText: HTMLElement;
   outputText: HTMLElement;
   audienceLink: HTMLButtonElement;
+  transcriptLinks: HTMLElement;
   audioToggle: HTMLInputElement;
   expiryEl: HTMLElement;
+  extendBtn: HTMLButtonElement;
+  glossary: Omit<GlossaryElements, "sourceLang">;
+  context: SermonContextElements;
+  access: RoomAccessElements;
+  presenters: PresentersElements;
+  recordings: RecordingsElements;
+  fileInput: FileInputElements;
+  input: InputDeviceElements;
+  /** Room management cards hidden from guest presenters */
+  ownerOnly: HTMLElement[];
 }
 
 export class SpeakerUI {
   private recorder = new AudioRecorder();
   private player = new AudioPlayer();
-  private liveSession: LiveSession | null = null;
+  /** One translation session per target language; the first selected language is the primary */
+  private liveSessions = new Map<string, TranslationProvider>();
+  private primaryLang: string | null = null;
+  /** Languages the running sessions were started with (null while stopped) */
+  private activeLangs: { sourceLang: string; sourceName: string; targets: { code: string; name: string }[] } | null = null;
+  /** Replacement sessions warming up during a live language switch */
+  private pendingSessions = new Map<string, TranslationProvider>();
+  private switchingLanguages = false;
+  private languageChangeTimer: number | null = null;
+  /** Opus encoder per target language (only when WebCodecs supports it) */
+  private opusEncoders = new Map<string, OpusEncoderStream>();
+  private opusSupported = false;
+  /** Codecs the room currently needs, as reported by the server */
+  private codecDemand: AudioCodec[] = ["pcm16"];
+  /** Joined at page load for presence, floor and scripture; translation only sends while running */
   private roomClient: RoomClient | null = null;
+  private roomConnected = false;
+  /** This browser can encode Opus, as advertised to the room */
+  private roomOpus = false;
   private roomId: string;
   private speakerKey: string;
   private inputTranscript: TranscriptAccumulator;
   private outputTranscript: TranscriptAccumulator;
+  private glossary: GlossaryEditor;
+  private sermonContext: SermonContextForm;
+  private access: RoomAccessPanel | null = null;
+  private scripture: ScriptureCards;
+  /** Translated voice captured per session for download */
+  private recordings: RecordingsPanel;
+  /** Capture device, processing, gain and level meter */
+  private inputDevice: InputDevicePanel;
+  /** Optional pre-recorded file to translate instead of the microphone */
+  private fileInput: FileInputPanel;
+  /** File being translated in the current run (null = microphone) */
+  private fileSource: FileAudioSource | null = null;
+  /** Batch run: file translated as fast as the provider allows, nothing sent to the room */
+  private batch = false;
+  private fileDrainTimer: number | null = null;
+  private self: PresenterIdentity;
+  /** This presenter currently holds the floor */
+  private hasFloor = false;
   private idleAutoStopTimer: number | null = null;
   private expiryTimer: number | null = null;
   private expiresAt: number | null;
   private lastSpeechAtMs = 0;
   private static readonly AUTO_STOP_AFTER_SILENCE_MS = 5 * 60 * 1000; // 5 minutes
+  private static readonly EXTEND_MINUTES = 60;
+  private static readonly LANGUAGE_CHANGE_DEBOUNCE_MS = 800;
+  /** After the file ends, stop once no transcript has arrived for this long */
+  private static readonly FILE_DRAIN_QUIET_MS = 4000;
 
-  constructor(private els: SpeakerElements, roomId: string, speakerKey: string, expiresAt: number | null = null) {
+  constructor(private els: SpeakerElements, roomId: string, speakerKey: string, room: SpeakerRoomInfo) {
     this.roomId = roomId;
     this.speakerKey = speakerKey;
-    this.expiresAt = expiresAt;
+    this.expiresAt = room.expiresAt;
+    this.self = room.self;
     this.inputTranscript = new TranscriptAccumulator(els.inputText);
     this.outputTranscript = new TranscriptAccumulator(els.outputText);
     bindTranscriptFontSizeControls(els.inputText.closest(".card") as HTMLElement | null);
-    this.populateLanguages();
+    this.populateLanguages(room.defaultLangs);
+    this.scripture = new ScriptureCards(els.scriptureEl, {
+      lang: () => this.els.sourceLang.value,
+      actionLabel: "Dismiss",
+      onAction: (id) => this.dismissScripture(id),
+    });
+    this.glossary = new GlossaryEditor({ ...els.glossary, sourceLang: els.sourceLang }, roomId, speakerKey);
+    this.sermonContext = new SermonContextForm(els.context, roomId, speakerKey);
+    this.recordings = new RecordingsPanel(els.recordings, roomId);
+    this.fileInput = new FileInputPanel(els.fileInput);
+    this.inputDevice = new InputDevicePanel(els.input);
+    this.inputDevice.onChange = () => {
+      if (!this.recorder.recording) return;
+      this.recorder.update(this.inputDevice.options()).catch((err) => this.setStatus(`Input: ${(err as Error).message}`, "error"));
+    };
+    this.recorder.onLevel = (level) => this.inputDevice.showLevel(level);
+    this.recorder.onDeviceChange = (label, fallback, error) => this.inputDevice.showDevice(label, fallback, error);
+    if (room.self.owner) {
+      this.access = new RoomAccessPanel(els.access, roomId, speakerKey, room.passcodeRequired);
+      new PresentersPanel(els.presenters, roomId, speakerKey, room.presenters);
+    } else {
+      for (const el of els.ownerOnly) el.style.display = "none";
+    }
     this.bindEvents();
     this.showAudienceLink();
+    this.showTranscriptLinks();
     this.startExpiryCountdown();
+    this.joinRoom().catch(() => this.setStatus("Could not connect to the room — it is retried when you start", "warn"));
   }
 
-  private populateLanguages(): void {
+  private populateLanguages(defaults: DefaultLangs | null): void {
+    const targets = (defaults?.targetLangs ?? ["en"]).slice(0, CONFIG.MAX_TARGET_LANGS);
     for (const lang of LANGUAGES) {
       this.els.sourceLang.add(new Option(lang.name, lang.code));
-      this.els.targetLang.add(new Option(lang.name, lang.code));
+
+      const label = document.createElement("label");
+      const checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.value = lang.code;
+      checkbox.checked = targets.includes(lang.code);
+      checkbox.onchange = () => {
+        this.enforceTargetLimit();
+        this.scheduleLanguageChange();
+      };
+      label.append(checkbox, lang.name);
+      this.els.targetLangs.append(label);
     }
-    this.els.sourceLang.value = "ko";
-    this.els.targetLang.value = "en";
+    this.els.sourceLang.value = LANGUAGES.some((lang) => lang.code === defaults?.sourceLang) ? defaults!.sourceLang : "ko";
+    this.enforceTargetLimit();
+  }
+
+  private targetCheckboxes(): HTMLInputElement[] {
+    return Array.from(this.els.targetLangs.querySelectorAll<HTMLInputElement>("input[type=checkbox]"));
+  }
+
+  /** Selected target languages in display order, excluding the source language */
+  private selectedTargets(): { code: string; name: string }[] {
+    const source = this.els.sourceLang.value;
+    return LANGUAGES
+      .filter((lang) => lang.code !== source)
+      .filter((lang) => this.targetCheckboxes().some((cb) => cb.checked && cb.value === lang.code))
+      .map((lang) => ({ code: lang.code, name: lang.name }));
+  }
+
+  /** Disable unchecked boxes once the per-room stream limit is reached */
+  private enforceTargetLimit(): void {
+    const boxes = this.targetCheckboxes();
+    const full = boxes.filter((cb) => cb.checked).length >= CONFIG.MAX_TARGET_LANGS;
+    for (const cb of boxes) cb.disabled = full && !cb.checked;
+  }
+
+  private get primarySession(): TranslationProvider | null {
+    return this.primaryLang ? this.liveSessions.get(this.primaryLang) ?? null : null;
   }
 
   private bindEvents(): void {
     this.els.startBtn.onclick = () => this.start();
     this.els.stopBtn.onclick = () => this.stop();
+    this.els.extendBtn.onclick = () => this.extendRoom();
+    this.els.sourceLang.addEventListener("change", () => this.scheduleLanguageChange());
   }
 
   private showAudienceLink(): void {
@@ -73,6 +217,22 @@ export class SpeakerUI {
     this.els.audienceLink.style.display = "block";
   }
 
+  /** Download links for the persisted bilingual transcript */
+  private showTranscriptLinks(): void {
+    const el = this.els.transcriptLinks;
+    el.textContent = "Transcript:";
+    for (const format of ["srt", "vtt", "txt", "json"]) {
+      const link = document.createElement("a");
+      link.className = "link";
+      link.href = `${API_BASE}/api/rooms/${this.roomId}/transcript?${new URLSearchParams({ format, key: this.speakerKey })}`;
+      link.target = "_blank";
+      link.rel = "noopener noreferrer";
+      link.textContent = format.toUpperCase();
+      el.append(link);
+    }
+    el.style.display = "flex";
+  }
+
   /** Start countdown timer showing room expiry */
   private startExpiryCountdown(): void {
     if (!this.expiresAt) {
@@ -88,9 +248,7 @@ export class SpeakerUI {
     const remainingMs = this.expiresAt - Date.now();
 
     if (remainingMs <= 0) {
-      // Room expired, redirect
-      if (this.expiryTimer) window.clearInterval(this.expiryTimer);
-      location.href = "/?expired=1";
+      this.handleExpired();
       return;
     }
 
@@ -101,6 +259,52 @@ export class SpeakerUI {
     this.els.expiryEl.textContent = `Room expires in ${hours}h ${minutes}m`;
     this.els.expiryEl.className = `room-expiry ${isWarning ? "warning" : ""}`;
     this.els.expiryEl.style.display = "block";
+    this.els.extendBtn.style.display = this.self.owner ? "inline" : "none";
+  }
+
+  /** Add EXTEND_MINUTES to the room lifetime (the server caps the total) */
+  private async extendRoom(): Promise<void> {
+    this.els.extendBtn.disabled = true;
+    try {
+      const res = await fetch(`${API_BASE}/api/rooms/${this.roomId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ speakerKey: this.speakerKey, extendMinutes: SpeakerUI.EXTEND_MINUTES }),
+      });
+      if (!res.ok) throw new Error("Failed to extend room");
+      const { expiresAt } = await res.json() as { expiresAt: number };
+      this.expiresAt = expiresAt;
+      this.updateExpiryDisplay();
+    } catch (err) {
+      this.setStatus((err as Error).message, "error");
+    } finally {
+      this.els.extendBtn.disabled = false;
+    }
+  }
+
+  /**
+   * Countdown reached zero: re-check (the room may have been extended elsewhere),
+   * otherwise stop streaming but stay on the page so the transcript can still be downloaded.
+   */
+  private async handleExpired(): Promise<void> {
+    if (this.expiryTimer) window.clearInterval(this.expiryTimer);
+    this.expiryTimer = null;
+    try {
+      const res = await fetch(`${API_BASE}/api/rooms/${this.roomId}/status?key=${encodeURIComponent(this.speakerKey)}`);
+      const status = await res.json() as { exists: boolean; expiresAt: number | null };
+      if (status.exists && status.expiresAt && status.expiresAt > Date.now()) {
+        this.expiresAt = status.expiresAt;
+        this.startExpiryCountdown();
+        return;
+      }
+    } catch {
+      // treat as expired
+    }
+    if (this.liveSessions.size) this.stop({ statusMsg: "Room expired", statusLevel: "warn" });
+    this.els.startBtn.disabled = true;
+    this.els.extendBtn.style.display = "none";
+    this.els.expiryEl.textContent = "Room expired — the transcript stays downloadable for 7 days";
+    this.els.expiryEl.className = "room-expiry expired";
   }
 
   private setStatus(msg: string, level: "info" | "warn" | "error" = "info"): void {
@@ -121,7 +325,7 @@ export class SpeakerUI {
 
   private armIdleAutoStopTimer(): void {
     this.clearIdleAutoStopTimer();
-    if (this.liveSession?.getState() !== "streaming") return;
+    if (this.primarySession?.getState() !== "streaming") return;
 
     const elapsedMs = Date.now() - this.lastSpeechAtMs;
     const remainingMs = SpeakerUI.AUTO_STOP_AFTER_SILENCE_MS - elapsedMs;
@@ -135,7 +339,12 @@ export class SpeakerUI {
   }
 
   private handleIdleAutoStop(): void {
-    if (this.liveSession?.getState() !== "streaming") return;
+    if (this.primarySession?.getState() !== "streaming") return;
+    // A paused file is not silence
+    if (this.fileInput.paused) {
+      this.markSpeechActivity();
+      return;
+    }
     const msg = "Auto-stopped after 5 minutes of silence";
     this.stop({ statusMsg: msg, statusLevel: "warn", broadcastStatus: true });
   }
@@ -143,82 +352,160 @@ export class SpeakerUI {
   private cleanupStreamingResources(): void {
     this.clearIdleAutoStopTimer();
     this.recorder.stop();
+    this.inputDevice.reset();
+    this.fileSource?.stop();
+    if (this.fileDrainTimer !== null) clearTimeout(this.fileDrainTimer);
+    this.fileDrainTimer = null;
+    this.fileSource = null;
+    this.fileInput.setRunning(false);
+    if (this.batch) this.fileInput.finishTranscript();
+    this.batch = false;
     this.player.stop();
-    this.liveSession?.disconnect();
-    this.roomClient?.disconnect();
-    this.liveSession = null;
-    this.roomClient = null;
+    if (this.languageChangeTimer !== null) clearTimeout(this.languageChangeTimer);
+    this.languageChangeTimer = null;
+    for (const session of this.liveSessions.values()) session.disconnect();
+    for (const session of this.pendingSessions.values()) session.disconnect();
+    for (const encoder of this.opusEncoders.values()) encoder.close();
+    this.liveSessions.clear();
+    this.pendingSessions.clear();
+    this.opusEncoders.clear();
+    this.activeLangs = null;
+    this.primaryLang = null;
+    this.scripture.clear();
+    this.recordings.endSession();
+    this.hasFloor = false;
+  }
+
+  /** False positive: remove the card for every listener */
+  private dismissScripture(id: string): void {
+    this.roomClient?.sendControl({ t: "scripture_dismiss", id });
+    this.scripture.remove(id);
+  }
+
+  /** Events this run sends to the room; a batch file run stays off the air */
+  private get onAir(): RoomClient | null {
+    return this.batch ? null : this.roomClient;
+  }
+
+  private showPresence(presence: Extract<RoomEvent, { t: "presence" }> | null): void {
+    if (!presence) {
+      this.els.presenceEl.style.display = "none";
+      this.access?.showListeners(null);
+      return;
+    }
+    const noun = presence.listeners === 1 ? "listener" : "listeners";
+    let text = `${presence.listeners} ${noun} · ${presence.audio} with audio`;
+    if (presence.langs) {
+      const perLang = Object.entries(presence.langs).map(([code, count]) => `${code.toUpperCase()} ${count}`);
+      if (perLang.length) text += ` (${perLang.join(", ")})`;
+    }
+    this.els.presenceEl.textContent = text;
+    this.els.presenceEl.style.display = "block";
+    this.access?.showListeners(presence.members ?? []);
+  }
+
+  /** Whoever is presenting right now (null = nobody) */
+  private async currentFloorHolder(): Promise<{ id: string; name: string } | null> {
+    try {
+      const res = await fetch(`${API_BASE}/api/rooms/${this.roomId}/status?key=${encodeURIComponent(this.speakerKey)}`);
+      const { floor } = await res.json() as { floor?: { id: string; name: string } | null };
+      return floor ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Another presenter took the floor: stop translating so only they reach the audience */
+  private handleFloor(floor: Extract<RoomEvent, { t: "floor" }>): void {
+    if (floor.self) {
+      this.hasFloor = true;
+      return;
+    }
+    if (!this.hasFloor) return;
+    if (!floor.holder) {
+      // Our connection dropped mid-run and the floor was freed: take it back
+      this.roomClient?.sendControl({ t: "floor", action: "take" });
+      return;
+    }
+    this.hasFloor = false;
+    this.stop({ statusMsg: `${floor.holder.name} took the floor`, statusLevel: "warn", release: false });
+  }
+
+  /** Get a single-use ephemeral token for the translation provider */
+  private async fetchToken(): Promise<string> {
+    const tokenRes = await fetch(`${API_BASE}/api/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ roomId: this.roomId, speakerKey: this.speakerKey }),
+    });
+    if (!tokenRes.ok) throw new Error("Failed to get token");
+    const { token } = await tokenRes.json();
+    return token;
   }
 
   private async start(): Promise<void> {
+    const targets = this.selectedTargets();
+    if (!targets.length) {
+      this.setStatus("Select at least one target language", "warn");
+      return;
+    }
+
+    // A batch file run stays off the air: no floor, no room connection
+    const file = this.fileInput.source;
+    const batch = this.fileInput.batch;
+    if (!batch) {
+      const holder = await this.currentFloorHolder();
+      if (holder && holder.id !== this.self.id && !confirm(`${holder.name} is presenting. Take the floor?`)) return;
+    }
+
     this.els.startBtn.disabled = true;
     this.setStatus("Getting token...");
 
     try {
-      // Get ephemeral token
-      const tokenRes = await fetch(`${API_BASE}/api/token`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ roomId: this.roomId, speakerKey: this.speakerKey }),
-      });
-      if (!tokenRes.ok) throw new Error("Failed to get token");
-      const { token } = await tokenRes.json();
+      // Get one ephemeral token per target language (tokens are single-use)
+      const tokens = await Promise.all(targets.map(() => this.fetchToken()));
+      this.fileSource = file;
+      this.batch = batch;
+      if (batch) {
+        this.opusSupported = false;
+      } else {
+        await this.takeFloor(targets);
+      }
 
-      // Connect to room
-      this.setStatus("Connecting to room...");
-      this.roomClient = new RoomClient(this.roomId, "speaker", this.speakerKey);
-      await this.roomClient.connect();
-
-      // Setup live session
-      this.setStatus("Connecting to Gemini...");
-      this.liveSession = new LiveSession({
-        onStateChange: (state) => {
-          if (state === "streaming") {
-            this.setStatus("Streaming");
-            this.els.stopBtn.disabled = false;
-            this.lastSpeechAtMs = Date.now();
-            this.armIdleAutoStopTimer();
-            // Broadcast language info to audience
-            const sourceName = this.els.sourceLang.selectedOptions[0]?.text || this.els.sourceLang.value;
-            const targetName = this.els.targetLang.selectedOptions[0]?.text || this.els.targetLang.value;
-            this.roomClient?.send({ t: "lang_info", sourceLang: sourceName, targetLang: targetName });
-          } else if (state === "error") {
-            this.setStatus("Error occurred", "error");
-          }
-        },
-        onInputTranscript: (text, finished) => {
-          this.inputTranscript.update(text, finished);
-          this.roomClient?.send({ t: "in_text", text, finished });
-          if (text.trim()) this.markSpeechActivity();
-        },
-        onOutputTranscript: (text, finished) => {
-          this.outputTranscript.update(text, finished);
-          this.roomClient?.send({ t: "out_text", text, finished });
-          if (text.trim()) this.markSpeechActivity();
-        },
-        onOutputAudio: (b64) => {
-          if (this.els.audioToggle.checked) {
-            this.player.enqueue(b64);
-          }
-          this.roomClient?.send({ t: "out_audio", b64, sr: 24000 });
-        },
-        onInterrupt: () => {
-          this.player.clear();
-          this.roomClient?.send({ t: "interrupt" });
-        },
-        onError: (err) => this.setStatus(err.message, "error"),
-      });
+      // Setup one live session per target language
+      this.setStatus(CONFIG.TRANSLATION_PROVIDER === "local" ? "Starting offline translation..." : "Connecting to Gemini...");
+      const sourceLang = this.els.sourceLang.value;
+      this.activeLangs = { sourceLang, sourceName: this.els.sourceLang.selectedOptions[0]?.text || sourceLang, targets };
+      this.primaryLang = targets[0].code;
+      for (const target of targets) {
+        this.liveSessions.set(target.code, this.createSession(target.code));
+      }
+      const maxSpeed = Math.min(...[...this.liveSessions.values()].map((session) => session.maxInputSpeed));
+      if (file && maxSpeed === 0) throw new Error("This translation mode only listens to the microphone — remove the file to start");
 
-      await this.liveSession.connect(
-        token,
-        this.els.sourceLang.value,
-        this.els.targetLang.value
-      );
+      const extras = { glossary: this.glossary.getEntries(), context: this.sermonContext.getContext() };
+      await Promise.all(targets.map((target, i) =>
+        this.liveSessions.get(target.code)!.connect(tokens[i], sourceLang, target.code, extras)
+      ));
 
       // Start audio
+      this.recordings.startSession(targets, batch);
       this.player.start();
-      this.recorder.onChunk = (pcm16) => this.liveSession?.sendAudio(pcm16);
-      await this.recorder.start();
+      const feed = (pcm16: ArrayBuffer) => {
+        for (const session of this.liveSessions.values()) session.sendAudio(pcm16);
+        for (const session of this.pendingSessions.values()) session.sendAudio(pcm16);
+      };
+      if (file) {
+        if (batch) this.fileInput.startTranscript({ code: sourceLang, name: this.activeLangs.sourceName }, targets);
+        file.onChunk = feed;
+        file.onEnd = () => this.handleFileEnd();
+        file.start(batch ? maxSpeed : 1);
+        this.fileInput.setRunning(true);
+      } else {
+        this.recorder.onChunk = feed;
+        await this.recorder.start(this.inputDevice.options());
+        this.inputDevice.refreshDevices(); // device names are only listed once the mic is allowed
+      }
     } catch (err) {
       this.cleanupStreamingResources();
       this.setStatus((err as Error).message, "error");
@@ -226,15 +513,282 @@ export class SpeakerUI {
     }
   }
 
+  /** Join the room as speaker: listeners and the floor are shown before translation starts */
+  private async joinRoom(): Promise<void> {
+    this.roomClient?.disconnect();
+    this.roomConnected = false;
+    this.roomOpus = await isOpusEncodeSupported();
+    this.roomClient = new RoomClient(this.roomId, "speaker", this.speakerKey, {
+      autoReconnect: true,
+      codecs: this.roomOpus ? ["opus", "pcm16"] : ["pcm16"],
+    });
+    this.roomClient.onOpen = () => {
+      this.roomConnected = true;
+    };
+    this.roomClient.onClose = () => {
+      this.roomConnected = false;
+      this.showPresence(null);
+    };
+    this.roomClient.onEvent = (event) => {
+      if (event.t === "audio_codecs") this.codecDemand = event.codecs;
+      else if (event.t === "presence") this.showPresence(event);
+      else if (event.t === "expiry") {
+        this.expiresAt = event.expiresAt;
+        this.updateExpiryDisplay();
+        if (event.warning) this.setStatus("Room closes soon — extend it to keep translating", "warn");
+      } else if (event.t === "floor") this.handleFloor(event);
+      else if (event.t === "scripture") this.scripture.show(event);
+      else if (event.t === "scripture_dismiss") this.scripture.remove(event.id);
+    };
+    await this.roomClient.connect();
+  }
+
+  /** Go on air: reconnect if the room was unreachable, then take the floor */
+  private async takeFloor(targets: { code: string }[]): Promise<void> {
+    if (!this.roomConnected) {
+      this.setStatus("Connecting to room...");
+      await this.joinRoom();
+    }
+    this.roomClient?.sendControl({ t: "floor", action: "take" });
+    this.opusSupported = this.roomOpus;
+    this.syncOpusEncoders(targets);
+  }
+
+  /**
+   * Create the translation session for one target language. Only the session currently
+   * in `liveSessions` publishes anything; a replacement warming up during a language
+   * switch stays silent until it is swapped in. Only the primary session drives the
+   * speaker's own transcript/audio and the source-language events.
+   */
+  private createSession(lang: string): TranslationProvider {
+    const isActive = () => this.liveSessions.get(lang) === session;
+    const isPrimary = () => isActive() && lang === this.primaryLang;
+    const targets = () => this.activeLangs?.targets ?? [];
+    const langName = () => targets().find((target) => target.code === lang)?.name ?? lang;
+    const suffix = () => targets().length > 1 ? ` (${langName()})` : "";
+    // Sent along so the room and recordings merge fragments the way the provider means them
+    const cumulative = () => session.transcriptMode === "cumulative";
+    let recovering = false;
+    const session: TranslationProvider = createTranslationProvider({
+      onStateChange: (state) => {
+        if (!isActive()) return;
+        // Automatic recovery: keep the audience informed instead of going silent
+        if (state === "reconnecting") {
+          recovering = true;
+          this.broadcastStatus(`Reconnecting translation${suffix()}…`, "warn");
+          return;
+        }
+        if (state === "streaming" && recovering) {
+          recovering = false;
+          this.broadcastStatus(`Translation resumed${suffix()}`, "info");
+        }
+        if (state === "streaming" && isPrimary()) {
+          this.showStreamingStatus();
+          this.els.stopBtn.disabled = false;
+          this.lastSpeechAtMs = Date.now();
+          this.armIdleAutoStopTimer();
+          this.sendLangInfo();
+        } else if (state === "error") {
+          if (recovering) {
+            recovering = false;
+            this.broadcastStatus(`Translation interrupted${suffix()}`, "error");
+            return;
+          }
+          this.setStatus(isPrimary() ? "Error occurred" : `Error occurred (${langName()})`, "error");
+        }
+      },
+      onInputTranscript: (text, finished) => {
+        if (!isPrimary()) return;
+        this.inputTranscript.update(text, finished);
+        this.fileInput.transcribe(this.activeLangs?.sourceLang ?? "", text, finished, cumulative());
+        this.onAir?.send({ t: "in_text", text, finished, ...(cumulative() ? { cumulative: true } : {}) });
+        if (text.trim()) this.markSpeechActivity();
+      },
+      onOutputTranscript: (text, finished) => {
+        if (!isActive()) return;
+        if (isPrimary()) this.outputTranscript.update(text, finished);
+        this.recordings.updateText(lang, text, finished, cumulative());
+        this.fileInput.transcribe(lang, text, finished, cumulative());
+        this.onAir?.send({ t: "out_text", text, finished, lang, ...(cumulative() ? { cumulative: true } : {}) });
+        if (text.trim()) this.markSpeechActivity();
+      },
+      onOutputAudio: (data) => {
+        if (!isActive()) return;
+        if (isPrimary() && this.els.audioToggle.checked && !this.batch) {
+          this.player.enqueue(data);
+        }
+        this.recordings.append(lang, data);
+        // Compressed copy for listeners that can decode it, raw PCM for the rest
+        const encoder = this.opusEncoders.get(lang);
+        if (encoder && this.codecDemand.includes("opus")) encoder.encode(data);
+        if (!encoder || this.codecDemand.includes("pcm16")) {
+          this.onAir?.send({ t: "out_audio", data, sr: 24000, lang });
+        }
+      },
+      onInterrupt: () => {
+        if (!isActive()) return;
+        if (isPrimary()) this.player.clear();
+        this.recordings.interrupt(lang);
+        this.opusEncoders.get(lang)?.discardPending();
+        this.onAir?.send({ t: "interrupt", lang });
+      },
+      onError: (err) => {
+        if (isActive()) this.setStatus(err.message, "error");
+      },
+    }, { fetchToken: () => this.fetchToken(), credentials: { roomId: this.roomId, speakerKey: this.speakerKey } });
+    return session;
+  }
+
+  private showStreamingStatus(): void {
+    const count = this.activeLangs?.targets.length ?? 0;
+    const activity = this.batch ? "Translating file" : this.fileSource ? "Streaming file" : "Streaming";
+    this.setStatus(count > 1 ? `${activity} (${count} languages)` : activity);
+  }
+
+  /** All of the file was sent: stop once the last translations have come in */
+  private handleFileEnd(): void {
+    this.setStatus("File finished — completing the last translation…");
+    const check = () => {
+      if (Date.now() - this.lastSpeechAtMs < SpeakerUI.FILE_DRAIN_QUIET_MS) {
+        this.fileDrainTimer = window.setTimeout(check, 1000);
+        return;
+      }
+      this.fileDrainTimer = null;
+      if (this.batch) {
+        this.stop({ statusMsg: "File translated — download the transcript and recordings below" });
+      } else {
+        this.stop({ statusMsg: "File finished", broadcastStatus: true });
+      }
+    };
+    check();
+  }
+
+  /** Tell the audience which languages are live */
+  private sendLangInfo(): void {
+    if (!this.activeLangs || !this.primaryLang) return;
+    const { sourceName, targets } = this.activeLangs;
+    this.onAir?.send({
+      t: "lang_info",
+      sourceLang: sourceName,
+      targetLang: targets.find((target) => target.code === this.primaryLang)?.name ?? this.primaryLang,
+      targets,
+    });
+  }
+
+  /** Keep one Opus encoder per live target language */
+  private syncOpusEncoders(targets: { code: string }[]): void {
+    if (!this.opusSupported) return;
+    for (const [code, encoder] of this.opusEncoders) {
+      if (targets.some((target) => target.code === code)) continue;
+      encoder.close();
+      this.opusEncoders.delete(code);
+    }
+    for (const { code } of targets) {
+      if (this.opusEncoders.has(code)) continue;
+      const encoder = new OpusEncoderStream();
+      encoder.onFrame = (data) => this.onAir?.send({ t: "out_audio", data, sr: 24000, lang: code, codec: "opus" });
+      this.opusEncoders.set(code, encoder);
+    }
+  }
+
+  /** Language selects changed while streaming: apply once the user stops clicking */
+  private scheduleLanguageChange(): void {
+    if (!this.activeLangs) return;
+    if (this.languageChangeTimer !== null) clearTimeout(this.languageChangeTimer);
+    this.languageChangeTimer = window.setTimeout(() => {
+      this.languageChangeTimer = null;
+      this.applyLanguageChange();
+    }, SpeakerUI.LANGUAGE_CHANGE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Switch languages without stopping: new sessions (with the new system instruction)
+   * connect and hear the same audio alongside the running ones, then replace them.
+   * The room connection and everyone's transcripts are left as they are.
+   */
+  private async applyLanguageChange(): Promise<void> {
+    const current = this.activeLangs;
+    if (!current || this.switchingLanguages) return;
+    const sourceLang = this.els.sourceLang.value;
+    const targets = this.selectedTargets();
+    if (!targets.length) {
+      this.setStatus("Select at least one target language", "warn");
+      return;
+    }
+    const sourceChanged = sourceLang !== current.sourceLang;
+    const added = targets.filter((target) => sourceChanged || !this.liveSessions.has(target.code));
+    const removed = [...this.liveSessions.keys()].filter((code) => !targets.some((target) => target.code === code));
+    const primaryChanged = targets[0].code !== this.primaryLang;
+    if (!added.length && !removed.length && !primaryChanged) return;
+
+    this.switchingLanguages = true;
+    let switched = false;
+    try {
+      if (added.length) {
+        this.setStatus("Switching languages...");
+        const tokens = await Promise.all(added.map(() => this.fetchToken()));
+        for (const target of added) this.pendingSessions.set(target.code, this.createSession(target.code));
+        const extras = { glossary: this.glossary.getEntries(), context: this.sermonContext.getContext() };
+        await Promise.all(added.map((target, i) =>
+          this.pendingSessions.get(target.code)!.connect(tokens[i], sourceLang, target.code, extras)
+        ));
+        // Stopped (or lost the floor) while the new sessions were connecting
+        if (this.activeLangs !== current) return;
+        if ([...this.pendingSessions.values()].some((session) => session.getState() !== "streaming")) {
+          throw new Error("Could not start the new language — still translating with the previous selection");
+        }
+      }
+
+      const previous = this.liveSessions;
+      this.liveSessions = new Map(targets.map((target) =>
+        [target.code, this.pendingSessions.get(target.code) ?? previous.get(target.code)!]
+      ));
+      this.pendingSessions.clear();
+      for (const [code, session] of previous) {
+        if (this.liveSessions.get(code) === session) continue;
+        session.disconnect();
+        // Cut the replaced stream off cleanly for listeners mid-sentence
+        this.opusEncoders.get(code)?.discardPending();
+        this.recordings.interrupt(code);
+        this.onAir?.send({ t: "interrupt", lang: code });
+      }
+      if (primaryChanged) this.player.clear();
+      this.activeLangs = { sourceLang, sourceName: this.els.sourceLang.selectedOptions[0]?.text || sourceLang, targets };
+      this.primaryLang = targets[0].code;
+      this.syncOpusEncoders(targets);
+      this.recordings.syncLanguages(targets);
+      this.sendLangInfo();
+      this.showStreamingStatus();
+      switched = true;
+    } catch (err) {
+      this.setStatus((err as Error).message, "error");
+    } finally {
+      for (const session of this.pendingSessions.values()) session.disconnect();
+      this.pendingSessions.clear();
+      this.switchingLanguages = false;
+    }
+    // The selection may have changed again while switching
+    if (switched && this.activeLangs) this.scheduleLanguageChange();
+  }
+
+  /** Show a status locally and send it to the audience */
+  private broadcastStatus(msg: string, level: "info" | "warn" | "error"): void {
+    this.setStatus(msg, level);
+    this.onAir?.send({ t: "status", level, msg });
+  }
+
   private stop(opts?: {
     statusMsg?: string;
     statusLevel?: "info" | "warn" | "error";
     broadcastStatus?: boolean;
+    /** Hand the floor back (default); false when it was already taken over */
+    release?: boolean;
   }): void {
     this.els.stopBtn.disabled = true;
     if (opts?.broadcastStatus && opts.statusMsg) {
-      this.roomClient?.send({ t: "status", level: opts.statusLevel ?? "info", msg: opts.statusMsg });
+      this.onAir?.send({ t: "status", level: opts.statusLevel ?? "info", msg: opts.statusMsg });
     }
+    if (opts?.release !== false) this.onAir?.sendControl({ t: "floor", action: "release" });
     this.cleanupStreamingResources();
     this.setStatus(opts?.statusMsg ?? "Stopped", opts?.statusLevel ?? "info");
     this.els.startBtn.disabled = false;
@@ -1,53 +1,94 @@
 /**
- * Transcript accumulator: detects new phrases by checking if text is a continuation
+ * Streaming transcript helpers: phrase detection (a fragment that is not a continuation
+ * of the current phrase starts a new one) and the accumulating transcript panel
  */
+
+/** Phrase boundary detection shared by the transcript panels and caption renderers */
+export class PhraseTracker {
+  /** Current streaming phrase */
+  current = "";
+
+  /** Feed a streaming fragment; returns the phrase it completed, if any */
+  update(text: string, finished?: boolean): string | null {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+
+    // Detect new phrase: if new text doesn't start with current (not a continuation)
+    const isNewPhrase = this.current && !trimmed.startsWith(this.current.slice(0, Math.min(10, this.current.length)));
+    const completed = isNewPhrase || finished ? this.commit() : null;
+    this.current = trimmed;
+    return completed;
+  }
+
+  /** End the current phrase; returns it (null when empty) */
+  commit(): string | null {
+    const phrase = this.current || null;
+    this.current = "";
+    return phrase;
+  }
+}
+
 export class TranscriptAccumulator {
   private buffer = ""; // Accumulated complete sentences
-  private current = ""; // Current streaming fragment
+  private phrases = new PhraseTracker();
   private container: HTMLElement;
+  /** Older history beyond this many characters is dropped (long-running displays) */
+  private maxHistoryChars: number;
 
-  constructor(container: HTMLElement) {
+  constructor(container: HTMLElement, maxHistoryChars = Infinity) {
     this.container = container;
+    this.maxHistoryChars = maxHistoryChars;
   }
 
   /** Update with streaming text - auto-detects phrase boundaries */
   update(text: string, finished?: boolean): void {
-    const trimmed = text.trim();
-    if (!trimmed) return;
-
-    // Detect new phrase: if new text doesn't start with current (not a continuation)
-    const isNewPhrase = this.current && !trimmed.startsWith(this.current.slice(0, Math.min(10, this.current.length)));
-    
-    if (isNewPhrase || finished) {
-      this.commitCurrent();
-    }
-
-    this.current = trimmed;
+    if (!text.trim()) return;
+    const completed = this.phrases.update(text, finished);
+    if (completed) this.appendHistory(completed);
     this.render();
   }
 
   private commitCurrent(): void {
-    if (!this.current) return;
+    const phrase = this.phrases.commit();
+    if (phrase) this.appendHistory(phrase);
+  }
+
+  private appendHistory(phrase: string): void {
     const separator = this.buffer && !this.buffer.endsWith(" ") ? " " : "";
-    this.buffer += separator + this.current;
-    this.current = "";
+    this.buffer += separator + phrase;
+    this.trimHistory();
+  }
+
+  private trimHistory(): void {
+    if (this.buffer.length <= this.maxHistoryChars) return;
+    const start = this.buffer.length - this.maxHistoryChars;
+    const wordStart = this.buffer.indexOf(" ", start);
+    this.buffer = this.buffer.slice(wordStart >= 0 ? wordStart + 1 : start);
+  }
+
+  /** Mark a stretch of missing transcript (e.g. events lost while offline) */
+  insertGap(marker = "…"): void {
+    this.commitCurrent();
+    this.appendHistory(marker);
+    this.render();
   }
 
   clear(): void {
     this.buffer = "";
-    this.current = "";
+    this.phrases.commit();
     this.container.innerHTML = "";
   }
 
   private render(): void {
-    const full = (this.buffer + (this.buffer && this.current ? " " : "") + this.current).trim();
+    const current = this.phrases.current;
+    const full = (this.buffer + (this.buffer && current ? " " : "") + current).trim();
     if (!full) {
       this.container.innerHTML = "";
       return;
     }
 
     const bufferHtml = this.buffer ? `<span class="history">${this.escapeHtml(this.buffer)}</span>` : "";
-    const currentHtml = this.current ? `<span class="current">${this.escapeHtml(this.current)}</span>` : "";
+    const currentHtml = current ? `<span class="current">${this.escapeHtml(current)}</span>` : "";
     const separator = bufferHtml && currentHtml ? " " : "";
     
     this.container.innerHTML = bufferHtml + separator + currentHtml;
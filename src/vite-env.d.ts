@@ -1,3 +1,8 @@
 /// <reference types="vite/client" />
 
 declare const __APP_VERSION__: string;
+
+interface ImportMetaEnv {
+  readonly VITE_TRANSLATION_PROVIDER?: string;
+  readonly VITE_TRANSLATION_MODE?: string;
+}
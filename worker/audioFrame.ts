@@ -0,0 +1,96 @@
+/**
+ * Binary audio frame codec (mirrors src/room/protocol.ts) plus the legacy base64 JSON form
+ */
+
+export type AudioCodec = "pcm16" | "opus";
+
+/** Translated audio chunk in transit through the room */
+export interface AudioPacket {
+  seq: number;
+  sr: number;
+  lang: string | null;
+  codec: AudioCodec;
+  /** PCM16 samples or grouped Opus packets, depending on codec */
+  pcm: Uint8Array;
+}
+
+const AUDIO_FRAME_VERSION = 1;
+const FRAME_TYPE_AUDIO = 1;
+const HEADER_BYTES = 12;
+const ALLOWED_SAMPLE_RATES = [24000];
+const FRAME_CODECS: AudioCodec[] = ["pcm16", "opus"];
+
+export function decodeAudioFrame(buffer: ArrayBuffer): AudioPacket | null {
+  if (buffer.byteLength < HEADER_BYTES) return null;
+  const view = new DataView(buffer);
+  if (view.getUint8(0) !== AUDIO_FRAME_VERSION || view.getUint8(1) !== FRAME_TYPE_AUDIO) return null;
+  const codec = FRAME_CODECS[view.getUint8(2)];
+  if (!codec) return null;
+  const langLength = view.getUint8(3);
+  if (buffer.byteLength < HEADER_BYTES + langLength) return null;
+  const sr = view.getUint32(8, true);
+  if (!ALLOWED_SAMPLE_RATES.includes(sr)) return null;
+  const lang = new TextDecoder().decode(new Uint8Array(buffer, HEADER_BYTES, langLength));
+  return {
+    seq: view.getUint32(4, true),
+    sr,
+    lang: lang || null,
+    codec,
+    pcm: new Uint8Array(buffer, HEADER_BYTES + langLength),
+  };
+}
+
+export function encodeAudioFrame(packet: AudioPacket): ArrayBuffer {
+  const lang = new TextEncoder().encode(packet.lang ?? "");
+  const frame = new Uint8Array(HEADER_BYTES + lang.length + packet.pcm.byteLength);
+  const view = new DataView(frame.buffer);
+  view.setUint8(0, AUDIO_FRAME_VERSION);
+  view.setUint8(1, FRAME_TYPE_AUDIO);
+  view.setUint8(2, FRAME_CODECS.indexOf(packet.codec));
+  view.setUint8(3, lang.length);
+  view.setUint32(4, packet.seq, true);
+  view.setUint32(8, packet.sr, true);
+  frame.set(lang, HEADER_BYTES);
+  frame.set(packet.pcm, HEADER_BYTES + lang.length);
+  return frame.buffer;
+}
+
+/** Parse a legacy `{ t: "out_audio", b64, sr, lang? }` event */
+export function audioPacketFromJson(
+  parsed: { seq?: unknown; b64?: unknown; sr?: unknown; lang?: unknown; codec?: unknown }
+): AudioPacket | null {
+  if (typeof parsed.b64 !== "string" || typeof parsed.sr !== "number" || !ALLOWED_SAMPLE_RATES.includes(parsed.sr)) return null;
+  const codec = parsed.codec ?? "pcm16";
+  if (!FRAME_CODECS.includes(codec as AudioCodec)) return null;
+  let binary: string;
+  try {
+    binary = atob(parsed.b64);
+  } catch {
+    return null;
+  }
+  const pcm = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) pcm[i] = binary.charCodeAt(i);
+  return {
+    seq: typeof parsed.seq === "number" ? parsed.seq : 0,
+    sr: parsed.sr,
+    lang: typeof parsed.lang === "string" ? parsed.lang : null,
+    codec: codec as AudioCodec,
+    pcm,
+  };
+}
+
+/** Legacy JSON form for audience clients that did not negotiate binary frames */
+export function audioPacketToJson(packet: AudioPacket): string {
+  let binary = "";
+  for (let i = 0; i < packet.pcm.length; i += 0x8000) {
+    binary += String.fromCharCode(...packet.pcm.subarray(i, i + 0x8000));
+  }
+  return JSON.stringify({
+    t: "out_audio",
+    seq: packet.seq,
+    b64: btoa(binary),
+    sr: packet.sr,
+    ...(packet.lang ? { lang: packet.lang } : {}),
+    ...(packet.codec !== "pcm16" ? { codec: packet.codec } : {}),
+  });
+}
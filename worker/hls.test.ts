@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { HLS_PUBLISH_DELAY_MS, HLS_SEGMENT_MS, HLS_WINDOW_SEGMENTS, formatSegment, liveSegmentRange } from "./hls";
+import { TranscriptSegment } from "./transcript";
+
+function cue(id: number, start: number, end: number, text: string): TranscriptSegment {
+  return { id, kind: "out", lang: "ko", text, start, end };
+}
+
+describe("liveSegmentRange", () => {
+  it("publishes a segment only once the publish delay has passed after its end", () => {
+    for (const elapsed of [0, HLS_PUBLISH_DELAY_MS, HLS_SEGMENT_MS + HLS_PUBLISH_DELAY_MS - 1]) {
+      const range = liveSegmentRange(elapsed);
+      expect(range.last).toBeLessThan(range.first);
+    }
+    expect(liveSegmentRange(HLS_SEGMENT_MS + HLS_PUBLISH_DELAY_MS)).toEqual({ first: 0, last: 0 });
+    expect(liveSegmentRange(3 * HLS_SEGMENT_MS + HLS_PUBLISH_DELAY_MS + 1)).toEqual({ first: 0, last: 2 });
+  });
+
+  it("slides the window over the newest segments", () => {
+    const range = liveSegmentRange(30 * HLS_SEGMENT_MS + HLS_PUBLISH_DELAY_MS);
+    expect(range).toEqual({ first: 30 - HLS_WINDOW_SEGMENTS, last: 29 });
+    expect(range.last - range.first + 1).toBe(HLS_WINDOW_SEGMENTS);
+  });
+});
+
+describe("formatSegment", () => {
+  it("maps transcript time onto the video timestamps", () => {
+    expect(formatSegment(0, [], 900000)).toBe("WEBVTT\nX-TIMESTAMP-MAP=MPEGTS:900000,LOCAL:00:00:00.000\n");
+  });
+
+  it("repeats cues that cross a boundary in both segments, in time order", () => {
+    const cues = [cue(2, 7000, 9000, "세 번째"), cue(1, 5000, 6500, "두 번째"), cue(0, 1000, 3000, "첫 번째")];
+    const header = "WEBVTT\nX-TIMESTAMP-MAP=MPEGTS:0,LOCAL:00:00:00.000\n";
+    expect(formatSegment(0, cues, 0)).toBe(
+      `${header}\n00:00:01.000 --> 00:00:03.000\n첫 번째\n\n00:00:05.000 --> 00:00:06.500\n두 번째\n`,
+    );
+    expect(formatSegment(1, cues, 0)).toBe(
+      `${header}\n00:00:05.000 --> 00:00:06.500\n두 번째\n\n00:00:07.000 --> 00:00:09.000\n세 번째\n`,
+    );
+    expect(formatSegment(2, cues, 0)).toBe(header);
+  });
+
+  it("escapes markup in cue text", () => {
+    expect(formatSegment(0, [cue(0, 0, 1000, "<b>R&D</b>")], 0)).toContain("\n&lt;b&gt;R&amp;D&lt;/b&gt;\n");
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Live HLS subtitle rendition: segmented WebVTT built from finalized transcript segments
+ *
+ * Subtitle segment n covers [n, n + 1) × HLS_SEGMENT_MS on the transcript clock (ms since
+ * the room's first transcript event), so cue times match the stored segment times.
+ */
+import { TranscriptSegment, vttTimestamp } from "./transcript";
+
+export const HLS_SEGMENT_MS = 6000;
+/** Segments kept in the live playlist (sliding window) */
+export const HLS_WINDOW_SEGMENTS = 20;
+/**
+ * A segment is published this long after it ends: phrases are only stored once finalized,
+ * so cues near the live edge would otherwise be missing from already-fetched segments.
+ */
+export const HLS_PUBLISH_DELAY_MS = 10_000;
+
+export const HLS_CONTENT_TYPES = {
+  playlist: "application/vnd.apple.mpegurl",
+  segment: "text/vtt; charset=utf-8",
+};
+
+export interface SegmentRange {
+  first: number;
+  /** Inclusive; last < first means nothing is published yet */
+  last: number;
+}
+
+/** Live window: complete segments old enough to be final, newest HLS_WINDOW_SEGMENTS of them */
+export function liveSegmentRange(elapsedMs: number): SegmentRange {
+  const last = Math.floor((elapsedMs - HLS_PUBLISH_DELAY_MS) / HLS_SEGMENT_MS) - 1;
+  return { first: Math.max(0, last - HLS_WINDOW_SEGMENTS + 1), last };
+}
+
+/** Ended room: every segment up to the last cue */
+export function endedSegmentRange(segments: TranscriptSegment[]): SegmentRange {
+  const end = Math.max(0, ...segments.map((seg) => seg.end));
+  return { first: 0, last: Math.ceil(end / HLS_SEGMENT_MS) - 1 };
+}
+
+export interface PlaylistOptions {
+  range: SegmentRange;
+  /** Wall-clock time of transcript time 0 (for EXT-X-PROGRAM-DATE-TIME), if known */
+  startedAt: number | null;
+  ended: boolean;
+  segmentUri: (n: number) => string;
+}
+
+export function formatPlaylist({ range, startedAt, ended, segmentUri }: PlaylistOptions): string {
+  const lines = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:3",
+    `#EXT-X-TARGETDURATION:${HLS_SEGMENT_MS / 1000}`,
+    `#EXT-X-MEDIA-SEQUENCE:${range.first}`,
+  ];
+  if (ended) lines.push("#EXT-X-PLAYLIST-TYPE:VOD");
+  for (let n = range.first; n <= range.last; n++) {
+    if (startedAt !== null) {
+      lines.push(`#EXT-X-PROGRAM-DATE-TIME:${new Date(startedAt + n * HLS_SEGMENT_MS).toISOString()}`);
+    }
+    lines.push(`#EXTINF:${(HLS_SEGMENT_MS / 1000).toFixed(3)},`, segmentUri(n));
+  }
+  if (ended) lines.push("#EXT-X-ENDLIST");
+  return lines.join("\n") + "\n";
+}
+
+function escapeCueText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * WebVTT for segment n. Cues overlapping the segment boundary are repeated in both
+ * segments with identical timing, as HLS expects. `mpegts` maps transcript time 0 onto
+ * the video's 90 kHz presentation timestamps.
+ */
+export function formatSegment(n: number, segments: TranscriptSegment[], mpegts: number): string {
+  const from = n * HLS_SEGMENT_MS;
+  const to = from + HLS_SEGMENT_MS;
+  const cues = segments
+    .filter((seg) => seg.start < to && seg.end > from)
+    .sort((a, b) => a.start - b.start || a.id - b.id)
+    .map((seg) => `${vttTimestamp(seg.start)} --> ${vttTimestamp(seg.end)}\n${escapeCueText(seg.text)}\n`);
+  return [`WEBVTT\nX-TIMESTAMP-MAP=MPEGTS:${mpegts},LOCAL:00:00:00.000\n`, ...cues].join("\n");
+}
@@ -2,12 +2,19 @@
  * Cloudflare Worker entry: API routes + Durable Object export
  */
 import { RoomDO } from "./roomDO";
+import { parseSpeechRequest, parseTranslateRequest, synthesizeSpeech, translateText } from "./pipeline";
+import { TRANSCRIPT_FORMATS, isTranscriptFormat } from "./transcript";
 
 export { RoomDO };
 
 interface Env {
   ROOM: DurableObjectNamespace;
   GEMINI_API_KEY: string;
+  /**
+   * "local" issues mock tokens for the offline translation provider (VITE_TRANSLATION_PROVIDER=local)
+   * instead of Gemini ephemeral tokens, so no GEMINI_API_KEY is needed. Default: "gemini".
+   */
+  TRANSLATION_PROVIDER?: string;
   /**
    * Optional comma-separated allowlist for CORS (e.g. "https://app.example.com,http://localhost:5173")
    * Use "*" to allow all (current default behavior).
@@ -25,7 +32,7 @@ function corsHeadersFor(request: Request, env: Env): HeadersInit {
   if (allowed.includes("*")) {
     return {
       "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
       "Access-Control-Allow-Headers": "Content-Type",
     };
   }
@@ -34,7 +41,7 @@ function corsHeadersFor(request: Request, env: Env): HeadersInit {
   const allowOrigin = allowed.includes(origin) ? origin : "null";
   return {
     "Access-Control-Allow-Origin": allowOrigin,
-    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
     "Access-Control-Allow-Headers": "Content-Type",
     Vary: "Origin",
   };
@@ -58,17 +65,37 @@ export default {
     }
 
     // POST /api/rooms - create a new room
+    // Optional JSON body: { name?, ttlMinutes?, sourceLang?, targetLangs?, passcode? }
     if (path === "/api/rooms" && request.method === "POST") {
+      let options: unknown = {};
+      const text = await request.text();
+      if (text.trim()) {
+        try {
+          options = JSON.parse(text);
+        } catch {
+          return new Response(JSON.stringify({ error: "Invalid JSON" }), {
+            status: 400,
+            headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+          });
+        }
+      }
       const roomId = crypto.randomUUID().slice(0, 8);
       const speakerKey = crypto.randomUUID();
       const id = env.ROOM.idFromName(roomId);
       const room = env.ROOM.get(id);
-      await room.fetch(new Request("http://internal/init", {
+      const initRes = await room.fetch(new Request("http://internal/init", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ speakerKey }),
+        body: JSON.stringify({ speakerKey, options }),
       }));
-      return new Response(JSON.stringify({ roomId, speakerKey }), {
+      if (!initRes.ok) {
+        return new Response(initRes.body, {
+          status: initRes.status,
+          headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+        });
+      }
+      const { name, expiresAt } = await initRes.json() as { name: string | null; expiresAt: number };
+      return new Response(JSON.stringify({ roomId, speakerKey, name, expiresAt }), {
         headers: {
           ...corsHeaders,
           ...baseSecurityHeaders,
@@ -78,7 +105,7 @@ export default {
       });
     }
 
-    // POST /api/token - get ephemeral Gemini token (requires speakerKey)
+    // POST /api/token - get ephemeral Gemini token (requires speakerKey; mock token in local mode)
     if (path === "/api/token" && request.method === "POST") {
       let body: { roomId?: string; speakerKey?: string } = {};
       try {
@@ -139,6 +166,18 @@ export default {
         });
       }
 
+      // Offline provider: the token is never checked, it only has to exist
+      if (env.TRANSLATION_PROVIDER === "local") {
+        return new Response(JSON.stringify({ token: `local-${crypto.randomUUID()}`, provider: "local" }), {
+          headers: {
+            ...corsHeaders,
+            ...baseSecurityHeaders,
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store",
+          },
+        });
+      }
+
       // Request ephemeral token from Gemini (v1alpha auth_tokens endpoint)
       const tokenRes = await fetch(
         `https://generativelanguage.googleapis.com/v1alpha/auth_tokens?key=${env.GEMINI_API_KEY}`,
@@ -171,7 +210,96 @@ export default {
       });
     }
 
-    // GET /api/rooms/:roomId/status - check room existence and expiry
+    // POST /api/translate | /api/tts - pipeline mode: translate one sentence / speak it (requires speakerKey)
+    if ((path === "/api/translate" || path === "/api/tts") && request.method === "POST") {
+      let body: Record<string, unknown> = {};
+      try {
+        body = await request.json();
+      } catch {
+        return new Response(JSON.stringify({ error: "Invalid JSON" }), {
+          status: 400,
+          headers: {
+            ...corsHeaders,
+            ...baseSecurityHeaders,
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store",
+          },
+        });
+      }
+      const { roomId, speakerKey } = body;
+      if (typeof roomId !== "string" || typeof speakerKey !== "string" || !ROOM_ID_RE.test(roomId)) {
+        return new Response(JSON.stringify({ error: "Missing or invalid roomId / speakerKey" }), {
+          status: 400,
+          headers: {
+            ...corsHeaders,
+            ...baseSecurityHeaders,
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store",
+          },
+        });
+      }
+      const translateReq = path === "/api/translate" ? parseTranslateRequest(body) : null;
+      const speechReq = path === "/api/tts" ? parseSpeechRequest(body) : null;
+      if (!translateReq && !speechReq) {
+        return new Response(JSON.stringify({ error: "Invalid request" }), {
+          status: 400,
+          headers: {
+            ...corsHeaders,
+            ...baseSecurityHeaders,
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store",
+          },
+        });
+      }
+
+      // Validate speakerKey with the room
+      const id = env.ROOM.idFromName(roomId);
+      const room = env.ROOM.get(id);
+      const validRes = await room.fetch(new Request("http://internal/validate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ speakerKey }),
+      }));
+      const valid = await validRes.json() as { valid: boolean };
+      if (!valid.valid) {
+        return new Response(JSON.stringify({ error: "Invalid speakerKey" }), {
+          status: 403,
+          headers: {
+            ...corsHeaders,
+            ...baseSecurityHeaders,
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store",
+          },
+        });
+      }
+
+      try {
+        const result = translateReq
+          ? { text: await translateText(env.GEMINI_API_KEY, translateReq) }
+          : { audio: await synthesizeSpeech(env.GEMINI_API_KEY, speechReq!) };
+        return new Response(JSON.stringify(result), {
+          headers: {
+            ...corsHeaders,
+            ...baseSecurityHeaders,
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store",
+          },
+        });
+      } catch (err) {
+        console.error(`Pipeline ${path} failed`, err);
+        return new Response(JSON.stringify({ error: translateReq ? "Translation failed" : "Speech synthesis failed" }), {
+          status: 502,
+          headers: {
+            ...corsHeaders,
+            ...baseSecurityHeaders,
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store",
+          },
+        });
+      }
+    }
+
+    // GET /api/rooms/:roomId/status[?key=...] - check room existence and expiry (+ room details for presenters)
     const statusMatch = path.match(/^\/api\/rooms\/([^/]+)\/status$/);
     if (statusMatch && request.method === "GET") {
       const roomId = statusMatch[1];
@@ -182,13 +310,266 @@ export default {
       }
       const id = env.ROOM.idFromName(roomId);
       const room = env.ROOM.get(id);
-      const res = await room.fetch(new Request("http://internal/status", { method: "GET" }));
+      const internal = new URL("http://internal/status");
+      const key = url.searchParams.get("key");
+      if (key) internal.searchParams.set("key", key);
+      const res = await room.fetch(new Request(internal, { method: "GET" }));
       const data = await res.json();
       return new Response(JSON.stringify(data), {
         headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
       });
     }
 
+    // PATCH /api/rooms/:roomId - extend expiry / rename / set passcode (body: { speakerKey, extendMinutes?, name?, passcode? })
+    const roomMatch = path.match(/^\/api\/rooms\/([^/]+)$/);
+    if (roomMatch && request.method === "PATCH") {
+      const roomId = roomMatch[1];
+      if (!ROOM_ID_RE.test(roomId)) {
+        return new Response(JSON.stringify({ error: "Invalid roomId" }), {
+          status: 400,
+          headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+        });
+      }
+      const body = await request.text();
+      try {
+        JSON.parse(body);
+      } catch {
+        return new Response(JSON.stringify({ error: "Invalid JSON" }), {
+          status: 400,
+          headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+        });
+      }
+      const id = env.ROOM.idFromName(roomId);
+      const room = env.ROOM.get(id);
+      const res = await room.fetch(new Request("http://internal/room", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body,
+      }));
+      return new Response(res.body, {
+        status: res.status,
+        headers: {
+          ...corsHeaders,
+          ...baseSecurityHeaders,
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    // POST /api/rooms/:roomId/join - check an audience passcode (body: { passcode }); returns { valid, token }, 429 while backing off
+    // DELETE /api/rooms/:roomId/listeners[/:listenerId] - disconnect listeners (body: { speakerKey })
+    const joinMatch = path.match(/^\/api\/rooms\/([^/]+)\/join$/);
+    const listenersMatch = path.match(/^\/api\/rooms\/([^/]+)\/listeners(?:\/([a-f0-9]{8}))?$/);
+    if ((joinMatch && request.method === "POST") || (listenersMatch && request.method === "DELETE")) {
+      const roomId = (joinMatch ?? listenersMatch)![1];
+      if (!ROOM_ID_RE.test(roomId)) {
+        return new Response(JSON.stringify({ error: "Invalid roomId" }), {
+          status: 400,
+          headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+        });
+      }
+      const body = await request.text();
+      try {
+        JSON.parse(body);
+      } catch {
+        return new Response(JSON.stringify({ error: "Invalid JSON" }), {
+          status: 400,
+          headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+        });
+      }
+      const internal = new URL(joinMatch ? "http://internal/join" : "http://internal/listeners");
+      if (listenersMatch?.[2]) internal.searchParams.set("id", listenersMatch[2]);
+      const id = env.ROOM.idFromName(roomId);
+      const room = env.ROOM.get(id);
+      const res = await room.fetch(new Request(internal, {
+        method: request.method,
+        headers: { "Content-Type": "application/json" },
+        body,
+      }));
+      const retryAfter = res.headers.get("Retry-After");
+      return new Response(res.body, {
+        status: res.status,
+        headers: {
+          ...corsHeaders,
+          ...baseSecurityHeaders,
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+          ...(retryAfter ? { "Retry-After": retryAfter } : {}),
+        },
+      });
+    }
+
+    // GET /api/rooms/:roomId/presenters?key=... - caller identity (+ all presenters for the host)
+    // POST /api/rooms/:roomId/presenters - add a presenter (body: { speakerKey, name })
+    // DELETE /api/rooms/:roomId/presenters/:presenterId - remove a presenter (body: { speakerKey })
+    const presentersMatch = path.match(/^\/api\/rooms\/([^/]+)\/presenters(?:\/([a-f0-9]{8}))?$/);
+    if (
+      presentersMatch &&
+      ((!presentersMatch[2] && (request.method === "GET" || request.method === "POST")) ||
+        (presentersMatch[2] && request.method === "DELETE"))
+    ) {
+      const [, roomId, presenterId] = presentersMatch;
+      if (!ROOM_ID_RE.test(roomId)) {
+        return new Response(JSON.stringify({ error: "Invalid roomId" }), {
+          status: 400,
+          headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+        });
+      }
+      let body: string | undefined;
+      if (request.method !== "GET") {
+        body = await request.text();
+        try {
+          JSON.parse(body);
+        } catch {
+          return new Response(JSON.stringify({ error: "Invalid JSON" }), {
+            status: 400,
+            headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+          });
+        }
+      }
+      const internal = new URL("http://internal/presenters");
+      const key = url.searchParams.get("key");
+      if (key) internal.searchParams.set("key", key);
+      if (presenterId) internal.searchParams.set("id", presenterId);
+      const id = env.ROOM.idFromName(roomId);
+      const room = env.ROOM.get(id);
+      const res = await room.fetch(new Request(internal, {
+        method: request.method,
+        headers: { "Content-Type": "application/json" },
+        body,
+      }));
+      return new Response(res.body, {
+        status: res.status,
+        headers: {
+          ...corsHeaders,
+          ...baseSecurityHeaders,
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    // GET|PUT /api/rooms/:roomId/(glossary|context) - room glossary / sermon context (GET ?key=..., PUT speakerKey in body)
+    const settingsMatch = path.match(/^\/api\/rooms\/([^/]+)\/(glossary|context)$/);
+    if (settingsMatch && (request.method === "GET" || request.method === "PUT")) {
+      const [, roomId, setting] = settingsMatch;
+      if (!ROOM_ID_RE.test(roomId)) {
+        return new Response(JSON.stringify({ error: "Invalid roomId" }), {
+          status: 400,
+          headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+        });
+      }
+      let body: string | undefined;
+      if (request.method === "PUT") {
+        body = await request.text();
+        try {
+          JSON.parse(body);
+        } catch {
+          return new Response(JSON.stringify({ error: "Invalid JSON" }), {
+            status: 400,
+            headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+          });
+        }
+      }
+      const internal = new URL(`http://internal/${setting}`);
+      const key = url.searchParams.get("key");
+      if (request.method === "GET" && key) internal.searchParams.set("key", key);
+      const id = env.ROOM.idFromName(roomId);
+      const room = env.ROOM.get(id);
+      const res = await room.fetch(new Request(internal, {
+        method: request.method,
+        headers: { "Content-Type": "application/json" },
+        body,
+      }));
+      return new Response(res.body, {
+        status: res.status,
+        headers: {
+          ...corsHeaders,
+          ...baseSecurityHeaders,
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    // GET /api/rooms/:roomId/transcript?format=srt|vtt|txt|json&lang=xx - export bilingual transcript
+    // Passcode-protected rooms also need ?token= (from /join) or ?key= (speaker)
+    const transcriptMatch = path.match(/^\/api\/rooms\/([^/]+)\/transcript$/);
+    if (transcriptMatch && request.method === "GET") {
+      const roomId = transcriptMatch[1];
+      if (!ROOM_ID_RE.test(roomId)) {
+        return new Response(JSON.stringify({ error: "Invalid roomId" }), {
+          status: 400,
+          headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+        });
+      }
+      const format = url.searchParams.get("format") ?? "json";
+      if (!isTranscriptFormat(format)) {
+        return new Response(JSON.stringify({ error: "Invalid format" }), {
+          status: 400,
+          headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+        });
+      }
+      const internal = new URL("http://internal/transcript");
+      internal.searchParams.set("format", format);
+      for (const name of ["lang", "token", "key"]) {
+        const value = url.searchParams.get(name);
+        if (value) internal.searchParams.set(name, value);
+      }
+
+      const id = env.ROOM.idFromName(roomId);
+      const room = env.ROOM.get(id);
+      const res = await room.fetch(new Request(internal, { method: "GET" }));
+      const headers: Record<string, string> = {
+        ...corsHeaders,
+        ...baseSecurityHeaders,
+        "Content-Type": res.headers.get("Content-Type") ?? "application/json",
+        "Cache-Control": "no-store",
+      };
+      if (res.ok && format !== "json") {
+        headers["Content-Disposition"] = `attachment; filename="sermon-${roomId}.${TRANSCRIPT_FORMATS[format].ext}"`;
+      }
+      return new Response(res.body, { status: res.status, headers });
+    }
+
+    // GET /api/rooms/:roomId/subtitles/:lang.m3u8 - live HLS subtitle playlist (segmented WebVTT)
+    // GET /api/rooms/:roomId/subtitles/:lang/:n.vtt - one subtitle segment
+    // Optional ?mpegts=<90 kHz ticks> maps transcript time 0 onto the video's timestamps
+    // Passcode-protected rooms also need ?token= (from /join) or ?key= (speaker)
+    const subtitlesMatch = path.match(/^\/api\/rooms\/([^/]+)\/subtitles\/([^/.]+)(?:\.m3u8|\/(\d+)\.vtt)$/);
+    if (subtitlesMatch && request.method === "GET") {
+      const [, roomId, lang, segment] = subtitlesMatch;
+      if (!ROOM_ID_RE.test(roomId)) {
+        return new Response(JSON.stringify({ error: "Invalid roomId" }), {
+          status: 400,
+          headers: { ...corsHeaders, ...baseSecurityHeaders, "Content-Type": "application/json" },
+        });
+      }
+      const internal = new URL("http://internal/subtitles");
+      internal.searchParams.set("lang", lang);
+      if (segment !== undefined) internal.searchParams.set("segment", segment);
+      for (const name of ["mpegts", "token", "key"]) {
+        const value = url.searchParams.get(name);
+        if (value) internal.searchParams.set(name, value);
+      }
+
+      const id = env.ROOM.idFromName(roomId);
+      const room = env.ROOM.get(id);
+      const res = await room.fetch(new Request(internal, { method: "GET" }));
+      return new Response(res.body, {
+        status: res.status,
+        headers: {
+          ...corsHeaders,
+          ...baseSecurityHeaders,
+          "Content-Type": res.headers.get("Content-Type") ?? "application/json",
+          // Published segments never change unless a phrase is still open (the room says no-store then;
+          // private: protected rooms' segments carry credentials); the playlist is re-polled
+          "Cache-Control": res.ok && segment !== undefined ? res.headers.get("Cache-Control") ?? "private, max-age=3600" : "no-store",
+        },
+      });
+    }
+
     // WebSocket /api/rooms/:roomId/ws
     const wsMatch = path.match(/^\/api\/rooms\/([^/]+)\/ws$/);
     if (wsMatch) {
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  NO_PASSCODE_ATTEMPTS,
+  PasscodeAttempts,
+  checkPasscode,
+  createPasscode,
+  passcodeRetryAfterMs,
+  recordPasscodeFailure,
+} from "./passcode";
+
+const MINUTE = 60 * 1000;
+
+function failures(count: number, at: number): PasscodeAttempts {
+  let attempts = NO_PASSCODE_ATTEMPTS;
+  for (let i = 0; i < count; i++) attempts = recordPasscodeFailure(attempts, at);
+  return attempts;
+}
+
+describe("passcode checks", () => {
+  it("accepts only the passcode it was created from", async () => {
+    const stored = await createPasscode("shepherd");
+    expect(stored.hash).not.toContain("shepherd");
+    expect(await checkPasscode(stored, "shepherd")).toBe(true);
+    expect(await checkPasscode(stored, "Shepherd")).toBe(false);
+    expect(await checkPasscode(stored, null)).toBe(false);
+    expect(await checkPasscode(stored, "x".repeat(65))).toBe(false);
+    expect(await checkPasscode(null, null)).toBe(true);
+  });
+
+  it("still accepts passcodes hashed before PBKDF2", async () => {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode("abc:shepherd"));
+    const hash = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+    expect(await checkPasscode({ salt: "abc", hash }, "shepherd")).toBe(true);
+    expect(await checkPasscode({ salt: "abc", hash }, "sheep")).toBe(false);
+  });
+});
+
+describe("passcode backoff", () => {
+  it("lets the first wrong guesses through, then doubles the wait", () => {
+    const now = 1_000_000;
+    expect(passcodeRetryAfterMs(failures(4, now), now)).toBe(0);
+    expect(passcodeRetryAfterMs(failures(5, now), now)).toBe(2000);
+    expect(passcodeRetryAfterMs(failures(6, now), now)).toBe(4000);
+    expect(passcodeRetryAfterMs(failures(6, now), now + 3000)).toBe(1000);
+    expect(passcodeRetryAfterMs(failures(6, now), now + 4000)).toBe(0);
+  });
+
+  it("caps the wait at five minutes", () => {
+    expect(passcodeRetryAfterMs(failures(30, 0), 0)).toBe(5 * MINUTE);
+  });
+
+  it("forgets failures after a quiet quarter hour", () => {
+    const attempts = failures(20, 0);
+    expect(passcodeRetryAfterMs(attempts, 15 * MINUTE + 1)).toBe(0);
+    expect(recordPasscodeFailure(attempts, 15 * MINUTE + 1)).toEqual({ failures: 1, lastFailureAt: 15 * MINUTE + 1 });
+    expect(recordPasscodeFailure(attempts, 15 * MINUTE)).toEqual({ failures: 21, lastFailureAt: 15 * MINUTE });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Optional audience passcode: stored salted + hashed (PBKDF2), never in plain text,
+ * with a room-wide backoff after repeated wrong guesses
+ */
+
+export interface StoredPasscode {
+  salt: string;
+  hash: string;
+  /** PBKDF2-SHA256 iterations; absent on passcodes hashed with a single SHA-256 before PBKDF2 */
+  iterations?: number;
+}
+
+/** Recent wrong passcodes for one room */
+export interface PasscodeAttempts {
+  failures: number;
+  lastFailureAt: number;
+}
+
+export const NO_PASSCODE_ATTEMPTS: PasscodeAttempts = { failures: 0, lastFailureAt: 0 };
+
+/** Workers' PBKDF2 accepts at most 100k iterations */
+const PBKDF2_ITERATIONS = 100_000;
+
+const ATTEMPT_LIMITS = {
+  /** Wrong guesses allowed before attempts are spaced out */
+  FREE_FAILURES: 5,
+  BASE_DELAY_MS: 2000,
+  MAX_DELAY_MS: 5 * 60 * 1000,
+  /** Failures are forgotten after this long without one */
+  RESET_AFTER_MS: 15 * 60 * 1000,
+} as const;
+
+export const PASSCODE_LIMITS = {
+  MIN_LENGTH: 4,
+  MAX_LENGTH: 64,
+} as const;
+
+export function isValidPasscode(value: unknown): value is string {
+  return typeof value === "string" && value.length >= PASSCODE_LIMITS.MIN_LENGTH && value.length <= PASSCODE_LIMITS.MAX_LENGTH;
+}
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return [...new Uint8Array(bytes)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function hash(passcode: string, salt: string, iterations: number | undefined): Promise<string> {
+  const encoder = new TextEncoder();
+  if (iterations === undefined) {
+    return toHex(await crypto.subtle.digest("SHA-256", encoder.encode(`${salt}:${passcode}`)));
+  }
+  const key = await crypto.subtle.importKey("raw", encoder.encode(passcode), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt: encoder.encode(salt), iterations }, key, 256);
+  return toHex(bits);
+}
+
+export async function createPasscode(passcode: string): Promise<StoredPasscode> {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return { salt, hash: await hash(passcode, salt, PBKDF2_ITERATIONS), iterations: PBKDF2_ITERATIONS };
+}
+
+/** True when no passcode is set, or `input` matches it */
+export async function checkPasscode(stored: StoredPasscode | null, input: string | null): Promise<boolean> {
+  if (!stored) return true;
+  if (!input || input.length > PASSCODE_LIMITS.MAX_LENGTH) return false;
+  return safeEqual(await hash(input, stored.salt, stored.iterations), stored.hash);
+}
+
+/** Milliseconds until the room accepts another passcode guess (0 = now) */
+export function passcodeRetryAfterMs(attempts: PasscodeAttempts, now: number): number {
+  if (now - attempts.lastFailureAt > ATTEMPT_LIMITS.RESET_AFTER_MS) return 0;
+  const excess = attempts.failures - ATTEMPT_LIMITS.FREE_FAILURES;
+  if (excess < 0) return 0;
+  const delay = Math.min(ATTEMPT_LIMITS.MAX_DELAY_MS, ATTEMPT_LIMITS.BASE_DELAY_MS * 2 ** excess);
+  return Math.max(0, attempts.lastFailureAt + delay - now);
+}
+
+/** Count one more wrong guess (older failures past RESET_AFTER_MS no longer count) */
+export function recordPasscodeFailure(attempts: PasscodeAttempts, now: number): PasscodeAttempts {
+  const stale = now - attempts.lastFailureAt > ATTEMPT_LIMITS.RESET_AFTER_MS;
+  return { failures: (stale ? 0 : attempts.failures) + 1, lastFailureAt: now };
+}
+
+/** Constant-time compare for fixed-length secrets (hex hashes, tokens) */
+export function safeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
@@ -0,0 +1,146 @@
+/**
+ * Text translation and speech synthesis for the speaker's pipeline mode (Gemini REST API)
+ *
+ * The speaker page recognizes speech itself and calls these per sentence, so each request is
+ * small and self-contained: the sentence, a few preceding sentences, glossary and sermon notes.
+ */
+import { isLangCode, PROTOCOL_LIMITS } from "./validate";
+
+const GEMINI_API = "https://generativelanguage.googleapis.com/v1beta/models";
+const TRANSLATE_MODEL = "gemini-2.5-flash";
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const TTS_VOICE = "Kore";
+
+export const PIPELINE_LIMITS = {
+  MAX_CONTEXT_SENTENCES: 3,
+  /** Same as the room glossary, so a full one always passes */
+  MAX_GLOSSARY_ENTRIES: 500,
+  MAX_GLOSSARY_TERM_LENGTH: 200,
+  MAX_SERMON_FIELD_LENGTH: 1000,
+} as const;
+
+export interface TranslateRequest {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  context: string[];
+  glossary: { source: string; target: string }[];
+  sermon: { title: string; scripture: string; names: string } | null;
+}
+
+export interface SpeechRequest {
+  text: string;
+  lang: string;
+}
+
+type Fields = Record<string, unknown>;
+
+function isText(value: unknown, max: number): value is string {
+  return typeof value === "string" && value.length <= max;
+}
+
+/** Validate a translate request body; null if malformed or over limits */
+export function parseTranslateRequest(body: Fields): TranslateRequest | null {
+  const { text, sourceLang, targetLang, context = [], glossary = [], sermon } = body;
+  if (!isText(text, PROTOCOL_LIMITS.MAX_TEXT_LENGTH) || !text.trim()) return null;
+  if (!isLangCode(sourceLang) || !isLangCode(targetLang)) return null;
+  if (!Array.isArray(context) || context.length > PIPELINE_LIMITS.MAX_CONTEXT_SENTENCES) return null;
+  if (!context.every((s) => isText(s, PROTOCOL_LIMITS.MAX_TEXT_LENGTH))) return null;
+  if (!Array.isArray(glossary) || glossary.length > PIPELINE_LIMITS.MAX_GLOSSARY_ENTRIES) return null;
+  const entries: TranslateRequest["glossary"] = [];
+  for (const entry of glossary as Fields[]) {
+    if (!entry || typeof entry !== "object") return null;
+    const { source, target } = entry;
+    if (!isText(source, PIPELINE_LIMITS.MAX_GLOSSARY_TERM_LENGTH) || !isText(target, PIPELINE_LIMITS.MAX_GLOSSARY_TERM_LENGTH)) return null;
+    entries.push({ source, target });
+  }
+  let notes: TranslateRequest["sermon"] = null;
+  if (sermon !== undefined && sermon !== null) {
+    if (typeof sermon !== "object") return null;
+    const { title = "", scripture = "", names = "" } = sermon as Fields;
+    const max = PIPELINE_LIMITS.MAX_SERMON_FIELD_LENGTH;
+    if (!isText(title, max) || !isText(scripture, max) || !isText(names, max)) return null;
+    notes = { title, scripture, names };
+  }
+  return { text, sourceLang, targetLang, context: context as string[], glossary: entries, sermon: notes };
+}
+
+/** Validate a speech request body; null if malformed or over limits */
+export function parseSpeechRequest(body: Fields): SpeechRequest | null {
+  const { text, lang } = body;
+  if (!isText(text, PROTOCOL_LIMITS.MAX_TEXT_LENGTH) || !text.trim() || !isLangCode(lang)) return null;
+  return { text, lang };
+}
+
+function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+function translationInstruction(req: TranslateRequest): string {
+  const source = languageName(req.sourceLang);
+  const target = languageName(req.targetLang);
+  const lines = [
+    `You translate a live church sermon from ${source} into ${target}, one sentence at a time.`,
+    `Reply with the ${target} translation of the sentence only: no quotes, notes or alternatives.`,
+    "Keep the preacher's tone; use the customary wording for Bible verses and names.",
+  ];
+  if (req.glossary.length) {
+    lines.push("", "Always translate these terms as given:");
+    for (const { source: term, target: translation } of req.glossary) lines.push(`- ${term} → ${translation}`);
+  }
+  if (req.sermon) {
+    const { title, scripture, names } = req.sermon;
+    if (title.trim()) lines.push("", `Sermon title: ${title.trim()}`);
+    if (scripture.trim()) lines.push(`Scripture: ${scripture.trim()}`);
+    if (names.trim()) lines.push(`Names: ${names.trim()}`);
+  }
+  if (req.context.length) {
+    lines.push("", "Preceding sentences (for context, do not translate):");
+    for (const sentence of req.context) lines.push(`- ${sentence}`);
+  }
+  return lines.join("\n");
+}
+
+interface GenerateContentResponse {
+  candidates?: { content?: { parts?: { text?: string; inlineData?: { data?: string } }[] } }[];
+}
+
+async function generateContent(apiKey: string, model: string, body: unknown): Promise<GenerateContentResponse> {
+  const res = await fetch(`${GEMINI_API}/${model}:generateContent?key=${apiKey}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(`${model} error (${res.status})`);
+  return await res.json() as GenerateContentResponse;
+}
+
+/** Translated sentence; throws if the model fails or returns nothing */
+export async function translateText(apiKey: string, req: TranslateRequest): Promise<string> {
+  const data = await generateContent(apiKey, TRANSLATE_MODEL, {
+    systemInstruction: { parts: [{ text: translationInstruction(req) }] },
+    contents: [{ role: "user", parts: [{ text: req.text }] }],
+    generationConfig: { temperature: 0.2, thinkingConfig: { thinkingBudget: 0 } },
+  });
+  const text = (data.candidates?.[0]?.content?.parts ?? []).map((part) => part.text ?? "").join("").trim();
+  if (!text) throw new Error("Empty translation");
+  return text;
+}
+
+/** Base64 PCM16 @ 24kHz mono; the TTS model detects the language from the text */
+export async function synthesizeSpeech(apiKey: string, req: SpeechRequest): Promise<string> {
+  const data = await generateContent(apiKey, TTS_MODEL, {
+    contents: [{ role: "user", parts: [{ text: req.text }] }],
+    generationConfig: {
+      responseModalities: ["AUDIO"],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: TTS_VOICE } } },
+    },
+  });
+  const audio = data.candidates?.[0]?.content?.parts?.find((part) => part.inlineData?.data)?.inlineData?.data;
+  if (!audio) throw new Error("Empty speech");
+  return audio;
+}
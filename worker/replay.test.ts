@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { BufferedEvent, ReplayBuffer } from "./replay";
+
+function event(seq: number, lang: string | null = null): BufferedEvent {
+  return { seq, type: "out_text", data: JSON.stringify({ t: "out_text", seq, text: `#${seq}` }), lang };
+}
+
+function seqs(events: BufferedEvent[]): number[] {
+  return events.map((e) => e.seq);
+}
+
+describe("ReplayBuffer", () => {
+  it("replays everything after the listener's last seq", () => {
+    const replay = new ReplayBuffer(10);
+    [1, 2, 3, 4].forEach((seq) => replay.push(event(seq)));
+    expect(replay.since(2)).toEqual({ gap: null, events: [event(3), event(4)] });
+    expect(replay.since(4)).toEqual({ gap: null, events: [] });
+  });
+
+  it("reports no gap when the listener only missed unbuffered audio seqs", () => {
+    const replay = new ReplayBuffer(10);
+    // 2-4 and 6 were audio frames: they took seqs but were never buffered
+    [1, 5, 7].forEach((seq) => replay.push(event(seq)));
+    expect(replay.since(1)).toEqual({ gap: null, events: [event(5), event(7)] });
+    expect(replay.since(3)).toEqual({ gap: null, events: [event(5), event(7)] });
+  });
+
+  it("reports a gap for events dropped after the listener's last seq", () => {
+    const replay = new ReplayBuffer(3);
+    expect([2, 4, 6].map((seq) => replay.push(event(seq)))).toEqual([null, null, null]);
+    expect(replay.push(event(8))).toEqual(event(2));
+    expect(replay.push(event(10))).toEqual(event(4));
+    expect(replay.dropped).toBe(4);
+
+    const late = replay.since(1);
+    expect(late.gap).toEqual({ from: 2, to: 4 });
+    expect(seqs(late.events)).toEqual([6, 8, 10]);
+    // Audio 5 is not a loss: event 4 was already delivered
+    expect(replay.since(4).gap).toBeNull();
+    expect(replay.since(5).gap).toBeNull();
+  });
+
+  it("resumes from stored entries after a wake", () => {
+    const replay = new ReplayBuffer(3);
+    replay.restore([event(9), event(7), event(8), event(6)], 5);
+    expect(seqs(replay.since(0).events)).toEqual([7, 8, 9]);
+    // 6 no longer fits
+    expect(replay.since(0).gap).toEqual({ from: 1, to: 6 });
+    expect(replay.since(5).gap).toEqual({ from: 6, to: 6 });
+    expect(replay.since(6).gap).toBeNull();
+
+    replay.clear();
+    expect(replay.since(0)).toEqual({ gap: null, events: [] });
+  });
+
+  it("collects storage writes for one batch", () => {
+    const replay = new ReplayBuffer(2);
+    replay.push(event(1));
+    replay.push(event(2));
+    expect(replay.takeChanges()).toEqual({ put: [event(1), event(2)], remove: [], droppedThrough: 0 });
+    expect(replay.takeChanges()).toBeNull();
+
+    replay.push(event(3));
+    replay.push(event(4));
+    replay.push(event(5));
+    // 3 was dropped before it was ever written
+    expect(replay.takeChanges()).toEqual({ put: [event(4), event(5)], remove: [1, 2], droppedThrough: 3 });
+  });
+
+  it("reports events lost before a wake as a gap", () => {
+    const replay = new ReplayBuffer(10);
+    replay.restore([event(1), event(2)], 0);
+    replay.markLost(102);
+    expect(replay.since(2).gap).toEqual({ from: 3, to: 102 });
+    replay.push(event(103));
+    expect(replay.since(102)).toEqual({ gap: null, events: [event(103)] });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Reconnect replay: recent non-audio events kept for listeners that come back
+ *
+ * Audio and speaker-only events take room seqs too but are never buffered, so a missing
+ * seq is not a loss by itself. A gap is only reported when buffered events after the
+ * listener's last seq have been dropped from the buffer.
+ */
+
+/** Recent event kept for audience replay (audio is never buffered) */
+export interface BufferedEvent {
+  seq: number;
+  type: string;
+  data: string;
+  lang: string | null;
+}
+
+export interface Replay {
+  /** Seqs whose events can no longer be replayed (null = nothing missed) */
+  gap: { from: number; to: number } | null;
+  events: BufferedEvent[];
+}
+
+/** Storage writes the buffer has accumulated since they were last taken */
+export interface ReplayChanges {
+  put: BufferedEvent[];
+  remove: number[];
+  droppedThrough: number;
+}
+
+export class ReplayBuffer {
+  private entries: BufferedEvent[] = [];
+  /** Seq of the newest event dropped from the buffer (0 = none yet) */
+  private droppedThrough = 0;
+  /** Not written yet: seq -> entry to store, or null when a stored entry was dropped */
+  private unsaved = new Map<number, BufferedEvent | null>();
+
+  constructor(private size: number) {}
+
+  /** Resume after a wake from hibernation */
+  restore(entries: BufferedEvent[], droppedThrough: number): void {
+    const sorted = entries.sort((a, b) => a.seq - b.seq);
+    this.entries = sorted.slice(-this.size);
+    const overflow = sorted.slice(0, sorted.length - this.entries.length);
+    this.droppedThrough = Math.max(droppedThrough, overflow.at(-1)?.seq ?? 0);
+    this.unsaved = new Map(overflow.map((entry) => [entry.seq, null]));
+  }
+
+  get dropped(): number {
+    return this.droppedThrough;
+  }
+
+  /** Add the newest event; returns the one it pushed out, if any */
+  push(entry: BufferedEvent): BufferedEvent | null {
+    this.entries.push(entry);
+    this.unsaved.set(entry.seq, entry);
+    if (this.entries.length <= this.size) return null;
+    const oldest = this.entries.shift()!;
+    this.droppedThrough = oldest.seq;
+    // Never written: nothing to delete
+    if (this.unsaved.get(oldest.seq)) this.unsaved.delete(oldest.seq);
+    else this.unsaved.set(oldest.seq, null);
+    return oldest;
+  }
+
+  /** Events up to `seq` may have gone out without being kept (e.g. unsaved before an eviction) */
+  markLost(seq: number): void {
+    this.droppedThrough = Math.max(this.droppedThrough, seq);
+  }
+
+  /** Writes pending since the last call (null = none), so storage can be updated in one batch */
+  takeChanges(): ReplayChanges | null {
+    if (!this.unsaved.size) return null;
+    const changes: ReplayChanges = { put: [], remove: [], droppedThrough: this.droppedThrough };
+    for (const [seq, entry] of this.unsaved) {
+      if (entry) changes.put.push(entry);
+      else changes.remove.push(seq);
+    }
+    this.unsaved.clear();
+    return changes;
+  }
+
+  /** What a listener whose last event was `since` missed */
+  since(since: number): Replay {
+    return {
+      gap: since < this.droppedThrough ? { from: since + 1, to: this.droppedThrough } : null,
+      events: this.entries.filter((entry) => entry.seq > since),
+    };
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.droppedThrough = 0;
+    this.unsaved.clear();
+  }
+}
@@ -1,8 +1,71 @@
 /**
  * Room Durable Object: manages WebSocket fan-out for speaker -> audience
+ *
+ * Sockets use the hibernation API: each socket's role and subscription live in its
+ * attachment, and room-level state (lang_info, open transcript phrases) is persisted,
+ * so the object can be evicted between utterances and wake up unchanged.
  */
-const ROOM_TTL_MS = 2 * 60 * 60 * 1000; // 48 hours
-// const ROOM_TTL_MS = 3 * 60 * 1000; // 1 minute
+import {
+  OpenSegment,
+  SegmentBuilder,
+  SEGMENT_KEY_PREFIX,
+  TRANSCRIPT_FORMATS,
+  TranscriptSegment,
+  formatTranscript,
+  isTranscriptFormat,
+  pairSegments,
+  segmentKey,
+} from "./transcript";
+import {
+  HLS_CONTENT_TYPES,
+  HLS_SEGMENT_MS,
+  endedSegmentRange,
+  formatPlaylist,
+  formatSegment,
+  liveSegmentRange,
+} from "./hls";
+import {
+  EVENT_MIN_VERSION,
+  GlossaryEntry,
+  PROTOCOL_LIMITS,
+  PROTOCOL_VERSION,
+  SpeakerControl,
+  SpeakerEvent,
+  isLangCode,
+  parseGlossary,
+  parseProtocolVersion,
+  parseSpeakerControl,
+  validateListenerMessage,
+  validateSpeakerEvent,
+} from "./validate";
+import {
+  NO_PASSCODE_ATTEMPTS,
+  PasscodeAttempts,
+  StoredPasscode,
+  checkPasscode,
+  createPasscode,
+  isValidPasscode,
+  passcodeRetryAfterMs,
+  recordPasscodeFailure,
+  safeEqual,
+} from "./passcode";
+import { detectScripture, formatScriptureRef } from "./scripture";
+import { BufferedEvent, ReplayBuffer } from "./replay";
+import { AudioCodec, AudioPacket, audioPacketFromJson, audioPacketToJson, decodeAudioFrame, encodeAudioFrame } from "./audioFrame";
+
+/** Room lifetime bounds; creators pick a TTL in minutes within these */
+const ROOM_TTL_LIMITS = {
+  DEFAULT_MS: 2 * 60 * 60 * 1000,
+  MIN_MS: 15 * 60 * 1000,
+  MAX_MS: 72 * 60 * 60 * 1000,
+} as const;
+/** Listeners and the speaker are warned this long before the room closes */
+const EXPIRY_WARNING_MS = 10 * 60 * 1000;
+const MAX_ROOM_NAME_LENGTH = 100;
+/** Transcripts stay downloadable this long after the room itself expires */
+const TRANSCRIPT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+/** Newest stored segments scanned for a live subtitle segment (the playlist window, all streams) */
+const LIVE_SUBTITLE_SCAN_LIMIT = 500;
 
 interface Env {
   /**
@@ -15,16 +78,217 @@ interface Env {
 interface RoomState {
   speakerKey: string | null;
   seq: number;
+  /** `seq` is the last one sent (written once events pause); false while it may lag behind */
+  seqExact: boolean;
+  /** Display name chosen at creation (shown on speaker/audience pages) */
+  name: string | null;
+  /** Languages preselected on the speaker page */
+  defaultLangs: DefaultLangs | null;
+  expiresAt: number | null;
+  /** The pre-expiry warning has been sent for the current expiresAt */
+  expiryWarned: boolean;
+  /** Audience passcode (null = open room) */
+  passcode: StoredPasscode | null;
+  /** Handed out by /join for the current passcode; opens the audience socket, transcript and subtitles */
+  audienceToken: string | null;
+  /** Wrong passcode guesses, for the brute-force backoff */
+  passcodeAttempts: PasscodeAttempts;
+  /** Additional presenter credentials created by the host */
+  presenters: Presenter[];
+  /** Presenter id currently holding the floor (only their events reach the audience) */
+  floor: string | null;
+  /** Wall-clock time of the first transcript event; segment times are relative to it */
+  transcriptStartedAt: number | null;
+  segmentCount: number;
+  presence: PresenceStats;
+}
+
+/** Listener statistics for the post-service summary */
+interface PresenceStats {
+  peak: number;
+  peakAt: number | null;
+  /** Sum of listeners x milliseconds since the first listener joined */
+  listenerMs: number;
+  firstJoinAt: number | null;
+  lastChangeAt: number | null;
+  current: number;
+}
+
+const EMPTY_PRESENCE: PresenceStats = { peak: 0, peakAt: null, listenerMs: 0, firstJoinAt: null, lastChangeAt: null, current: 0 };
+
+interface DefaultLangs {
+  sourceLang: string;
+  targetLangs: string[];
+}
+
+/** Options accepted by POST /api/rooms (all optional) */
+interface RoomOptions {
+  name: string | null;
+  ttlMs: number;
+  defaultLangs: DefaultLangs | null;
+  passcode: string | null;
+}
+
+/** Named speaker credential; the room's own speakerKey is the host presenter */
+interface Presenter {
+  id: string;
+  name: string;
+  key: string;
+}
+
+interface PresenterIdentity {
+  id: string;
+  name: string;
+  /** Host: may manage the room (expiry, passcode, listeners, presenters) */
+  owner: boolean;
+}
+
+/** Who may read the transcript and subtitles; kept with the transcript after the room expires */
+interface ReadAccess {
+  /** Host and presenter keys */
+  keys: string[];
+  /** Audience token from /join (null = open room) */
+  token: string | null;
+}
+
+const HOST_PRESENTER_ID = "host";
+const HOST_PRESENTER_NAME = "Host";
+const MAX_PRESENTERS = 10;
+const MAX_PRESENTER_NAME_LENGTH = 60;
+
+interface SermonContext {
+  title: string;
+  outline: string;
+  scripture: string;
+  names: string;
+}
+
+const SERMON_CONTEXT_LIMITS: Record<keyof SermonContext, number> = {
+  title: 200,
+  outline: 8000,
+  scripture: 1000,
+  names: 1000,
+};
+
+/** Speaker connection details (socket attachment) */
+interface SpeakerInfo {
+  role: "speaker";
+  presenterId: string;
+  presenterName: string;
+  /** Advertised Opus encoding; otherwise everyone gets PCM */
+  opus: boolean;
+  /** Negotiated protocol version */
+  version: number;
+  /** Malformed events received on this connection */
+  rejected: number;
+}
+
+/** Per-socket audience subscription (socket attachment) */
+interface AudienceInfo {
+  role: "audience";
+  /** Random id the speaker uses to remove this listener */
+  id: string;
+  joinedAt: number;
+  /** Requested target language (null = room default) */
+  lang: string | null;
+  /** Negotiated with `bin=1`: receives audio as binary frames instead of base64 JSON */
+  binary: boolean;
+  /** Advertised `codecs=opus`: can decode Opus audio */
+  opus: boolean;
+  /** Negotiated protocol version; events newer than this are not sent */
+  version: number;
+  /** Listener reported audio playback enabled */
+  audio: boolean;
+}
+
+type SocketInfo = SpeakerInfo | AudienceInfo;
+
+type LangInfoEvent = Extract<SpeakerEvent, { t: "lang_info" }>;
+
+/** Last lang_info, persisted so labels and routing survive hibernation */
+interface LangInfoState {
+  event: string | null;
+  targets: string[];
+  /** Latest lang_info per presenter, re-broadcast when they take the floor */
+  byPresenter: Record<string, LangInfoEvent>;
+}
+
+/** Application close codes sent to listeners (no auto-reconnect) */
+const CLOSE_PASSCODE_CHANGED = 4001;
+const CLOSE_REMOVED = 4003;
+
+/** A scripture reference already shown is not announced again within this window */
+const SCRIPTURE_REPEAT_MS = 5 * 60 * 1000;
+
+interface AnnouncedScripture {
+  id: string;
+  at: number;
+  /** Dismissed by a speaker as a false positive: never announced again */
+  dismissed: boolean;
+}
+
+/** Replay buffer entries are also stored, so a room woken from hibernation can still replay */
+const REPLAY_KEY_PREFIX = "replay:";
+const REPLAY_BUFFER_SIZE = 1000;
+/** Seq of the newest event dropped from the replay buffer */
+const REPLAY_DROPPED_KEY = "replayDropped";
+
+function replayKey(seq: number): string {
+  return `${REPLAY_KEY_PREFIX}${String(seq).padStart(12, "0")}`;
 }
 
 export class RoomDO {
   private state: DurableObjectState;
-  private roomState: RoomState = { speakerKey: null, seq: 0 };
-  private speakerSocket: WebSocket | null = null;
-  private audienceSockets: Set<WebSocket> = new Set();
+  private roomState: RoomState = {
+    speakerKey: null,
+    seq: 0,
+    seqExact: true,
+    name: null,
+    defaultLangs: null,
+    expiresAt: null,
+    expiryWarned: false,
+    passcode: null,
+    audienceToken: null,
+    passcodeAttempts: { ...NO_PASSCODE_ATTEMPTS },
+    presenters: [],
+    floor: null,
+    transcriptStartedAt: null,
+    segmentCount: 0,
+    presence: { ...EMPTY_PRESENCE },
+  };
+  private presenceTimer: ReturnType<typeof setTimeout> | null = null;
+  private seqSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private replaySaveTimer: ReturnType<typeof setTimeout> | null = null;
+  /** When the storage alarm fires next (null = none set) */
+  private alarmAt: number | null = null;
+  /** Codecs last requested from each speaker socket (JSON-encoded for change detection) */
+  private lastCodecDemand = new Map<WebSocket, string>();
   private lastLangInfo: string | null = null;
+  /** Target language codes from the last lang_info; the first is the room default */
+  private targetLangs: string[] = [];
+  private presenterLangInfo: Record<string, LangInfoEvent> = {};
+  /** Recent non-audio events for reconnect replay (mirrored under REPLAY_KEY_PREFIX) */
+  private replay = new ReplayBuffer(REPLAY_BUFFER_SIZE);
+  private segments = new SegmentBuilder();
+  /** Announced scripture keyed by normalized reference (in memory; a woken room may repeat one) */
+  private announcedScripture = new Map<string, AnnouncedScripture>();
+  /** Read access of an expired room whose transcript is still retained */
+  private retainedAccess: ReadAccess | null = null;
   private allowedOrigins: string[];
   private static readonly MAX_MESSAGE_BYTES = 512 * 1024;
+  private static readonly MAX_REJECTED_EVENTS = 20;
+  /** Join/leave bursts are coalesced into one presence update */
+  private static readonly PRESENCE_DEBOUNCE_MS = 500;
+  /** Individual listeners listed in presence updates (counts stay exact beyond this) */
+  private static readonly MAX_PRESENCE_MEMBERS = 200;
+  /**
+   * While events flow, seq is persisted every N events and once they pause. Only a room
+   * that lost its in-memory seq mid-burst (eviction before the pause) skips ahead N on wake.
+   */
+  private static readonly SEQ_PERSIST_STRIDE = 100;
+  private static readonly SEQ_SAVE_DELAY_MS = 2000;
+  /** New replay entries are written together at most this often */
+  private static readonly REPLAY_SAVE_INTERVAL_MS = 1000;
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
@@ -35,8 +299,33 @@ export class RoomDO {
     if (!this.allowedOrigins.length) this.allowedOrigins = ["*"];
 
     this.state.blockConcurrencyWhile(async () => {
-      const stored = await this.state.storage.get<RoomState>("roomState");
-      if (stored) this.roomState = stored;
+      const stored = await this.state.storage.get(["roomState", "langInfo", "openSegments", "readAccess", REPLAY_DROPPED_KEY]);
+      const roomState = stored.get("roomState") as RoomState | undefined;
+      this.retainedAccess = (stored.get("readAccess") as ReadAccess | undefined) ?? null;
+      const langInfo = stored.get("langInfo") as LangInfoState | undefined;
+      const openSegments = stored.get("openSegments") as Record<string, OpenSegment> | undefined;
+      if (langInfo) {
+        this.lastLangInfo = langInfo.event;
+        this.targetLangs = langInfo.targets;
+        this.presenterLangInfo = langInfo.byPresenter ?? {};
+      }
+      if (openSegments) this.segments.restore(openSegments);
+      this.alarmAt = await this.state.storage.getAlarm();
+      const replay = await this.state.storage.list<BufferedEvent>({ prefix: REPLAY_KEY_PREFIX });
+      this.replay.restore([...replay.values()], (stored.get(REPLAY_DROPPED_KEY) as number | undefined) ?? 0);
+      if (roomState) {
+        this.roomState = { ...this.roomState, ...roomState };
+        const missingToken = this.roomState.passcode !== null && this.roomState.audienceToken === null;
+        if (missingToken) this.roomState.audienceToken = crypto.randomUUID();
+        if (!roomState.seqExact) {
+          // Events may have gone out after the last checkpoint: never reuse their seq
+          this.roomState.seq += RoomDO.SEQ_PERSIST_STRIDE;
+          this.roomState.seqExact = true;
+          // ...and the latest of them may not have reached the stored replay buffer
+          this.replay.markLost(this.roomState.seq);
+        }
+        if (missingToken || !roomState.seqExact) await this.state.storage.put("roomState", this.roomState);
+      }
     });
   }
 
@@ -45,30 +334,276 @@ export class RoomDO {
 
     // Internal init
     if (url.pathname === "/init" && request.method === "POST") {
-      const { speakerKey } = await request.json() as { speakerKey: string };
+      const { speakerKey, options: rawOptions } = await request.json() as { speakerKey: string; options?: unknown };
+      const options = RoomDO.parseRoomOptions(rawOptions ?? {});
+      if (!options) {
+        return new Response(JSON.stringify({ error: "Invalid room options" }), { status: 400 });
+      }
       this.roomState.speakerKey = speakerKey;
       this.roomState.seq = 0;
+      this.roomState.seqExact = true;
+      this.roomState.name = options.name;
+      this.roomState.defaultLangs = options.defaultLangs;
+      this.roomState.expiresAt = Date.now() + options.ttlMs;
+      this.roomState.expiryWarned = false;
+      this.roomState.passcode = options.passcode ? await createPasscode(options.passcode) : null;
+      this.roomState.audienceToken = options.passcode ? crypto.randomUUID() : null;
+      await this.state.storage.put("roomState", this.roomState);
+      await this.scheduleAlarm();
+      return new Response(JSON.stringify({ name: options.name, expiresAt: this.roomState.expiresAt }));
+    }
+
+    // Internal room update: extend expiry and/or rename (speaker only)
+    if (url.pathname === "/room" && request.method === "PATCH") {
+      const body = await request.json() as { speakerKey?: string; extendMinutes?: unknown; name?: unknown; passcode?: unknown };
+      if (this.roomState.speakerKey === null || this.roomState.expiresAt === null) {
+        return new Response(JSON.stringify({ error: "Room not found" }), { status: 404 });
+      }
+      if (body.speakerKey !== this.roomState.speakerKey) {
+        return new Response(JSON.stringify({ error: "Invalid speakerKey" }), { status: 403 });
+      }
+      const name = body.name === undefined ? this.roomState.name : RoomDO.parseRoomName(body.name);
+      if (name === undefined) {
+        return new Response(JSON.stringify({ error: "Invalid name" }), { status: 400 });
+      }
+      let expiresAt = this.roomState.expiresAt;
+      if (body.extendMinutes !== undefined) {
+        const extendMs = RoomDO.parseMinutes(body.extendMinutes, 1, ROOM_TTL_LIMITS.MAX_MS);
+        if (extendMs === null) {
+          return new Response(JSON.stringify({ error: "Invalid extendMinutes" }), { status: 400 });
+        }
+        // Never more than MAX_MS ahead of now, however often the room is extended
+        expiresAt = Math.min(Math.max(expiresAt, Date.now()) + extendMs, Date.now() + ROOM_TTL_LIMITS.MAX_MS);
+      }
+      if (body.passcode !== undefined && body.passcode !== null && body.passcode !== "" && !isValidPasscode(body.passcode)) {
+        return new Response(JSON.stringify({ error: "Invalid passcode" }), { status: 400 });
+      }
+      if (body.passcode !== undefined) {
+        // Setting or rotating the passcode removes everyone admitted under the old rules
+        const passcode = isValidPasscode(body.passcode) ? body.passcode : null;
+        this.roomState.passcode = passcode ? await createPasscode(passcode) : null;
+        this.roomState.audienceToken = passcode ? crypto.randomUUID() : null;
+        this.roomState.passcodeAttempts = { ...NO_PASSCODE_ATTEMPTS };
+        if (passcode) this.disconnectListeners(null, CLOSE_PASSCODE_CHANGED, "Passcode changed");
+      }
+      const extended = expiresAt > this.roomState.expiresAt;
+      this.roomState.name = name;
+      if (extended) {
+        const wasWarned = this.roomState.expiryWarned;
+        this.roomState.expiresAt = expiresAt;
+        this.roomState.expiryWarned = false;
+        await this.scheduleAlarm();
+        this.sendExpiry(false);
+        if (wasWarned) this.broadcastEvent({ t: "status", level: "info", msg: "The room has been extended" });
+      }
       await this.state.storage.put("roomState", this.roomState);
-      await this.state.storage.setAlarm(Date.now() + ROOM_TTL_MS);
-      return new Response("ok");
+      return new Response(JSON.stringify({
+        name,
+        expiresAt: this.roomState.expiresAt,
+        passcodeRequired: this.roomState.passcode !== null,
+      }));
+    }
+
+    // Internal audience passcode check: a valid passcode gets the token for the socket and read routes
+    if (url.pathname === "/join" && request.method === "POST") {
+      const { passcode } = await request.json() as { passcode?: unknown };
+      if (this.roomState.speakerKey === null) {
+        return new Response(JSON.stringify({ error: "Room not found" }), { status: 404 });
+      }
+      const { valid, retryAfterMs } = await this.verifyPasscode(typeof passcode === "string" ? passcode : null);
+      if (retryAfterMs > 0) {
+        const retryAfter = Math.ceil(retryAfterMs / 1000);
+        return new Response(JSON.stringify({ error: "Too many attempts", retryAfter }), {
+          status: 429,
+          headers: { "Retry-After": String(retryAfter) },
+        });
+      }
+      return new Response(JSON.stringify({ valid, token: valid ? this.roomState.audienceToken : null }));
+    }
+
+    // Internal listener removal (speaker only): all listeners, or one by ?id=
+    if (url.pathname === "/listeners" && request.method === "DELETE") {
+      const { speakerKey } = await request.json() as { speakerKey?: string };
+      if (this.roomState.speakerKey === null) {
+        return new Response(JSON.stringify({ error: "Room not found" }), { status: 404 });
+      }
+      if (speakerKey !== this.roomState.speakerKey) {
+        return new Response(JSON.stringify({ error: "Invalid speakerKey" }), { status: 403 });
+      }
+      const disconnected = this.disconnectListeners(url.searchParams.get("id"), CLOSE_REMOVED, "Removed by the speaker");
+      return new Response(JSON.stringify({ disconnected }));
     }
 
     // Internal validate
     if (url.pathname === "/validate" && request.method === "POST") {
       const { speakerKey } = await request.json() as { speakerKey: string };
-      const valid = this.roomState.speakerKey === speakerKey;
+      const valid = this.presenterForKey(speakerKey) !== null;
       return new Response(JSON.stringify({ valid }));
     }
 
-    // Internal status check for room existence and expiry
+    // Internal status check for room existence and expiry; presenters (?key=) also get room details
     if (url.pathname === "/status" && request.method === "GET") {
       const alarm = await this.state.storage.getAlarm();
+      const exists = this.roomState.speakerKey !== null;
+      const presenter = exists && this.presenterForKey(url.searchParams.get("key")) !== null;
       return new Response(JSON.stringify({
-        exists: this.roomState.speakerKey !== null,
-        expiresAt: alarm ?? null,
+        exists,
+        expiresAt: exists ? this.roomState.expiresAt ?? alarm ?? null : null,
+        name: this.roomState.name,
+        passcodeRequired: this.roomState.passcode !== null,
+        ...(presenter
+          ? {
+            defaultLangs: this.roomState.defaultLangs,
+            floor: this.floorIdentity(),
+            listeners: this.listenerSummary(),
+          }
+          : {}),
       }));
     }
 
+    // Internal presenter list: caller identity, plus all credentials for the host
+    if (url.pathname === "/presenters" && request.method === "GET") {
+      if (this.roomState.speakerKey === null) {
+        return new Response(JSON.stringify({ error: "Room not found" }), { status: 404 });
+      }
+      const self = this.presenterForKey(url.searchParams.get("key"));
+      if (!self) {
+        return new Response(JSON.stringify({ error: "Invalid speakerKey" }), { status: 403 });
+      }
+      return new Response(JSON.stringify({ self, presenters: self.owner ? this.roomState.presenters : [] }));
+    }
+
+    // Internal presenter add (host only)
+    if (url.pathname === "/presenters" && request.method === "POST") {
+      const body = await request.json() as { speakerKey?: string; name?: unknown };
+      if (this.roomState.speakerKey === null) {
+        return new Response(JSON.stringify({ error: "Room not found" }), { status: 404 });
+      }
+      if (body.speakerKey !== this.roomState.speakerKey) {
+        return new Response(JSON.stringify({ error: "Invalid speakerKey" }), { status: 403 });
+      }
+      const name = typeof body.name === "string" ? body.name.trim() : "";
+      if (!name || name.length > MAX_PRESENTER_NAME_LENGTH) {
+        return new Response(JSON.stringify({ error: "Invalid name" }), { status: 400 });
+      }
+      if (this.roomState.presenters.length >= MAX_PRESENTERS) {
+        return new Response(JSON.stringify({ error: "Too many presenters" }), { status: 400 });
+      }
+      const presenter: Presenter = { id: crypto.randomUUID().slice(0, 8), name, key: crypto.randomUUID() };
+      this.roomState.presenters.push(presenter);
+      await this.state.storage.put("roomState", this.roomState);
+      return new Response(JSON.stringify({ presenter }));
+    }
+
+    // Internal presenter removal (host only); their open connections are closed
+    if (url.pathname === "/presenters" && request.method === "DELETE") {
+      const { speakerKey } = await request.json() as { speakerKey?: string };
+      const id = url.searchParams.get("id");
+      if (this.roomState.speakerKey === null) {
+        return new Response(JSON.stringify({ error: "Room not found" }), { status: 404 });
+      }
+      if (speakerKey !== this.roomState.speakerKey) {
+        return new Response(JSON.stringify({ error: "Invalid speakerKey" }), { status: 403 });
+      }
+      if (!this.roomState.presenters.some((presenter) => presenter.id === id)) {
+        return new Response(JSON.stringify({ error: "Presenter not found" }), { status: 404 });
+      }
+      this.roomState.presenters = this.roomState.presenters.filter((presenter) => presenter.id !== id);
+      await this.state.storage.put("roomState", this.roomState);
+      for (const [socket, info] of this.speakerSockets()) {
+        if (info.presenterId !== id) continue;
+        try { socket.close(1008, "Presenter removed"); } catch { /* ignore */ }
+      }
+      if (this.roomState.floor === id) await this.setFloor(null);
+      return new Response(JSON.stringify({ presenters: this.roomState.presenters }));
+    }
+
+    // Internal glossary read (speaker only)
+    if (url.pathname === "/glossary" && request.method === "GET") {
+      if (this.roomState.speakerKey === null) {
+        return new Response(JSON.stringify({ error: "Room not found" }), { status: 404 });
+      }
+      if (!this.presenterForKey(url.searchParams.get("key"))) {
+        return new Response(JSON.stringify({ error: "Invalid speakerKey" }), { status: 403 });
+      }
+      const entries = await this.state.storage.get<GlossaryEntry[]>("glossary") ?? [];
+      return new Response(JSON.stringify({ entries }));
+    }
+
+    // Internal glossary replace (speaker only)
+    if (url.pathname === "/glossary" && request.method === "PUT") {
+      const body = await request.json() as { speakerKey?: string; entries?: unknown };
+      if (this.roomState.speakerKey === null) {
+        return new Response(JSON.stringify({ error: "Room not found" }), { status: 404 });
+      }
+      if (!this.presenterForKey(body.speakerKey)) {
+        return new Response(JSON.stringify({ error: "Invalid speakerKey" }), { status: 403 });
+      }
+      const entries = parseGlossary(body.entries);
+      if (!entries) {
+        return new Response(JSON.stringify({ error: "Invalid glossary" }), { status: 400 });
+      }
+      await this.state.storage.put("glossary", entries);
+      return new Response(JSON.stringify({ entries }));
+    }
+
+    // Internal sermon context read (speaker only)
+    if (url.pathname === "/context" && request.method === "GET") {
+      if (this.roomState.speakerKey === null) {
+        return new Response(JSON.stringify({ error: "Room not found" }), { status: 404 });
+      }
+      if (!this.presenterForKey(url.searchParams.get("key"))) {
+        return new Response(JSON.stringify({ error: "Invalid speakerKey" }), { status: 403 });
+      }
+      const context = await this.state.storage.get<SermonContext>("sermonContext") ?? null;
+      return new Response(JSON.stringify({ context }));
+    }
+
+    // Internal sermon context replace (speaker only)
+    if (url.pathname === "/context" && request.method === "PUT") {
+      const body = await request.json() as { speakerKey?: string; context?: unknown };
+      if (this.roomState.speakerKey === null) {
+        return new Response(JSON.stringify({ error: "Room not found" }), { status: 404 });
+      }
+      if (!this.presenterForKey(body.speakerKey)) {
+        return new Response(JSON.stringify({ error: "Invalid speakerKey" }), { status: 403 });
+      }
+      const context = RoomDO.parseSermonContext(body.context);
+      if (!context) {
+        return new Response(JSON.stringify({ error: "Invalid context" }), { status: 400 });
+      }
+      await this.state.storage.put("sermonContext", context);
+      return new Response(JSON.stringify({ context }));
+    }
+
+    // Internal transcript export
+    if (url.pathname === "/transcript" && request.method === "GET") {
+      const format = url.searchParams.get("format") ?? "json";
+      if (!isTranscriptFormat(format)) {
+        return new Response(JSON.stringify({ error: "Invalid format" }), { status: 400 });
+      }
+      if (!this.canRead(url)) {
+        return new Response(JSON.stringify({ error: "Passcode required" }), { status: 401 });
+      }
+      const stored = await this.state.storage.list<TranscriptSegment>({ prefix: SEGMENT_KEY_PREFIX });
+      if (!stored.size && this.roomState.speakerKey === null) {
+        return new Response(JSON.stringify({ error: "Room not found" }), { status: 404 });
+      }
+      const lang = url.searchParams.get("lang") ?? this.targetLangs[0] ?? null;
+      const pairs = pairSegments([...stored.values()], lang);
+      return new Response(formatTranscript(pairs, format, lang), {
+        headers: { "Content-Type": TRANSCRIPT_FORMATS[format].contentType },
+      });
+    }
+
+    // Internal HLS subtitles: playlist, or one WebVTT segment with ?segment=n
+    if (url.pathname === "/subtitles" && request.method === "GET") {
+      if (!this.canRead(url)) {
+        return new Response(JSON.stringify({ error: "Passcode required" }), { status: 401 });
+      }
+      return this.handleSubtitles(url);
+    }
+
     // WebSocket upgrade
     const upgradeHeader = request.headers.get("Upgrade");
     if (upgradeHeader?.toLowerCase() === "websocket") {
@@ -79,6 +614,12 @@ export class RoomDO {
 
       const role = url.searchParams.get("role");
       const key = url.searchParams.get("key");
+      const requestedVersion = parseProtocolVersion(url);
+      if (requestedVersion === null) {
+        return new Response("Invalid protocol version", { status: 400 });
+      }
+      // Newer clients talk down to what this worker knows
+      const version = Math.min(requestedVersion, PROTOCOL_VERSION);
 
       const pair = new WebSocketPair();
       const [client, server] = [pair[0], pair[1]];
@@ -87,26 +628,59 @@ export class RoomDO {
         if (!this.roomState.speakerKey) {
           return new Response("Room not found", { status: 404 });
         }
-        if (key !== this.roomState.speakerKey) {
+        const presenter = this.presenterForKey(key);
+        if (!presenter) {
           return new Response("Forbidden", { status: 403 });
         }
-        this.speakerSocket?.close(1000, "Replaced by new speaker connection");
-        this.speakerSocket = server;
-        server.accept();
-        server.addEventListener("message", (event: MessageEvent) => this.handleSpeakerMessage(event));
-        server.addEventListener("close", () => { this.speakerSocket = null; });
+        // One connection per presenter; other presenters stay connected and wait for the floor
+        for (const [previous, previousInfo] of this.speakerSockets()) {
+          if (previousInfo.presenterId !== presenter.id) continue;
+          try { previous.close(1000, "Replaced by new speaker connection"); } catch { /* ignore */ }
+        }
+        const info: SpeakerInfo = {
+          role: "speaker",
+          presenterId: presenter.id,
+          presenterName: presenter.name,
+          opus: RoomDO.parseCodecs(url).includes("opus"),
+          version,
+          rejected: 0,
+        };
+        this.state.acceptWebSocket(server, ["speaker"]);
+        server.serializeAttachment(info);
+        // Clients without floor control keep the old behavior: connecting makes you the speaker
+        if (!RoomDO.understands(version, "floor")) await this.setFloor(presenter.id);
+        else this.sendFloor(server, info);
+        this.updateCodecDemand();
+        this.sendPresence();
       } else {
         // Audience
         if (!this.roomState.speakerKey) {
           return new Response("Room not found", { status: 404 });
         }
-        this.audienceSockets.add(server);
-        server.accept();
+        if (!this.hasAudienceToken(url)) {
+          const { valid, retryAfterMs } = await this.verifyPasscode(url.searchParams.get("pass"));
+          if (retryAfterMs > 0) {
+            return new Response("Too many attempts", { status: 429, headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) } });
+          }
+          if (!valid) return new Response("Passcode required", { status: 401 });
+        }
+        const requestedLang = url.searchParams.get("lang");
+        const info: AudienceInfo = {
+          role: "audience",
+          id: crypto.randomUUID().slice(0, 8),
+          joinedAt: Date.now(),
+          lang: requestedLang,
+          binary: url.searchParams.get("bin") === "1",
+          opus: RoomDO.parseCodecs(url).includes("opus"),
+          version,
+          audio: false,
+        };
+        this.state.acceptWebSocket(server, ["audience"]);
+        server.serializeAttachment(info);
+        this.handleAudienceChange();
         if (this.lastLangInfo) server.send(this.lastLangInfo);
-        server.addEventListener("message", () => {
-          try { server.close(1008, "Audience is read-only"); } catch { /* ignore */ }
-        });
-        server.addEventListener("close", () => { this.audienceSockets.delete(server); });
+        const since = url.searchParams.get("since");
+        if (since !== null && /^\d+$/.test(since)) this.replaySince(server, Number(since), requestedLang, version);
       }
 
       return new Response(null, { status: 101, webSocket: client });
@@ -115,23 +689,604 @@ export class RoomDO {
     return new Response("Expected WebSocket", { status: 400 });
   }
 
+  /** Hibernation API: message from any accepted socket */
+  async webSocketMessage(socket: WebSocket, data: string | ArrayBuffer): Promise<void> {
+    const info = RoomDO.socketInfo(socket);
+    if (info?.role === "speaker") await this.handleSpeakerMessage(socket, info, data);
+    else this.handleListenerMessage(socket, info, data);
+  }
+
+  async webSocketClose(socket: WebSocket, code: number, reason: string): Promise<void> {
+    try { socket.close(code === 1005 || code === 1006 ? 1000 : code, reason); } catch { /* already closed */ }
+    await this.handleSocketClosed(socket);
+  }
+
+  async webSocketError(socket: WebSocket): Promise<void> {
+    await this.handleSocketClosed(socket);
+  }
+
+  private async handleSocketClosed(socket: WebSocket): Promise<void> {
+    const info = RoomDO.socketInfo(socket);
+    if (info?.role !== "speaker") {
+      this.handleAudienceChange();
+      return;
+    }
+    this.lastCodecDemand.delete(socket);
+    if (info.presenterId !== this.roomState.floor) return;
+    this.flushTranscript();
+    // The floor frees up once the holder has no connection left
+    if (![...this.speakerSockets().values()].some((other) => other.presenterId === info.presenterId)) {
+      await this.setFloor(null);
+    }
+  }
+
+  /**
+   * Passcode check with a room-wide backoff: after a few wrong guesses each further one has
+   * to wait longer (retryAfterMs > 0 = refused unchecked). Open rooms accept anything.
+   */
+  private async verifyPasscode(input: string | null): Promise<{ valid: boolean; retryAfterMs: number }> {
+    if (this.roomState.passcode === null) return { valid: true, retryAfterMs: 0 };
+    if (!input) return { valid: false, retryAfterMs: 0 };
+    const now = Date.now();
+    const retryAfterMs = passcodeRetryAfterMs(this.roomState.passcodeAttempts, now);
+    if (retryAfterMs > 0) return { valid: false, retryAfterMs };
+    // Counted before hashing so parallel guesses can't all slip in under the limit
+    this.roomState.passcodeAttempts = recordPasscodeFailure(this.roomState.passcodeAttempts, now);
+    const valid = await checkPasscode(this.roomState.passcode, input);
+    if (valid) {
+      // A listener getting in does not clear someone else's failures
+      const attempts = this.roomState.passcodeAttempts;
+      this.roomState.passcodeAttempts = { ...attempts, failures: Math.max(0, attempts.failures - 1) };
+    }
+    await this.state.storage.put("roomState", this.roomState);
+    return { valid, retryAfterMs: 0 };
+  }
+
+  /** ?token= matches the token /join hands out for the current passcode */
+  private hasAudienceToken(url: URL): boolean {
+    const token = url.searchParams.get("token");
+    return token !== null && this.roomState.audienceToken !== null && safeEqual(token, this.roomState.audienceToken);
+  }
+
+  /** Who may read the transcript and subtitles now (null = expired room without a retained transcript) */
+  private readAccess(): ReadAccess | null {
+    if (this.roomState.speakerKey === null) return this.retainedAccess;
+    return {
+      keys: [this.roomState.speakerKey, ...this.roomState.presenters.map((presenter) => presenter.key)],
+      token: this.roomState.audienceToken,
+    };
+  }
+
+  /** Transcript and subtitles: open rooms are public, protected ones need the /join token or a speaker key */
+  private canRead(url: URL): boolean {
+    const access = this.readAccess();
+    if (!access) return false;
+    if (access.token === null) return true;
+    const key = url.searchParams.get("key");
+    if (key !== null && access.keys.includes(key)) return true;
+    const token = url.searchParams.get("token");
+    return token !== null && safeEqual(token, access.token);
+  }
+
+  /** Host key or one of the presenter keys */
+  private presenterForKey(key: unknown): PresenterIdentity | null {
+    if (typeof key !== "string" || this.roomState.speakerKey === null) return null;
+    if (key === this.roomState.speakerKey) return { id: HOST_PRESENTER_ID, name: HOST_PRESENTER_NAME, owner: true };
+    const presenter = this.roomState.presenters.find((p) => p.key === key);
+    return presenter ? { id: presenter.id, name: presenter.name, owner: false } : null;
+  }
+
+  private floorIdentity(): { id: string; name: string } | null {
+    const floor = this.roomState.floor;
+    if (floor === null) return null;
+    if (floor === HOST_PRESENTER_ID) return { id: floor, name: HOST_PRESENTER_NAME };
+    const presenter = this.roomState.presenters.find((p) => p.id === floor);
+    return presenter ? { id: presenter.id, name: presenter.name } : null;
+  }
+
+  /** Hand the floor to a presenter (or free it); every speaker page is told */
+  private async setFloor(presenterId: string | null): Promise<void> {
+    if (this.roomState.floor === presenterId) return;
+    if (this.roomState.floor !== null) this.flushTranscript();
+    this.roomState.floor = presenterId;
+    await this.state.storage.put("roomState", this.roomState);
+    for (const [socket, info] of this.speakerSockets()) this.sendFloor(socket, info);
+    const holder = this.floorIdentity();
+    if (!holder) return;
+    // Audience labels follow the presenter: replay their last lang_info if they sent one
+    const langInfo = this.presenterLangInfo[holder.id];
+    if (langInfo) this.broadcastEvent(langInfo);
+    if (this.roomState.presenters.length) this.broadcastEvent({ t: "status", level: "info", msg: `Now presenting: ${holder.name}` });
+    this.updateCodecDemand();
+  }
+
+  private sendFloor(socket: WebSocket, info: SpeakerInfo): void {
+    if (!RoomDO.understands(info.version, "floor")) return;
+    const holder = this.floorIdentity();
+    const floor = { t: "floor", seq: this.nextSeq(), holder, self: holder?.id === info.presenterId };
+    try { socket.send(JSON.stringify(floor)); } catch { /* socket closed */ }
+  }
+
+  private async handleSpeakerControl(info: SpeakerInfo, control: SpeakerControl): Promise<void> {
+    if (control.t === "scripture_dismiss") return this.dismissScripture(control.id);
+    if (control.action === "take") await this.setFloor(info.presenterId);
+    else if (this.roomState.floor === info.presenterId) await this.setFloor(null);
+  }
+
+  private static socketInfo(socket: WebSocket): SocketInfo | null {
+    return socket.deserializeAttachment() as SocketInfo | null;
+  }
+
+  /** Open speaker sockets (one per connected presenter) */
+  private speakerSockets(): Map<WebSocket, SpeakerInfo> {
+    const sockets = new Map<WebSocket, SpeakerInfo>();
+    for (const socket of this.state.getWebSockets("speaker")) {
+      if (socket.readyState !== WebSocket.OPEN) continue;
+      sockets.set(socket, RoomDO.socketInfo(socket) as SpeakerInfo);
+    }
+    return sockets;
+  }
+
+  /** Connection details of the presenter holding the floor */
+  private get floorSpeaker(): SpeakerInfo | null {
+    if (this.roomState.floor === null) return null;
+    return [...this.speakerSockets().values()].find((info) => info.presenterId === this.roomState.floor) ?? null;
+  }
+
+  /** Open audience sockets with their subscriptions */
+  private audienceSockets(): Map<WebSocket, AudienceInfo> {
+    const sockets = new Map<WebSocket, AudienceInfo>();
+    for (const socket of this.state.getWebSockets("audience")) {
+      if (socket.readyState !== WebSocket.OPEN) continue;
+      sockets.set(socket, RoomDO.socketInfo(socket) as AudienceInfo);
+    }
+    return sockets;
+  }
+
+  /** Close one listener (by id) or all of them; returns how many were closed */
+  private disconnectListeners(id: string | null, code: number, reason: string): number {
+    let closed = 0;
+    for (const [socket, info] of this.audienceSockets()) {
+      if (id !== null && info.id !== id) continue;
+      try { socket.close(code, reason); } catch { /* ignore */ }
+      closed++;
+    }
+    if (closed) this.handleAudienceChange();
+    return closed;
+  }
+
+  /** Validate creation options; null if malformed or out of bounds */
+  private static parseRoomOptions(raw: unknown): RoomOptions | null {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+    const input = raw as { name?: unknown; ttlMinutes?: unknown; sourceLang?: unknown; targetLangs?: unknown; passcode?: unknown };
+    const name = input.name === undefined ? null : RoomDO.parseRoomName(input.name);
+    if (name === undefined) return null;
+    let ttlMs: number = ROOM_TTL_LIMITS.DEFAULT_MS;
+    if (input.ttlMinutes !== undefined) {
+      const parsed = RoomDO.parseMinutes(input.ttlMinutes, ROOM_TTL_LIMITS.MIN_MS, ROOM_TTL_LIMITS.MAX_MS);
+      if (parsed === null) return null;
+      ttlMs = parsed;
+    }
+    let defaultLangs: DefaultLangs | null = null;
+    if (input.sourceLang !== undefined || input.targetLangs !== undefined) {
+      const { sourceLang, targetLangs } = input;
+      if (!isLangCode(sourceLang)) return null;
+      if (!Array.isArray(targetLangs) || !targetLangs.length || targetLangs.length > PROTOCOL_LIMITS.MAX_TARGETS) return null;
+      if (!targetLangs.every((code) => isLangCode(code) && code !== sourceLang)) return null;
+      defaultLangs = { sourceLang, targetLangs: [...new Set(targetLangs as string[])] };
+    }
+    if (input.passcode !== undefined && input.passcode !== "" && !isValidPasscode(input.passcode)) return null;
+    const passcode = isValidPasscode(input.passcode) ? input.passcode : null;
+    return { name, ttlMs, defaultLangs, passcode };
+  }
+
+  /** Trimmed display name (null when blank); undefined if invalid */
+  private static parseRoomName(raw: unknown): string | null | undefined {
+    if (raw === null) return null;
+    if (typeof raw !== "string" || raw.length > MAX_ROOM_NAME_LENGTH) return undefined;
+    return raw.trim() || null;
+  }
+
+  /** Whole minutes within [minMs, maxMs], returned in ms; null otherwise */
+  private static parseMinutes(raw: unknown, minMs: number, maxMs: number): number | null {
+    if (typeof raw !== "number" || !Number.isInteger(raw)) return null;
+    const ms = raw * 60_000;
+    return ms >= minMs && ms <= maxMs ? ms : null;
+  }
+
+  /**
+   * Fire the warning first (if still ahead), then the expiry itself; earlier when an open
+   * transcript phrase will have paused long enough to close
+   */
+  private async scheduleAlarm(): Promise<void> {
+    const expiresAt = this.roomState.expiresAt;
+    if (expiresAt === null) return;
+    const warnAt = expiresAt - EXPIRY_WARNING_MS;
+    const expiryAlarm = !this.roomState.expiryWarned && warnAt > Date.now() ? warnAt : expiresAt;
+    this.alarmAt = Math.min(expiryAlarm, this.segments.nextIdleAt() ?? Infinity);
+    await this.state.storage.setAlarm(this.alarmAt);
+  }
+
+  /** Tell the speaker the current expiry (warning = the room closes soon) */
+  private sendExpiry(warning: boolean): void {
+    const speakers = [...this.speakerSockets()].filter(([, info]) => RoomDO.understands(info.version, "expiry"));
+    if (!speakers.length) return;
+    const expiry = JSON.stringify({ t: "expiry", seq: this.nextSeq(), expiresAt: this.roomState.expiresAt, ...(warning ? { warning } : {}) });
+    for (const [socket] of speakers) {
+      try { socket.send(expiry); } catch { /* socket closed */ }
+    }
+  }
+
+  /** Validate sermon context from the speaker; null if malformed or over limits */
+  private static parseSermonContext(raw: unknown): SermonContext | null {
+    if (!raw || typeof raw !== "object") return null;
+    const input = raw as Partial<Record<keyof SermonContext, unknown>>;
+    const context: SermonContext = { title: "", outline: "", scripture: "", names: "" };
+    for (const field of Object.keys(SERMON_CONTEXT_LIMITS) as (keyof SermonContext)[]) {
+      const value = input[field] ?? "";
+      if (typeof value !== "string" || value.length > SERMON_CONTEXT_LIMITS[field]) return null;
+      context[field] = value;
+    }
+    return context;
+  }
+
+  /** Listener -> room messages (audio toggle); anything else is a protocol violation */
+  private handleListenerMessage(socket: WebSocket, info: SocketInfo | null, data: string | ArrayBuffer): void {
+    let raw: unknown = null;
+    if (typeof data === "string" && data.length <= 1024) {
+      try { raw = JSON.parse(data); } catch { /* rejected below */ }
+    }
+    const result = validateListenerMessage(raw);
+    if (info?.role !== "audience" || info.version < 1 || !result.ok) {
+      try { socket.close(1008, "Audience is read-only"); } catch { /* ignore */ }
+      return;
+    }
+    if (info.audio === result.event.audio) return;
+    socket.serializeAttachment({ ...info, audio: result.event.audio });
+    this.schedulePresence();
+  }
+
+  /** Listener joined or left: refresh codec demand, stats and the speaker's presence view */
+  private handleAudienceChange(): void {
+    this.updateCodecDemand();
+    this.updatePresenceStats();
+    this.schedulePresence();
+  }
+
+  private updatePresenceStats(): void {
+    const now = Date.now();
+    const stats = this.roomState.presence;
+    if (stats.lastChangeAt !== null) stats.listenerMs += stats.current * (now - stats.lastChangeAt);
+    stats.current = this.audienceSockets().size;
+    stats.lastChangeAt = now;
+    if (stats.current > 0 && stats.firstJoinAt === null) stats.firstJoinAt = now;
+    if (stats.current > stats.peak) {
+      stats.peak = stats.current;
+      stats.peakAt = now;
+    }
+    this.state.storage.put("roomState", this.roomState);
+  }
+
+  /** Peak/average listeners since the first listener joined */
+  private listenerSummary(): { current: number; peak: number; peakAt: number | null; average: number } {
+    const stats = this.roomState.presence;
+    const now = Date.now();
+    const listenerMs = stats.listenerMs + (stats.lastChangeAt !== null ? stats.current * (now - stats.lastChangeAt) : 0);
+    const elapsed = stats.firstJoinAt !== null ? now - stats.firstJoinAt : 0;
+    return {
+      current: stats.current,
+      peak: stats.peak,
+      peakAt: stats.peakAt,
+      average: elapsed > 0 ? Math.round((listenerMs / elapsed) * 10) / 10 : 0,
+    };
+  }
+
+  private schedulePresence(): void {
+    if (this.presenceTimer !== null) return;
+    this.presenceTimer = setTimeout(() => {
+      this.presenceTimer = null;
+      this.sendPresence();
+    }, RoomDO.PRESENCE_DEBOUNCE_MS);
+  }
+
+  /** Push listener counts (total, audio on, per language) to the speaker */
+  private sendPresence(): void {
+    const speakers = [...this.speakerSockets()].filter(([, info]) => RoomDO.understands(info.version, "presence"));
+    if (!speakers.length) return;
+    const audience = this.audienceSockets();
+    let audio = 0;
+    const langs: Record<string, number> = {};
+    const members: { id: string; lang: string | null; audio: boolean; joinedAt: number }[] = [];
+    for (const info of audience.values()) {
+      if (info.audio) audio++;
+      const lang = this.effectiveLang(info.lang);
+      if (lang) langs[lang] = (langs[lang] ?? 0) + 1;
+      if (members.length < RoomDO.MAX_PRESENCE_MEMBERS) {
+        members.push({ id: info.id, lang, audio: info.audio, joinedAt: info.joinedAt });
+      }
+    }
+    const presence = {
+      t: "presence",
+      seq: this.nextSeq(),
+      listeners: audience.size,
+      audio,
+      ...(this.targetLangs.length > 1 ? { langs } : {}),
+      members,
+    };
+    const message = JSON.stringify(presence);
+    for (const [socket] of speakers) {
+      try { socket.send(message); } catch { /* socket closed */ }
+    }
+  }
+
+  private static parseCodecs(url: URL): AudioCodec[] {
+    return (url.searchParams.get("codecs") ?? "pcm16").split(",").filter((c): c is AudioCodec => c === "pcm16" || c === "opus");
+  }
+
+  /** Whether a listener should receive this packet (Opus-capable listeners skip the PCM copy) */
+  private wantsAudio(info: AudienceInfo, codec: AudioCodec): boolean {
+    if (codec === "opus") return info.opus;
+    return !(info.opus && this.floorSpeaker?.opus);
+  }
+
+  /** Tell each speaker which encodings the connected listeners need */
+  private updateCodecDemand(): void {
+    const listeners = [...this.audienceSockets().values()];
+    for (const [speaker, speakerInfo] of this.speakerSockets()) {
+      if (!RoomDO.understands(speakerInfo.version, "audio_codecs")) continue;
+      const codecs: AudioCodec[] = [];
+      if (speakerInfo.opus && listeners.some((info) => info.opus)) codecs.push("opus");
+      if (!speakerInfo.opus || listeners.some((info) => !info.opus)) codecs.push("pcm16");
+      const demand = JSON.stringify(codecs);
+      if (demand === this.lastCodecDemand.get(speaker)) continue;
+      this.lastCodecDemand.set(speaker, demand);
+      try {
+        speaker.send(JSON.stringify({ t: "audio_codecs", seq: this.nextSeq(), codecs }));
+      } catch { /* socket closed */ }
+    }
+  }
+
   private isOriginAllowed(origin: string): boolean {
     if (this.allowedOrigins.includes("*")) return true;
     return this.allowedOrigins.includes(origin);
   }
 
-  /** Self-destruct handler: closes all sockets and deletes storage */
+  /**
+   * Expiry handler. Before expiresAt it closes transcript phrases that went quiet (so their
+   * subtitle cues exist before the segment is published), warns everyone when the expiry is
+   * near and re-arms. On expiry it closes all sockets and deletes room state; transcript
+   * segments are kept for TRANSCRIPT_RETENTION_MS and removed by a later alarm.
+   */
   async alarm() {
-    this.speakerSocket?.close(1000, "Room expired");
-    for (const socket of this.audienceSockets) {
+    this.alarmAt = null;
+    if (this.roomState.speakerKey === null) {
+      await this.state.storage.deleteAll();
+      this.retainedAccess = null;
+      return;
+    }
+    this.saveSegments(this.segments.closeIdle(Date.now()));
+    const expiresAt = this.roomState.expiresAt;
+    if (expiresAt !== null && Date.now() < expiresAt) {
+      if (!this.roomState.expiryWarned && expiresAt - Date.now() <= EXPIRY_WARNING_MS + 60_000) {
+        const minutes = Math.max(1, Math.round((expiresAt - Date.now()) / 60_000));
+        this.roomState.expiryWarned = true;
+        await this.state.storage.put("roomState", this.roomState);
+        this.broadcastEvent({ t: "status", level: "warn", msg: `This room closes in ${minutes} minutes` });
+        this.sendExpiry(true);
+      }
+      await this.scheduleAlarm();
+      return;
+    }
+    for (const socket of this.state.getWebSockets()) {
       try { socket.close(1000, "Room expired"); } catch { /* ignore */ }
     }
-    await this.state.storage.deleteAll();
+    if (this.seqSaveTimer !== null) clearTimeout(this.seqSaveTimer);
+    this.seqSaveTimer = null;
+    if (this.replaySaveTimer !== null) clearTimeout(this.replaySaveTimer);
+    this.replaySaveTimer = null;
+    this.flushTranscript();
+    const access = this.readAccess();
+    const keys = [...(await this.state.storage.list()).keys()].filter((k) => !k.startsWith(SEGMENT_KEY_PREFIX));
+    for (let i = 0; i < keys.length; i += 128) {
+      await this.state.storage.delete(keys.slice(i, i + 128));
+    }
+    this.roomState = {
+      speakerKey: null,
+      seq: 0,
+      seqExact: true,
+      name: null,
+      defaultLangs: null,
+      expiresAt: null,
+      expiryWarned: false,
+      passcode: null,
+      audienceToken: null,
+      passcodeAttempts: { ...NO_PASSCODE_ATTEMPTS },
+      presenters: [],
+      floor: null,
+      transcriptStartedAt: null,
+      segmentCount: 0,
+      presence: { ...EMPTY_PRESENCE },
+    };
+    this.lastLangInfo = null;
+    this.targetLangs = [];
+    this.presenterLangInfo = {};
+    this.replay.clear();
+    this.announcedScripture.clear();
+    if (await this.state.storage.get(segmentKey(0)) !== undefined) {
+      // The retained transcript stays as protected as the room was
+      this.retainedAccess = access;
+      await this.state.storage.put("readAccess", access);
+      this.alarmAt = Date.now() + TRANSCRIPT_RETENTION_MS;
+      await this.state.storage.setAlarm(this.alarmAt);
+    } else {
+      await this.state.storage.deleteAll();
+    }
+  }
+
+  /**
+   * HLS subtitles for one target language from finalized out_text segments.
+   * Live rooms get a sliding-window playlist; after the room ends it becomes a complete VOD playlist.
+   */
+  private async handleSubtitles(url: URL): Promise<Response> {
+    const lang = url.searchParams.get("lang");
+    if (!isLangCode(lang)) {
+      return new Response(JSON.stringify({ error: "Invalid lang" }), { status: 400 });
+    }
+    const mpegtsParam = url.searchParams.get("mpegts");
+    const mpegts = mpegtsParam === null ? 0 : Number(mpegtsParam);
+    if (!Number.isSafeInteger(mpegts) || mpegts < 0) {
+      return new Response(JSON.stringify({ error: "Invalid mpegts" }), { status: 400 });
+    }
+    const segmentParam = url.searchParams.get("segment");
+    const segment = segmentParam === null ? null : Number(segmentParam);
+    if (segment !== null && (!Number.isSafeInteger(segment) || segment < 0)) {
+      return new Response(JSON.stringify({ error: "Invalid segment" }), { status: 400 });
+    }
+
+    const ended = this.roomState.speakerKey === null;
+    const startedAt = this.roomState.transcriptStartedAt;
+    // Live segments only need the recent past; an ended room's playlist spans the whole transcript
+    const stored = await this.state.storage.list<TranscriptSegment>(
+      ended || segment === null
+        ? { prefix: SEGMENT_KEY_PREFIX }
+        : { prefix: SEGMENT_KEY_PREFIX, reverse: true, limit: LIVE_SUBTITLE_SCAN_LIMIT },
+    );
+    if (ended && !stored.size) {
+      return new Response(JSON.stringify({ error: "Room not found" }), { status: 404 });
+    }
+    const cues = [...stored.values()].filter(
+      (seg) => seg.kind === "out" && (seg.lang === lang || (!seg.lang && lang === this.targetLangs[0])),
+    );
+    const range = ended
+      ? endedSegmentRange(cues)
+      : startedAt === null
+        ? { first: 0, last: -1 }
+        : liveSegmentRange(Date.now() - startedAt);
+
+    if (segment === null) {
+      // Segment requests need the same credentials as the playlist
+      const params = new URLSearchParams();
+      if (mpegtsParam !== null) params.set("mpegts", String(mpegts));
+      for (const name of ["token", "key"]) {
+        const value = url.searchParams.get(name);
+        if (value) params.set(name, value);
+      }
+      const query = params.toString() ? `?${params}` : "";
+      const playlist = formatPlaylist({
+        range,
+        startedAt: ended ? null : startedAt,
+        ended,
+        segmentUri: (n) => `${lang}/${n}.vtt${query}`,
+      });
+      return new Response(playlist, { headers: { "Content-Type": HLS_CONTENT_TYPES.playlist } });
+    }
+    if (segment < range.first || segment > range.last) {
+      return new Response(JSON.stringify({ error: "Segment not available" }), { status: 404 });
+    }
+    // A phrase still open (spoken without a pause for longer than the publish delay) may add a cue here later
+    const streams = [`out:${lang}`, ...(lang === this.targetLangs[0] ? ["out:"] : [])];
+    const pending = !ended && startedAt !== null && streams.some((stream) => {
+      const since = this.segments.openSince(stream);
+      return since !== null && since - startedAt < (segment + 1) * HLS_SEGMENT_MS;
+    });
+    return new Response(formatSegment(segment, cues, mpegts), {
+      headers: { "Content-Type": HLS_CONTENT_TYPES.segment, ...(pending ? { "Cache-Control": "no-store" } : {}) },
+    });
+  }
+
+  /**
+   * Feed in_text/out_text into the segmenter and persist finalized segments.
+   * Open phrases are stored along with them, and when events pause (see scheduleSeqSave).
+   */
+  private recordTranscript(kind: "in" | "out", lang: string | null, text: string, finished?: boolean, cumulative?: boolean): void {
+    const now = Date.now();
+    if (this.roomState.transcriptStartedAt === null) this.roomState.transcriptStartedAt = now;
+    const stream = kind === "in" ? "in" : `out:${lang ?? ""}`;
+    this.saveSegments(this.segments.update(stream, text, finished, now, cumulative).map((seg) => ({ stream, ...seg })));
+    // The alarm closes the phrase if the speaker pauses; it only needs moving when due too late
+    const idleAt = this.segments.nextIdleAt();
+    if (idleAt !== null && (this.alarmAt === null || idleAt < this.alarmAt)) this.scheduleAlarm();
+  }
+
+  private flushTranscript(): void {
+    this.saveSegments(this.segments.flush());
+  }
+
+  private saveSegments(closed: { stream: string; text: string; start: number; end: number }[]): void {
+    if (!closed.length) return;
+    const origin = this.roomState.transcriptStartedAt ?? closed[0].start;
+    const segments = closed.map((seg): TranscriptSegment => {
+      const kind = seg.stream === "in" ? "in" : "out";
+      return {
+        id: this.roomState.segmentCount++,
+        kind,
+        lang: kind === "out" ? seg.stream.slice(4) || null : null,
+        text: seg.text,
+        start: seg.start - origin,
+        end: seg.end - origin,
+      };
+    });
+    this.state.storage.put({
+      ...Object.fromEntries(segments.map((segment) => [segmentKey(segment.id), segment])),
+      openSegments: this.segments.snapshot(),
+      roomState: this.roomState,
+    });
+    for (const segment of segments) this.announceScripture(segment.text);
+  }
+
+  /** Announce scripture references found in a finalized transcript phrase (any language) */
+  private announceScripture(text: string): void {
+    const now = Date.now();
+    for (const [key, entry] of this.announcedScripture) {
+      if (!entry.dismissed && now - entry.at > SCRIPTURE_REPEAT_MS) this.announcedScripture.delete(key);
+    }
+    for (const ref of detectScripture(text)) {
+      const key = formatScriptureRef(ref);
+      // The same passage usually shows up in the source and every translation at once
+      if (this.announcedScripture.has(key)) continue;
+      const id = crypto.randomUUID().slice(0, 8);
+      this.announcedScripture.set(key, { id, at: now, dismissed: false });
+      this.broadcastRoomEvent({ t: "scripture", id, ...ref });
+    }
+  }
+
+  private dismissScripture(id: string): void {
+    const entry = [...this.announcedScripture.values()].find((e) => e.id === id);
+    if (!entry || entry.dismissed) return;
+    entry.dismissed = true;
+    this.broadcastRoomEvent({ t: "scripture_dismiss", id });
+  }
+
+  /**
+   * Send buffered events after `since` to a reconnecting audience socket.
+   * Emits a `gap` event first when some of them have already left the buffer.
+   */
+  private replaySince(socket: WebSocket, since: number, requestedLang: string | null, version: number): void {
+    if (since >= this.roomState.seq) return;
+    const { gap, events } = this.replay.since(since);
+    try {
+      if (gap && RoomDO.understands(version, "gap")) {
+        socket.send(JSON.stringify({ t: "gap", seq: gap.to, ...gap }));
+      }
+      const lang = this.effectiveLang(requestedLang);
+      for (const entry of events) {
+        if (entry.lang && lang && entry.lang !== lang) continue;
+        if (!RoomDO.understands(version, entry.type)) continue;
+        socket.send(entry.data);
+      }
+    } catch {
+      // socket closed mid-replay
+    }
+  }
+
+  /** Resolve the language an audience socket receives (falls back to the room default) */
+  private effectiveLang(requested: string | null): string | null {
+    if (requested && this.targetLangs.includes(requested)) return requested;
+    return this.targetLangs[0] ?? null;
   }
 
-  /** Broadcast message from speaker to all audience */
-  private handleSpeakerMessage(event: MessageEvent) {
-    const data = event.data;
+  /** Broadcast message from speaker to audience (language-tagged events only to subscribers) */
+  private async handleSpeakerMessage(socket: WebSocket, info: SpeakerInfo, data: string | ArrayBuffer): Promise<void> {
     const size =
       typeof data === "string"
         ? new TextEncoder().encode(data).byteLength
@@ -139,19 +1294,163 @@ export class RoomDO {
           ? data.byteLength
           : 0;
     if (size > RoomDO.MAX_MESSAGE_BYTES) {
-      try { this.speakerSocket?.close(1009, "Message too large"); } catch { /* ignore */ }
+      try { socket.close(1009, "Message too large"); } catch { /* ignore */ }
       return;
     }
+    let audio: AudioPacket | null = null;
     if (typeof data === "string") {
+      let raw: unknown;
       try {
-        const parsed = JSON.parse(data) as { t?: string };
-        if (parsed.t === "lang_info") this.lastLangInfo = data;
+        raw = JSON.parse(data);
       } catch {
-        // ignore non-json payloads
+        return this.rejectSpeakerEvent(socket, info, "invalid JSON");
       }
+      const control = parseSpeakerControl(raw);
+      if (control) return this.handleSpeakerControl(info, control);
+      const result = validateSpeakerEvent(raw);
+      if (!result.ok) return this.rejectSpeakerEvent(socket, info, result.reason);
+      if (result.event.t === "lang_info") {
+        // Remember every presenter's languages; only the floor holder's reach the audience
+        const langInfo: LangInfoEvent = this.roomState.presenters.length
+          ? { ...result.event, presenter: info.presenterName }
+          : result.event;
+        this.presenterLangInfo[info.presenterId] = langInfo;
+        if (info.presenterId === this.roomState.floor) this.broadcastEvent(langInfo);
+        else this.persistLangInfo();
+        return;
+      }
+      if (info.presenterId !== this.roomState.floor) return;
+      if (result.event.t === "out_audio") {
+        // Legacy speaker page: base64 audio inside JSON
+        audio = audioPacketFromJson(result.event);
+      } else {
+        return this.broadcastEvent(result.event);
+      }
+    } else {
+      audio = decodeAudioFrame(data);
+    }
+
+    if (!audio || (audio.lang !== null && !isLangCode(audio.lang))) return this.rejectSpeakerEvent(socket, info, "invalid audio frame");
+    if (info.presenterId !== this.roomState.floor) return;
+    audio.seq = this.nextSeq();
+    this.broadcastAudio(audio);
+  }
+
+  /** Count malformed input per connection; a speaker that keeps sending it is disconnected with the last reason */
+  private rejectSpeakerEvent(socket: WebSocket, info: SpeakerInfo, reason: string): void {
+    info.rejected = (info.rejected ?? 0) + 1;
+    socket.serializeAttachment(info);
+    if (info.rejected > RoomDO.MAX_REJECTED_EVENTS) {
+      try { socket.close(1008, `Protocol violation: ${reason}`.slice(0, 120)); } catch { /* ignore */ }
+    }
+  }
+
+  /** Stamp a validated text/control event and send it to subscribed listeners */
+  private broadcastEvent(event: Exclude<SpeakerEvent, { t: "out_audio" }>): void {
+    // Restamp with the room-wide seq so replay survives speaker reconnects
+    const seq = this.nextSeq();
+    const outgoing = JSON.stringify({ ...event, seq });
+    const lang = "lang" in event && event.lang ? event.lang : null;
+    if (event.t === "lang_info") {
+      this.lastLangInfo = outgoing;
+      this.targetLangs = event.targets?.map((target) => target.code) ?? [];
+      this.persistLangInfo();
+    }
+    this.bufferForReplay({ seq, type: event.t, data: outgoing, lang });
+
+    for (const [socket, info] of this.audienceSockets()) {
+      if (lang && this.targetLangs.length && this.effectiveLang(info.lang) !== lang) continue;
+      if (!RoomDO.understands(info.version, event.t)) continue;
+      try { socket.send(outgoing); } catch { /* socket closed */ }
     }
-    for (const socket of this.audienceSockets) {
-      try { socket.send(data); } catch { /* socket closed */ }
+    // After sending, so events derived from the transcript (scripture) follow it in seq order
+    if (event.t === "in_text" || event.t === "out_text") {
+      this.recordTranscript(event.t === "in_text" ? "in" : "out", lang, event.text, event.finished, event.cumulative);
     }
   }
+
+  /** Room-generated event for every listener and speaker, kept for replay */
+  private broadcastRoomEvent(event: { t: string; [field: string]: unknown }): void {
+    const seq = this.nextSeq();
+    const outgoing = JSON.stringify({ ...event, seq });
+    this.bufferForReplay({ seq, type: event.t, data: outgoing, lang: null });
+
+    for (const [socket, info] of [...this.audienceSockets(), ...this.speakerSockets()]) {
+      if (!RoomDO.understands(info.version, event.t)) continue;
+      try { socket.send(outgoing); } catch { /* socket closed */ }
+    }
+  }
+
+  /** Keep an event for replay, dropping the oldest past REPLAY_BUFFER_SIZE; storage follows in batches */
+  private bufferForReplay(entry: BufferedEvent): void {
+    this.replay.push(entry);
+    this.replaySaveTimer ??= setTimeout(() => {
+      this.replaySaveTimer = null;
+      this.saveReplay();
+    }, RoomDO.REPLAY_SAVE_INTERVAL_MS);
+  }
+
+  /** Write replay entries added (and delete those dropped) since the last save */
+  private saveReplay(): void {
+    const changes = this.replay.takeChanges();
+    if (!changes) return;
+    const entries: [string, unknown][] = [
+      ...changes.put.map((entry): [string, unknown] => [replayKey(entry.seq), entry]),
+      [REPLAY_DROPPED_KEY, changes.droppedThrough],
+    ];
+    // Storage batches take at most 128 keys
+    for (let i = 0; i < entries.length; i += 128) {
+      this.state.storage.put(Object.fromEntries(entries.slice(i, i + 128)));
+    }
+    const removed = changes.remove.map(replayKey);
+    for (let i = 0; i < removed.length; i += 128) {
+      this.state.storage.delete(removed.slice(i, i + 128));
+    }
+  }
+
+  /** Send audio in each socket's negotiated form, encoding each form at most once */
+  private broadcastAudio(audio: AudioPacket): void {
+    let binary: ArrayBuffer | null = null;
+    let json: string | null = null;
+    for (const [socket, info] of this.audienceSockets()) {
+      if (audio.lang && this.targetLangs.length && this.effectiveLang(info.lang) !== audio.lang) continue;
+      if (!this.wantsAudio(info, audio.codec) || !RoomDO.understands(info.version, "out_audio")) continue;
+      try {
+        if (info.binary) socket.send(binary ??= encodeAudioFrame(audio));
+        else socket.send(json ??= audioPacketToJson(audio));
+      } catch { /* socket closed */ }
+    }
+  }
+
+  private persistLangInfo(): void {
+    const langInfo: LangInfoState = { event: this.lastLangInfo, targets: this.targetLangs, byPresenter: this.presenterLangInfo };
+    this.state.storage.put("langInfo", langInfo);
+  }
+
+  private static understands(version: number, type: string): boolean {
+    return version >= (EVENT_MIN_VERSION[type] ?? Infinity);
+  }
+
+  private nextSeq(): number {
+    const seq = ++this.roomState.seq;
+    if (this.roomState.seqExact || seq % RoomDO.SEQ_PERSIST_STRIDE === 0) {
+      // First event of a burst marks the stored seq stale; checkpoints bound how far it lags
+      this.roomState.seqExact = false;
+      this.state.storage.put("roomState", this.roomState);
+    }
+    this.scheduleSeqSave();
+    return seq;
+  }
+
+  /** Write the exact seq once events pause, so waking from hibernation continues from it */
+  private scheduleSeqSave(): void {
+    if (this.seqSaveTimer !== null) clearTimeout(this.seqSaveTimer);
+    this.seqSaveTimer = setTimeout(() => {
+      this.seqSaveTimer = null;
+      // Replay entries first: an exact seq promises the stored buffer is complete
+      this.saveReplay();
+      this.roomState.seqExact = true;
+      this.state.storage.put({ roomState: this.roomState, openSegments: this.segments.snapshot() });
+    }, RoomDO.SEQ_SAVE_DELAY_MS);
+  }
 }
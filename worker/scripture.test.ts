@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { detectScripture, formatScriptureRef } from "./scripture";
+
+function refs(text: string): string[] {
+  return detectScripture(text).map(formatScriptureRef);
+}
+
+describe("detectScripture", () => {
+  it("finds references in the Latin-script languages", () => {
+    expect(refs("Turn with me to John 3:16.")).toEqual(["JHN 3:16"]);
+    expect(refs("Read First Corinthians 13:4 through 7 and Psalm 23:1")).toEqual(["1CO 13:4-7", "PSA 23:1"]);
+    expect(refs("Abramos en Juan capítulo 3, versículo 16")).toEqual(["JHN 3:16"]);
+    expect(refs("Lisons Ésaïe 53.5 et 1re Jean 1:9")).toEqual(["ISA 53:5", "1JN 1:9"]);
+    expect(refs("Wir lesen 1. Mose 1,1 bis 3")).toEqual(["GEN 1:1-3"]);
+    expect(refs("Vamos ler Romanos 8:28 e Gênesis 1:1–2")).toEqual(["ROM 8:28", "GEN 1:1-2"]);
+  });
+
+  it("ignores accents and case", () => {
+    expect(refs("GENESIS 1:1 and genèse 1:1")).toEqual(["GEN 1:1"]);
+    expect(refs("hebreos 11:1")).toEqual(["HEB 11:1"]);
+  });
+
+  it("finds references in Korean, Chinese and Japanese", () => {
+    expect(refs("요한복음 3장 16절 말씀입니다")).toEqual(["JHN 3:16"]);
+    expect(refs("시편 23편 1절에서 6절까지")).toEqual(["PSA 23:1-6"]);
+    expect(refs("请看约翰福音三章十六节")).toEqual(["JHN 3:16"]);
+    expect(refs("詩篇第一百一十九篇一百零五節")).toEqual(["PSA 119:105"]);
+    expect(refs("ヨハネによる福音書3章16節から18節")).toEqual(["JHN 3:16-18"]);
+  });
+
+  it("prefers the longest book name", () => {
+    expect(refs("1 John 4:8")).toEqual(["1JN 4:8"]);
+    expect(refs("예레미야애가 3장 22절")).toEqual(["LAM 3:22"]);
+  });
+
+  it("rejects chapters and verses that cannot exist and plain numbers", () => {
+    expect(refs("Jude 2:1")).toEqual([]);
+    expect(refs("Psalm 151:1")).toEqual([]);
+    expect(refs("John 3:200")).toEqual([]);
+    expect(refs("Mark 10 minutes at 3:16")).toEqual([]);
+    expect(refs("Johnson 3:16")).toEqual([]);
+  });
+
+  it("lists each passage once and keeps reversed ranges as a single verse", () => {
+    expect(refs("John 3:16, again John 3:16")).toEqual(["JHN 3:16"]);
+    expect(refs("John 3:16-14")).toEqual(["JHN 3:16"]);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Scripture reference detection in transcript text ("John 3:16", "요한복음 3장 16절", "约翰福音3章16节", ...)
+ *
+ * Book names cover every app language. Latin-script names are matched accent- and
+ * case-insensitively; numbered books accept the usual ordinal spellings ("1 John", "First John").
+ */
+
+/** Normalized reference; `book` is the USFM book code (e.g. "JHN") */
+export interface ScriptureRef {
+  book: string;
+  chapter: number;
+  verse: number;
+  verseEnd?: number;
+}
+
+const BOOK_CODES = [
+  "GEN", "EXO", "LEV", "NUM", "DEU", "JOS", "JDG", "RUT", "1SA", "2SA", "1KI", "2KI", "1CH", "2CH", "EZR", "NEH", "EST",
+  "JOB", "PSA", "PRO", "ECC", "SNG", "ISA", "JER", "LAM", "EZK", "DAN", "HOS", "JOL", "AMO", "OBA", "JON", "MIC", "NAM",
+  "HAB", "ZEP", "HAG", "ZEC", "MAL", "MAT", "MRK", "LUK", "JHN", "ACT", "ROM", "1CO", "2CO", "GAL", "EPH", "PHP", "COL",
+  "1TH", "2TH", "1TI", "2TI", "TIT", "PHM", "HEB", "JAS", "1PE", "2PE", "1JN", "2JN", "3JN", "JUD", "REV",
+];
+
+/** Chapters per book (largest count across versification traditions) */
+const CHAPTER_COUNTS = [
+  50, 40, 27, 36, 34, 24, 21, 4, 31, 24, 22, 25, 29, 36, 10, 13, 10,
+  42, 150, 31, 12, 8, 66, 52, 5, 48, 12, 14, 4, 9, 1, 4, 7, 3,
+  3, 3, 2, 14, 4, 28, 16, 24, 21, 28, 16, 16, 13, 6, 6, 4, 4,
+  5, 3, 6, 4, 3, 1, 13, 5, 5, 3, 5, 1, 1, 1, 22,
+];
+
+const MAX_VERSE = 176;
+
+/**
+ * Book names per language in BOOK_CODES order; "|" separates aliases and "{n}" stands for
+ * the language's spellings of ordinal n.
+ */
+const LATIN_BOOK_NAMES: Record<string, string[]> = {
+  en: [
+    "Genesis", "Exodus", "Leviticus", "Numbers", "Deuteronomy", "Joshua", "Judges", "Ruth", "{1} Samuel", "{2} Samuel",
+    "{1} Kings", "{2} Kings", "{1} Chronicles", "{2} Chronicles", "Ezra", "Nehemiah", "Esther", "Job", "Psalms|Psalm",
+    "Proverbs", "Ecclesiastes", "Song of Solomon|Song of Songs", "Isaiah", "Jeremiah", "Lamentations", "Ezekiel", "Daniel",
+    "Hosea", "Joel", "Amos", "Obadiah", "Jonah", "Micah", "Nahum", "Habakkuk", "Zephaniah", "Haggai", "Zechariah",
+    "Malachi", "Matthew", "Mark", "Luke", "John", "Acts|Acts of the Apostles", "Romans", "{1} Corinthians",
+    "{2} Corinthians", "Galatians", "Ephesians", "Philippians", "Colossians", "{1} Thessalonians", "{2} Thessalonians",
+    "{1} Timothy", "{2} Timothy", "Titus", "Philemon", "Hebrews", "James", "{1} Peter", "{2} Peter", "{1} John",
+    "{2} John", "{3} John", "Jude", "Revelation|Revelations",
+  ],
+  es: [
+    "Génesis", "Éxodo", "Levítico", "Números", "Deuteronomio", "Josué", "Jueces", "Rut", "{1} Samuel", "{2} Samuel",
+    "{1} Reyes", "{2} Reyes", "{1} Crónicas", "{2} Crónicas", "Esdras", "Nehemías", "Ester", "Job", "Salmos|Salmo",
+    "Proverbios", "Eclesiastés", "Cantares|Cantar de los Cantares", "Isaías", "Jeremías", "Lamentaciones", "Ezequiel",
+    "Daniel", "Oseas", "Joel", "Amós", "Abdías", "Jonás", "Miqueas", "Nahúm", "Habacuc", "Sofonías", "Hageo", "Zacarías",
+    "Malaquías", "Mateo", "Marcos", "Lucas", "Juan", "Hechos|Hechos de los Apóstoles", "Romanos", "{1} Corintios",
+    "{2} Corintios", "Gálatas", "Efesios", "Filipenses", "Colosenses", "{1} Tesalonicenses", "{2} Tesalonicenses",
+    "{1} Timoteo", "{2} Timoteo", "Tito", "Filemón", "Hebreos", "Santiago", "{1} Pedro", "{2} Pedro", "{1} Juan",
+    "{2} Juan", "{3} Juan", "Judas", "Apocalipsis",
+  ],
+  fr: [
+    "Genèse", "Exode", "Lévitique", "Nombres", "Deutéronome", "Josué", "Juges", "Ruth", "{1} Samuel", "{2} Samuel",
+    "{1} Rois", "{2} Rois", "{1} Chroniques", "{2} Chroniques", "Esdras", "Néhémie", "Esther", "Job", "Psaumes|Psaume",
+    "Proverbes", "Ecclésiaste", "Cantique des cantiques|Cantique", "Ésaïe|Isaïe", "Jérémie", "Lamentations", "Ézéchiel",
+    "Daniel", "Osée", "Joël", "Amos", "Abdias", "Jonas", "Michée", "Nahum", "Habacuc", "Sophonie", "Aggée", "Zacharie",
+    "Malachie", "Matthieu", "Marc", "Luc", "Jean", "Actes|Actes des Apôtres", "Romains", "{1} Corinthiens",
+    "{2} Corinthiens", "Galates", "Éphésiens", "Philippiens", "Colossiens", "{1} Thessaloniciens", "{2} Thessaloniciens",
+    "{1} Timothée", "{2} Timothée", "Tite", "Philémon", "Hébreux", "Jacques", "{1} Pierre", "{2} Pierre", "{1} Jean",
+    "{2} Jean", "{3} Jean", "Jude", "Apocalypse",
+  ],
+  de: [
+    "Genesis|{1} Mose", "Exodus|{2} Mose", "Levitikus|{3} Mose", "Numeri|{4} Mose", "Deuteronomium|{5} Mose", "Josua",
+    "Richter", "Rut|Ruth", "{1} Samuel", "{2} Samuel", "{1} Könige", "{2} Könige", "{1} Chronik", "{2} Chronik", "Esra",
+    "Nehemia", "Ester|Esther", "Hiob|Ijob", "Psalmen|Psalm", "Sprüche|Sprichwörter", "Prediger|Kohelet",
+    "Hoheslied|Hohelied", "Jesaja", "Jeremia", "Klagelieder", "Hesekiel|Ezechiel", "Daniel", "Hosea", "Joel", "Amos",
+    "Obadja", "Jona", "Micha", "Nahum", "Habakuk", "Zefanja|Zephanja", "Haggai", "Sacharja", "Maleachi", "Matthäus",
+    "Markus", "Lukas", "Johannes", "Apostelgeschichte", "Römer|Römerbrief", "{1} Korinther", "{2} Korinther", "Galater",
+    "Epheser", "Philipper", "Kolosser", "{1} Thessalonicher", "{2} Thessalonicher", "{1} Timotheus", "{2} Timotheus",
+    "Titus", "Philemon", "Hebräer|Hebräerbrief", "Jakobus", "{1} Petrus", "{2} Petrus", "{1} Johannes", "{2} Johannes",
+    "{3} Johannes", "Judas", "Offenbarung",
+  ],
+  pt: [
+    "Gênesis", "Êxodo", "Levítico", "Números", "Deuteronômio", "Josué", "Juízes", "Rute", "{1} Samuel", "{2} Samuel",
+    "{1} Reis", "{2} Reis", "{1} Crônicas", "{2} Crônicas", "Esdras", "Neemias", "Ester", "Jó", "Salmos|Salmo",
+    "Provérbios", "Eclesiastes", "Cânticos|Cantares|Cântico dos Cânticos", "Isaías", "Jeremias", "Lamentações",
+    "Ezequiel", "Daniel", "Oseias", "Joel", "Amós", "Obadias", "Jonas", "Miqueias", "Naum", "Habacuque", "Sofonias",
+    "Ageu", "Zacarias", "Malaquias", "Mateus", "Marcos", "Lucas", "João", "Atos|Atos dos Apóstolos", "Romanos",
+    "{1} Coríntios", "{2} Coríntios", "Gálatas", "Efésios", "Filipenses", "Colossenses", "{1} Tessalonicenses",
+    "{2} Tessalonicenses", "{1} Timóteo", "{2} Timóteo", "Tito", "Filemom", "Hebreus", "Tiago", "{1} Pedro", "{2} Pedro",
+    "{1} João", "{2} João", "{3} João", "Judas", "Apocalipse",
+  ],
+};
+
+/** Spellings of "{n}" per language (accents are stripped before matching) */
+const ORDINALS: Record<string, Record<number, string[]>> = {
+  en: {
+    1: ["1", "1st", "first"],
+    2: ["2", "2nd", "second"],
+    3: ["3", "3rd", "third"],
+  },
+  es: {
+    1: ["1", "1a", "1o", "1ra", "primera", "primero", "primer", "primera de", "primero de"],
+    2: ["2", "2a", "2o", "2da", "segunda", "segundo", "segunda de", "segundo de"],
+    3: ["3", "3a", "3o", "3ra", "tercera", "tercero", "tercer", "tercera de", "tercero de"],
+  },
+  fr: {
+    1: ["1", "1er", "1re", "1ere", "premier", "première", "premiere"],
+    2: ["2", "2e", "2eme", "deuxième", "second", "seconde"],
+    3: ["3", "3e", "3eme", "troisième"],
+  },
+  de: {
+    1: ["1.", "1", "erste", "erster", "ersten", "erstes"],
+    2: ["2.", "2", "zweite", "zweiter", "zweiten", "zweites"],
+    3: ["3.", "3", "dritte", "dritter", "dritten", "drittes"],
+    4: ["4.", "4", "vierte", "vierten"],
+    5: ["5.", "5", "fünfte", "fünften"],
+  },
+  pt: {
+    1: ["1", "1a", "1o", "primeira", "primeiro", "primeira de", "primeiro de"],
+    2: ["2", "2a", "2o", "segunda", "segundo", "segunda de", "segundo de"],
+    3: ["3", "3a", "3o", "terceira", "terceiro", "terceira de", "terceiro de"],
+  },
+};
+
+/** Korean, Chinese (simplified|traditional) and Japanese names in BOOK_CODES order */
+const CJK_BOOK_NAMES: Record<string, string[]> = {
+  ko: [
+    "창세기", "출애굽기", "레위기", "민수기", "신명기", "여호수아", "사사기", "룻기", "사무엘상", "사무엘하", "열왕기상",
+    "열왕기하", "역대상", "역대하", "에스라", "느헤미야", "에스더", "욥기", "시편", "잠언", "전도서", "아가", "이사야",
+    "예레미야", "예레미야애가|애가", "에스겔", "다니엘", "호세아", "요엘", "아모스", "오바댜", "요나", "미가", "나훔",
+    "하박국", "스바냐", "학개", "스가랴", "말라기", "마태복음", "마가복음", "누가복음", "요한복음", "사도행전", "로마서",
+    "고린도전서", "고린도후서", "갈라디아서", "에베소서", "빌립보서", "골로새서", "데살로니가전서", "데살로니가후서",
+    "디모데전서", "디모데후서", "디도서", "빌레몬서", "히브리서", "야고보서", "베드로전서", "베드로후서", "요한일서",
+    "요한이서", "요한삼서", "유다서", "요한계시록|계시록",
+  ],
+  zh: [
+    "创世记|創世記", "出埃及记|出埃及記", "利未记|利未記", "民数记|民數記", "申命记|申命記", "约书亚记|約書亞記",
+    "士师记|士師記", "路得记|路得記", "撒母耳记上|撒母耳記上", "撒母耳记下|撒母耳記下", "列王纪上|列王紀上",
+    "列王纪下|列王紀下", "历代志上|歷代志上", "历代志下|歷代志下", "以斯拉记|以斯拉記", "尼希米记|尼希米記",
+    "以斯帖记|以斯帖記", "约伯记|約伯記", "诗篇|詩篇", "箴言", "传道书|傳道書", "雅歌", "以赛亚书|以賽亞書",
+    "耶利米书|耶利米書", "耶利米哀歌", "以西结书|以西結書", "但以理书|但以理書", "何西阿书|何西阿書", "约珥书|約珥書",
+    "阿摩司书|阿摩司書", "俄巴底亚书|俄巴底亞書", "约拿书|約拿書", "弥迦书|彌迦書", "那鸿书|那鴻書", "哈巴谷书|哈巴谷書",
+    "西番雅书|西番雅書", "哈该书|哈該書", "撒迦利亚书|撒迦利亞書", "玛拉基书|瑪拉基書", "马太福音|馬太福音",
+    "马可福音|馬可福音", "路加福音", "约翰福音|約翰福音", "使徒行传|使徒行傳", "罗马书|羅馬書", "哥林多前书|哥林多前書",
+    "哥林多后书|哥林多後書", "加拉太书|加拉太書", "以弗所书|以弗所書", "腓立比书|腓立比書", "歌罗西书|歌羅西書",
+    "帖撒罗尼迦前书|帖撒羅尼迦前書", "帖撒罗尼迦后书|帖撒羅尼迦後書", "提摩太前书|提摩太前書", "提摩太后书|提摩太後書",
+    "提多书|提多書", "腓利门书|腓利門書", "希伯来书|希伯來書", "雅各书|雅各書", "彼得前书|彼得前書", "彼得后书|彼得後書",
+    "约翰一书|約翰一書", "约翰二书|約翰二書", "约翰三书|約翰三書", "犹大书|猶大書", "启示录|啟示錄",
+  ],
+  ja: [
+    "創世記", "出エジプト記", "レビ記", "民数記", "申命記", "ヨシュア記", "士師記", "ルツ記", "サムエル記上|サムエル記第一",
+    "サムエル記下|サムエル記第二", "列王記上|列王紀上", "列王記下|列王紀下", "歴代誌上", "歴代誌下", "エズラ記",
+    "ネヘミヤ記", "エステル記", "ヨブ記", "詩編|詩篇", "箴言", "コヘレトの言葉|伝道の書|伝道者の書", "雅歌", "イザヤ書",
+    "エレミヤ書", "哀歌", "エゼキエル書", "ダニエル書", "ホセア書", "ヨエル書", "アモス書", "オバデヤ書", "ヨナ書", "ミカ書",
+    "ナホム書", "ハバクク書", "ゼファニヤ書|ゼパニヤ書", "ハガイ書", "ゼカリヤ書", "マラキ書",
+    "マタイによる福音書|マタイの福音書|マタイ福音書|マタイ", "マルコによる福音書|マルコの福音書|マルコ福音書|マルコ",
+    "ルカによる福音書|ルカの福音書|ルカ福音書|ルカ", "ヨハネによる福音書|ヨハネの福音書|ヨハネ福音書|ヨハネ",
+    "使徒言行録|使徒行伝|使徒の働き", "ローマの信徒への手紙|ローマ人への手紙",
+    "コリントの信徒への手紙一|コリント人への第一の手紙|コリント人への手紙第一",
+    "コリントの信徒への手紙二|コリント人への第二の手紙|コリント人への手紙第二", "ガラテヤの信徒への手紙|ガラテヤ人への手紙",
+    "エフェソの信徒への手紙|エペソ人への手紙", "フィリピの信徒への手紙|ピリピ人への手紙",
+    "コロサイの信徒への手紙|コロサイ人への手紙",
+    "テサロニケの信徒への手紙一|テサロニケ人への第一の手紙|テサロニケ人への手紙第一",
+    "テサロニケの信徒への手紙二|テサロニケ人への第二の手紙|テサロニケ人への手紙第二",
+    "テモテへの手紙一|テモテへの第一の手紙", "テモテへの手紙二|テモテへの第二の手紙", "テトスへの手紙",
+    "フィレモンへの手紙|ピレモンへの手紙", "ヘブライ人への手紙|ヘブル人への手紙", "ヤコブの手紙",
+    "ペトロの手紙一|ペテロの第一の手紙|ペテロの手紙第一", "ペトロの手紙二|ペテロの第二の手紙|ペテロの手紙第二",
+    "ヨハネの手紙一|ヨハネの第一の手紙|ヨハネの手紙第一", "ヨハネの手紙二|ヨハネの第二の手紙|ヨハネの手紙第二",
+    "ヨハネの手紙三|ヨハネの第三の手紙|ヨハネの手紙第三", "ユダの手紙", "ヨハネの黙示録|黙示録",
+  ],
+};
+
+const CHAPTER_WORDS = ["chapter", "capitulo", "chapitre", "kapitel"];
+const VERSE_WORDS = ["verses", "verse", "versiculos", "versiculo", "versos", "verso", "versets", "verset", "versen", "vers"];
+const RANGE_WORDS = ["through", "thru", "to", "hasta", "al", "ao", "ate", "au", "bis", "a"];
+
+/** Digits plus Chinese/Japanese numerals */
+const CJK_NUMBER = "[\\d〇零一二三四五六七八九十百两]{1,6}";
+const CJK_DIGITS = "〇一二三四五六七八九";
+
+function stripAccents(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Lookup key for a matched Latin-script name: "1. Korinther" and "1 korinther" are the same book */
+function latinKey(name: string): string {
+  return stripAccents(name).toLowerCase().replace(/[\s.]+/g, "");
+}
+
+/** Longest-first alternation so "1 John" wins over "John" and "예레미야애가" over "예레미야" */
+function alternation(names: Iterable<string>, toPattern: (name: string) => string): string {
+  return [...new Set(names)].sort((a, b) => b.length - a.length).map(toPattern).join("|");
+}
+
+function buildLatin(): { re: RegExp; books: Map<string, string> } {
+  const books = new Map<string, string>();
+  const forms: string[] = [];
+  for (const [lang, names] of Object.entries(LATIN_BOOK_NAMES)) {
+    names.forEach((entry, i) => {
+      for (const alias of entry.split("|")) {
+        const ordinal = alias.match(/^\{(\d)\} (.+)$/);
+        const expanded = ordinal ? ORDINALS[lang][Number(ordinal[1])].map((prefix) => `${prefix} ${ordinal[2]}`) : [alias];
+        for (const form of expanded) {
+          const stripped = stripAccents(form).toLowerCase();
+          books.set(latinKey(stripped), BOOK_CODES[i]);
+          forms.push(stripped);
+        }
+      }
+    });
+  }
+  const names = alternation(forms, (form) => form.split(/\s+/).map(escapeRegExp).join("\\s*"));
+  const words = (list: string[]) => list.join("|");
+  const re = new RegExp(
+    `(?<![\\p{L}\\d])(${names})\\.?\\s*(?:(?:${words(CHAPTER_WORDS)})\\s*)?(\\d{1,3})` +
+      `(?:\\s*:\\s*|[.,](?=\\d)|,?\\s*(?:${words(VERSE_WORDS)})\\s*)(\\d{1,3})(?!\\d)` +
+      `(?:(?:\\s*[-–]\\s*|\\s+(?:${words(RANGE_WORDS)})\\s+)(\\d{1,3})(?!\\d))?`,
+    "giu"
+  );
+  return { re, books };
+}
+
+function buildCjk(): { re: RegExp; books: Map<string, string> } {
+  const books = new Map<string, string>();
+  for (const names of Object.values(CJK_BOOK_NAMES)) {
+    names.forEach((entry, i) => {
+      for (const alias of entry.split("|")) books.set(alias, BOOK_CODES[i]);
+    });
+  }
+  const names = alternation(books.keys(), escapeRegExp);
+  const n = `(${CJK_NUMBER})`;
+  const re = new RegExp(
+    `(${names})\\s*第?\\s*${n}\\s*(?:章|篇|編|장|편|:)\\s*第?\\s*${n}\\s*[节節절]?` +
+      `(?:\\s*(?:[-–~〜]|至|到|から|에서|부터)\\s*第?\\s*${n}\\s*[节節절]?)?`,
+    "gu"
+  );
+  return { re, books };
+}
+
+const LATIN = buildLatin();
+const CJK = buildCjk();
+
+/** Arabic digits or Chinese/Japanese numerals ("十六", "一百五十", "一〇五") */
+function parseNumber(raw: string): number {
+  if (/^\d+$/.test(raw)) return Number(raw);
+  let total = 0;
+  let current = 0;
+  for (const ch of raw) {
+    if (ch === "百") {
+      total += (current || 1) * 100;
+      current = 0;
+    } else if (ch === "十") {
+      total += (current || 1) * 10;
+      current = 0;
+    } else {
+      const digit = /\d/.test(ch) ? Number(ch) : ch === "零" ? 0 : ch === "两" ? 2 : CJK_DIGITS.indexOf(ch);
+      current = current * 10 + digit;
+    }
+  }
+  return total + current;
+}
+
+/** Build a reference, rejecting chapters/verses that cannot exist */
+function toRef(book: string | undefined, chapter: string, verse: string, verseEnd: string | undefined): ScriptureRef | null {
+  if (!book) return null;
+  const ch = parseNumber(chapter);
+  const v = parseNumber(verse);
+  if (ch < 1 || ch > CHAPTER_COUNTS[BOOK_CODES.indexOf(book)] || v < 1 || v > MAX_VERSE) return null;
+  const ref: ScriptureRef = { book, chapter: ch, verse: v };
+  const end = verseEnd === undefined ? NaN : parseNumber(verseEnd);
+  if (end > v && end <= MAX_VERSE) ref.verseEnd = end;
+  return ref;
+}
+
+/** "JHN 3:16" / "JHN 3:16-18" */
+export function formatScriptureRef(ref: ScriptureRef): string {
+  return `${ref.book} ${ref.chapter}:${ref.verse}${ref.verseEnd ? `-${ref.verseEnd}` : ""}`;
+}
+
+/** All distinct references in `text`, in order of appearance per script */
+export function detectScripture(text: string): ScriptureRef[] {
+  const found = new Map<string, ScriptureRef>();
+  const add = (ref: ScriptureRef | null) => {
+    if (ref && !found.has(formatScriptureRef(ref))) found.set(formatScriptureRef(ref), ref);
+  };
+  const normalized = text.normalize("NFKC");
+  for (const m of stripAccents(normalized).matchAll(LATIN.re)) add(toRef(LATIN.books.get(latinKey(m[1])), m[2], m[3], m[4]));
+  for (const m of normalized.matchAll(CJK.re)) add(toRef(CJK.books.get(m[1]), m[2], m[3], m[4]));
+  return [...found.values()];
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { SegmentBuilder } from "./transcript";
+
+describe("SegmentBuilder", () => {
+  it("closes delta phrases at the end of a sentence", () => {
+    const segments = new SegmentBuilder();
+    expect(segments.update("in", "Good morning,", undefined, 0)).toEqual([]);
+    expect(segments.update("in", " and welcome.", undefined, 500)).toEqual([
+      { text: "Good morning, and welcome.", start: 0, end: 1000 },
+    ]);
+    expect(segments.update("in", " Please sit", undefined, 2000)).toEqual([]);
+    expect(segments.update("in", " down", true, 2600)).toEqual([{ text: "Please sit down", start: 2000, end: 3000 }]);
+  });
+
+  it("keeps cumulative phrases open until the speaker finishes them", () => {
+    const segments = new SegmentBuilder();
+    expect(segments.update("in", "For God so loved.", undefined, 0, true)).toEqual([]);
+    expect(segments.update("in", "For God so loved the world.", undefined, 800, true)).toEqual([]);
+    expect(segments.update("in", "For God so loved the world, that he gave", true, 1600, true)).toEqual([
+      { text: "For God so loved the world, that he gave", start: 0, end: 1600 },
+    ]);
+  });
+
+  it("splits a phrase after a long pause", () => {
+    const segments = new SegmentBuilder();
+    segments.update("ko", "좋은 아침", undefined, 0);
+    expect(segments.update("ko", " 환영합니다", undefined, 5000)).toEqual([{ text: "좋은 아침", start: 0, end: 1000 }]);
+    expect(segments.flush()).toEqual([{ stream: "ko", text: "환영합니다", start: 5000, end: 6000 }]);
+  });
+
+  it("keeps streams apart and resumes open phrases from a snapshot", () => {
+    const segments = new SegmentBuilder();
+    segments.update("in", "Let us", undefined, 0);
+    segments.update("es", "Oremos", undefined, 100);
+
+    const resumed = new SegmentBuilder();
+    resumed.restore(JSON.parse(JSON.stringify(segments.snapshot())));
+    expect(resumed.update("in", " pray together.", undefined, 1200)).toEqual([{ text: "Let us pray together.", start: 0, end: 1200 }]);
+    expect(resumed.flush()).toEqual([{ stream: "es", text: "Oremos", start: 100, end: 1100 }]);
+    expect(resumed.flush()).toEqual([]);
+  });
+
+  it("closes phrases that went quiet when the room alarm fires", () => {
+    const segments = new SegmentBuilder();
+    expect(segments.nextIdleAt()).toBeNull();
+    segments.update("in", "Let us", undefined, 0);
+    segments.update("out:es", "Oremos", undefined, 1000);
+    expect(segments.nextIdleAt()).toBe(3000);
+    expect(segments.openSince("out:es")).toBe(1000);
+    expect(segments.openSince("out:ko")).toBeNull();
+
+    expect(segments.closeIdle(2999)).toEqual([]);
+    expect(segments.closeIdle(3000)).toEqual([{ stream: "in", text: "Let us", start: 0, end: 1000 }]);
+    expect(segments.nextIdleAt()).toBe(4000);
+    expect(segments.closeIdle(4000)).toEqual([{ stream: "out:es", text: "Oremos", start: 1000, end: 2000 }]);
+    expect(segments.nextIdleAt()).toBeNull();
+    expect(segments.flush()).toEqual([]);
+  });
+});
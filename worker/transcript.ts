@@ -0,0 +1,203 @@
+/**
+ * Transcript persistence helpers: segment streaming text and export as SRT/VTT/TXT/JSON
+ */
+import { mergeFragment, phraseEnded } from "../shared/transcriptText";
+
+/** Finalized transcript segment; times are ms relative to the first transcript event */
+export interface TranscriptSegment {
+  id: number;
+  kind: "in" | "out";
+  lang: string | null;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** Source segment(s) paired with the translation that followed them */
+export interface TranscriptPair {
+  start: number;
+  end: number;
+  source: string;
+  target: string;
+}
+
+export type TranscriptFormat = "srt" | "vtt" | "txt" | "json";
+
+export const TRANSCRIPT_FORMATS: Record<TranscriptFormat, { contentType: string; ext: string }> = {
+  srt: { contentType: "application/x-subrip; charset=utf-8", ext: "srt" },
+  vtt: { contentType: "text/vtt; charset=utf-8", ext: "vtt" },
+  txt: { contentType: "text/plain; charset=utf-8", ext: "txt" },
+  json: { contentType: "application/json", ext: "json" },
+};
+
+/** Own keys only: `format in TRANSCRIPT_FORMATS` would also accept "toString" etc. */
+export function isTranscriptFormat(value: unknown): value is TranscriptFormat {
+  return typeof value === "string" && Object.hasOwn(TRANSCRIPT_FORMATS, value);
+}
+
+export const SEGMENT_KEY_PREFIX = "seg:";
+
+export function segmentKey(id: number): string {
+  return `${SEGMENT_KEY_PREFIX}${String(id).padStart(8, "0")}`;
+}
+
+const PAUSE_SPLIT_MS = 3000;
+
+export interface OpenSegment {
+  text: string;
+  start: number;
+  last: number;
+}
+
+/**
+ * Turns streaming in_text/out_text fragments into finalized segments.
+ * The speaker says whether fragments are deltas or cumulative (see shared/transcriptText.ts).
+ */
+export class SegmentBuilder {
+  private open = new Map<string, OpenSegment>();
+
+  /** Feed one fragment; returns segments finalized by it (at most two) */
+  update(
+    stream: string,
+    text: string,
+    finished: boolean | undefined,
+    now: number,
+    cumulative = false,
+  ): { text: string; start: number; end: number }[] {
+    const done: { text: string; start: number; end: number }[] = [];
+    const trimmed = text.trim();
+    let current = this.open.get(stream);
+
+    // A long pause ends the previous phrase even without punctuation
+    if (current && now - current.last >= PAUSE_SPLIT_MS) {
+      done.push(this.close(stream, current));
+      current = undefined;
+    }
+
+    if (trimmed) {
+      if (!current) {
+        current = { text: trimmed, start: now, last: now };
+        this.open.set(stream, current);
+      } else {
+        current.text = mergeFragment(current.text, text, cumulative);
+      }
+      current.last = now;
+    }
+
+    if (current && phraseEnded(current.text, finished, cumulative)) {
+      done.push(this.close(stream, current));
+    }
+    return done;
+  }
+
+  /** Open phrases per stream, persisted so a hibernated room resumes mid-sentence */
+  snapshot(): Record<string, OpenSegment> {
+    return Object.fromEntries(this.open);
+  }
+
+  restore(open: Record<string, OpenSegment>): void {
+    this.open = new Map(Object.entries(open));
+  }
+
+  /** When the earliest open phrase will have paused long enough to close (null = none open) */
+  nextIdleAt(): number | null {
+    const last = Math.min(...[...this.open.values()].map((seg) => seg.last));
+    return Number.isFinite(last) ? last + PAUSE_SPLIT_MS : null;
+  }
+
+  /** Finalize phrases that paused long enough; the next fragment would split them off anyway */
+  closeIdle(now: number): { stream: string; text: string; start: number; end: number }[] {
+    return [...this.open.entries()]
+      .filter(([, seg]) => now - seg.last >= PAUSE_SPLIT_MS)
+      .map(([stream, seg]) => ({ stream, ...this.close(stream, seg) }));
+  }
+
+  /** Start of the phrase still open in `stream` (null = none) */
+  openSince(stream: string): number | null {
+    return this.open.get(stream)?.start ?? null;
+  }
+
+  /** Finalize everything still open (e.g. when the speaker disconnects) */
+  flush(): { stream: string; text: string; start: number; end: number }[] {
+    const done = [...this.open.entries()].map(([stream, seg]) => ({ stream, ...this.close(stream, seg) }));
+    return done.filter((seg) => seg.text);
+  }
+
+  private close(stream: string, seg: OpenSegment): { text: string; start: number; end: number } {
+    this.open.delete(stream);
+    return { text: seg.text, start: seg.start, end: Math.max(seg.last, seg.start + 1000) };
+  }
+}
+
+/**
+ * Pair source segments with the translation (in `lang`) that follows them.
+ * Source text accumulates until the next translated segment; leftovers get an empty target.
+ */
+export function pairSegments(segments: TranscriptSegment[], lang: string | null): TranscriptPair[] {
+  const relevant = segments
+    .filter((seg) => seg.kind === "in" || !lang || !seg.lang || seg.lang === lang)
+    .sort((a, b) => a.start - b.start || a.id - b.id);
+
+  const pairs: TranscriptPair[] = [];
+  let pending: TranscriptSegment[] = [];
+  for (const seg of relevant) {
+    if (seg.kind === "in") {
+      pending.push(seg);
+      continue;
+    }
+    pairs.push({
+      start: Math.min(seg.start, pending[0]?.start ?? seg.start),
+      end: seg.end,
+      source: pending.map((s) => s.text).join(" "),
+      target: seg.text,
+    });
+    pending = [];
+  }
+  if (pending.length) {
+    pairs.push({
+      start: pending[0].start,
+      end: pending[pending.length - 1].end,
+      source: pending.map((s) => s.text).join(" "),
+      target: "",
+    });
+  }
+  return pairs;
+}
+
+function timestamp(ms: number, fractionSep: "," | "."): string {
+  const total = Math.max(0, Math.round(ms));
+  const h = Math.floor(total / 3_600_000);
+  const m = Math.floor((total % 3_600_000) / 60_000);
+  const s = Math.floor((total % 60_000) / 1000);
+  const frac = total % 1000;
+  const pad = (n: number, w = 2) => String(n).padStart(w, "0");
+  return `${pad(h)}:${pad(m)}:${pad(s)}${fractionSep}${pad(frac, 3)}`;
+}
+
+/** WebVTT cue timestamp (HH:MM:SS.mmm) */
+export function vttTimestamp(ms: number): string {
+  return timestamp(ms, ".");
+}
+
+function cueText(pair: TranscriptPair): string {
+  return [pair.target, pair.source].filter(Boolean).join("\n");
+}
+
+export function formatTranscript(pairs: TranscriptPair[], format: TranscriptFormat, lang: string | null): string {
+  switch (format) {
+    case "srt":
+      return pairs
+        .map((p, i) => `${i + 1}\n${timestamp(p.start, ",")} --> ${timestamp(p.end, ",")}\n${cueText(p)}\n`)
+        .join("\n");
+    case "vtt":
+      return "WEBVTT\n\n" + pairs
+        .map((p) => `${vttTimestamp(p.start)} --> ${vttTimestamp(p.end)}\n${cueText(p)}\n`)
+        .join("\n");
+    case "txt":
+      return pairs
+        .map((p) => `[${timestamp(p.start, ".").slice(0, 8)}] ${p.source}\n${p.target ? `           ${p.target}\n` : ""}`)
+        .join("\n");
+    case "json":
+      return JSON.stringify({ lang, segments: pairs }, null, 2);
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { parseGlossary } from "./validate";
+
+describe("parseGlossary", () => {
+  it("keeps trimmed entries and drops blank terms", () => {
+    expect(parseGlossary([
+      { sourceLang: "en", targetLang: "ko", source: " grace ", target: "은혜 " },
+      { sourceLang: "en", targetLang: "ko", source: "faith", target: "  " },
+    ])).toEqual([{ sourceLang: "en", targetLang: "ko", source: "grace", target: "은혜" }]);
+    expect(parseGlossary([])).toEqual([]);
+  });
+
+  it("rejects malformed entries", () => {
+    expect(parseGlossary({ entries: [] })).toBeNull();
+    expect(parseGlossary([{ sourceLang: "en", targetLang: "ko", source: "grace" }])).toBeNull();
+    expect(parseGlossary([{ sourceLang: "en", targetLang: "ko", source: 1, target: "하나" }])).toBeNull();
+    expect(parseGlossary([null])).toBeNull();
+  });
+
+  it("rejects glossaries over the limits", () => {
+    const entry = { sourceLang: "en", targetLang: "ko", source: "grace", target: "은혜" };
+    expect(parseGlossary(Array(500).fill(entry))).toHaveLength(500);
+    expect(parseGlossary(Array(501).fill(entry))).toBeNull();
+    expect(parseGlossary([{ ...entry, target: "은".repeat(201) }])).toBeNull();
+  });
+});
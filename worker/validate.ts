@@ -0,0 +1,213 @@
+/**
+ * Runtime validation of speaker -> room events and protocol versioning
+ *
+ * Events are rebuilt field by field so nothing unexpected is ever forwarded to listeners.
+ */
+import { PROTOCOL_LIMITS } from "../shared/protocolLimits";
+
+export { PROTOCOL_LIMITS };
+
+/** Highest room protocol version this worker speaks (clients send `v=<n>`; absent = 0) */
+export const PROTOCOL_VERSION = 1;
+
+/** Lowest client protocol version that understands each server -> client event */
+export const EVENT_MIN_VERSION: Record<string, number> = {
+  in_text: 0,
+  out_text: 0,
+  out_audio: 0,
+  interrupt: 0,
+  status: 0,
+  lang_info: 0,
+  gap: 1,
+  audio_codecs: 1,
+  presence: 1,
+  expiry: 1,
+  floor: 1,
+  scripture: 1,
+  scripture_dismiss: 1,
+};
+
+const LANG_CODE_RE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})?$/;
+const STATUS_LEVELS = ["info", "warn", "error"] as const;
+const AUDIO_CODECS = ["pcm16", "opus"] as const;
+
+export interface LangTarget {
+  code: string;
+  name: string;
+}
+
+/** Events a speaker may send (seq is assigned by the room) */
+export type SpeakerEvent =
+  /** cumulative: text repeats the whole phrase so far (default: it continues the phrase) */
+  | { t: "in_text"; text: string; finished?: boolean; cumulative?: boolean }
+  | { t: "out_text"; text: string; finished?: boolean; lang?: string; cumulative?: boolean }
+  | { t: "out_audio"; b64: string; sr: number; lang?: string; codec?: (typeof AUDIO_CODECS)[number] }
+  | { t: "interrupt"; lang?: string }
+  | { t: "status"; level: (typeof STATUS_LEVELS)[number]; msg: string }
+  | { t: "lang_info"; sourceLang: string; targetLang: string; targets?: LangTarget[]; presenter?: string };
+
+export type ValidationResult<T> = { ok: true; event: T } | { ok: false; reason: string };
+
+type Fields = Record<string, unknown>;
+
+function isString(value: unknown, max: number): value is string {
+  return typeof value === "string" && value.length <= max;
+}
+
+function optionalBoolean(value: unknown): value is boolean | undefined {
+  return value === undefined || typeof value === "boolean";
+}
+
+export function isLangCode(value: unknown): value is string {
+  return typeof value === "string" && LANG_CODE_RE.test(value);
+}
+
+function optionalLang(value: unknown): value is string | undefined {
+  return value === undefined || isLangCode(value);
+}
+
+function withLang<T extends object>(event: T, lang: string | undefined): T & { lang?: string } {
+  return lang === undefined ? event : { ...event, lang };
+}
+
+/** Optional in_text/out_text flags, omitted when absent */
+function textFlags(finished: boolean | undefined, cumulative: boolean | undefined): { finished?: boolean; cumulative?: boolean } {
+  return {
+    ...(finished !== undefined ? { finished } : {}),
+    ...(cumulative ? { cumulative } : {}),
+  };
+}
+
+function fail<T>(reason: string): ValidationResult<T> {
+  return { ok: false, reason };
+}
+
+export function validateSpeakerEvent(raw: unknown): ValidationResult<SpeakerEvent> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return fail("not an object");
+  const e = raw as Fields;
+
+  switch (e.t) {
+    case "in_text":
+      if (!isString(e.text, PROTOCOL_LIMITS.MAX_TEXT_LENGTH)) return fail("in_text.text");
+      if (!optionalBoolean(e.finished)) return fail("in_text.finished");
+      if (!optionalBoolean(e.cumulative)) return fail("in_text.cumulative");
+      return { ok: true, event: { t: "in_text", text: e.text, ...textFlags(e.finished, e.cumulative) } };
+
+    case "out_text":
+      if (!isString(e.text, PROTOCOL_LIMITS.MAX_TEXT_LENGTH)) return fail("out_text.text");
+      if (!optionalBoolean(e.finished)) return fail("out_text.finished");
+      if (!optionalBoolean(e.cumulative)) return fail("out_text.cumulative");
+      if (!optionalLang(e.lang)) return fail("out_text.lang");
+      return { ok: true, event: withLang({ t: "out_text", text: e.text, ...textFlags(e.finished, e.cumulative) }, e.lang) };
+
+    case "out_audio": {
+      if (!isString(e.b64, PROTOCOL_LIMITS.MAX_B64_LENGTH)) return fail("out_audio.b64");
+      if (typeof e.sr !== "number" || !(PROTOCOL_LIMITS.SAMPLE_RATES as readonly number[]).includes(e.sr)) return fail("out_audio.sr");
+      if (!optionalLang(e.lang)) return fail("out_audio.lang");
+      const codec = e.codec;
+      if (codec !== undefined && !AUDIO_CODECS.includes(codec as (typeof AUDIO_CODECS)[number])) return fail("out_audio.codec");
+      return {
+        ok: true,
+        event: withLang({
+          t: "out_audio",
+          b64: e.b64,
+          sr: e.sr,
+          ...(codec !== undefined ? { codec: codec as (typeof AUDIO_CODECS)[number] } : {}),
+        }, e.lang),
+      };
+    }
+
+    case "interrupt":
+      if (!optionalLang(e.lang)) return fail("interrupt.lang");
+      return { ok: true, event: withLang({ t: "interrupt" }, e.lang) };
+
+    case "status":
+      if (!STATUS_LEVELS.includes(e.level as (typeof STATUS_LEVELS)[number])) return fail("status.level");
+      if (!isString(e.msg, PROTOCOL_LIMITS.MAX_STATUS_LENGTH)) return fail("status.msg");
+      return { ok: true, event: { t: "status", level: e.level as (typeof STATUS_LEVELS)[number], msg: e.msg } };
+
+    case "lang_info": {
+      if (!isString(e.sourceLang, PROTOCOL_LIMITS.MAX_LANG_NAME_LENGTH)) return fail("lang_info.sourceLang");
+      if (!isString(e.targetLang, PROTOCOL_LIMITS.MAX_LANG_NAME_LENGTH)) return fail("lang_info.targetLang");
+      let targets: LangTarget[] | undefined;
+      if (e.targets !== undefined) {
+        if (!Array.isArray(e.targets) || e.targets.length > PROTOCOL_LIMITS.MAX_TARGETS) return fail("lang_info.targets");
+        targets = [];
+        for (const item of e.targets as Fields[]) {
+          if (!item || typeof item.code !== "string" || !LANG_CODE_RE.test(item.code)) return fail("lang_info.targets.code");
+          if (!isString(item.name, PROTOCOL_LIMITS.MAX_LANG_NAME_LENGTH)) return fail("lang_info.targets.name");
+          targets.push({ code: item.code, name: item.name });
+        }
+      }
+      return {
+        ok: true,
+        event: { t: "lang_info", sourceLang: e.sourceLang, targetLang: e.targetLang, ...(targets ? { targets } : {}) },
+      };
+    }
+
+    default:
+      return fail(typeof e.t === "string" ? `unknown type "${e.t.slice(0, 32)}"` : "missing type");
+  }
+}
+
+/** Parse the `v` query param; null when malformed */
+export function parseProtocolVersion(url: URL): number | null {
+  const raw = url.searchParams.get("v");
+  if (raw === null) return 0;
+  return /^\d{1,3}$/.test(raw) ? Number(raw) : null;
+}
+
+/** Messages a listener may send (protocol v1+); everything else closes the socket */
+export type ListenerMessage = { t: "listener_state"; audio: boolean };
+
+export function validateListenerMessage(raw: unknown): ValidationResult<ListenerMessage> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return fail("not an object");
+  const e = raw as Fields;
+  if (e.t !== "listener_state") return fail(typeof e.t === "string" ? `unknown type "${e.t.slice(0, 32)}"` : "missing type");
+  if (typeof e.audio !== "boolean") return fail("listener_state.audio");
+  return { ok: true, event: { t: "listener_state", audio: e.audio } };
+}
+
+/** Speaker -> room control messages (protocol v1+); handled by the room, never broadcast */
+export type SpeakerControl =
+  | { t: "floor"; action: "take" | "release" }
+  | { t: "scripture_dismiss"; id: string };
+
+const SCRIPTURE_ID_RE = /^[0-9a-f]{8}$/;
+
+/** null when `raw` is not a control message (it may still be a broadcast event) */
+export function parseSpeakerControl(raw: unknown): SpeakerControl | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const e = raw as Fields;
+  if (e.t === "floor" && (e.action === "take" || e.action === "release")) return { t: "floor", action: e.action };
+  if (e.t === "scripture_dismiss" && typeof e.id === "string" && SCRIPTURE_ID_RE.test(e.id)) return { t: "scripture_dismiss", id: e.id };
+  return null;
+}
+
+/** Fixed rendering of a term for one language pair (the speaker's glossary) */
+export interface GlossaryEntry {
+  sourceLang: string;
+  targetLang: string;
+  source: string;
+  target: string;
+}
+
+const GLOSSARY_LIMITS = {
+  MAX_ENTRIES: 500,
+  MAX_TERM_LENGTH: 200,
+} as const;
+
+/** Validate glossary entries from the speaker; null if malformed or over limits (blank terms are dropped) */
+export function parseGlossary(raw: unknown): GlossaryEntry[] | null {
+  if (!Array.isArray(raw) || raw.length > GLOSSARY_LIMITS.MAX_ENTRIES) return null;
+  const entries: GlossaryEntry[] = [];
+  for (const item of raw) {
+    const e = (item ?? {}) as Partial<GlossaryEntry>;
+    const fields = [e.sourceLang, e.targetLang, e.source, e.target];
+    if (!fields.every((f) => typeof f === "string" && f.length <= GLOSSARY_LIMITS.MAX_TERM_LENGTH)) return null;
+    const [sourceLang, targetLang, source, target] = (fields as string[]).map((f) => f.trim());
+    if (!source || !target) continue;
+    entries.push({ sourceLang, targetLang, source, target });
+  }
+  return entries;
+}